@@ -66,7 +66,8 @@ export function LottiePreview({ className }: LottiePreviewProps) {
       const lottieAnimation = lottieConverter.convertToLottie(
         words,
         typography,
-        motionSettings
+        motionSettings,
+        { easingCurves: customEasingCurves }
       )
 
       // Validate animation data
@@ -103,7 +104,7 @@ export function LottiePreview({ className }: LottiePreviewProps) {
     } catch (error) {
       console.error('Error creating Lottie animation:', error)
     }
-  }, [words, typography, motionSettings, lottieLoaded, isPlaying, currentTime])
+  }, [words, typography, motionSettings, customEasingCurves, lottieLoaded, isPlaying, currentTime])
 
   // Extract clean text without motion language tags
   const cleanText = textContent.replace(/<[^>]*>/g, '')
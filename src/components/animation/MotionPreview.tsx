@@ -1,21 +1,21 @@
 'use client'
 
 import * as React from 'react'
-import { motion, AnimatePresence } from 'framer-motion'
 import { useTypographerStore } from '@/lib/store/typographer-store'
 import { useTypographyStore } from '@/lib/store/typography-store'
 import { useMotionStore } from '@/lib/store/motion-store'
-import { WordData } from '@/types/typographer'
 import { AnimationEngine } from '@/lib/animations/engine'
 import { setSyncGapCallback } from '@/lib/store/motion-store'
 import { cn } from '@/lib/utils'
+import { evaluateScene, WordPose, Pose } from '@/lib/animations/scene'
+import { TypographySettings } from '@/types/typography'
 
 interface MotionPreviewProps {
   className?: string
 }
 
 export function MotionPreview({ className }: MotionPreviewProps) {
-  const { words, textContent, isPlaying, currentTime, setWordGap } = useTypographerStore()
+  const { words, textContent, currentTime, setWordGap, refreshLayout } = useTypographerStore()
   const { settings: typography } = useTypographyStore()
   const { settings: motionSettings, easingCurves, customEasingCurves } = useMotionStore()
 
@@ -56,21 +56,36 @@ export function MotionPreview({ className }: MotionPreviewProps) {
   const previousDefaultEasing = React.useRef(motionSettings?.defaultEasing)
   const previousGlobalPosition = React.useRef(motionSettings?.globalInitialPosition)
   const previousSpeedMultiplier = React.useRef(motionSettings?.speedMultiplier)
+  const previousUnit = React.useRef(`${motionSettings?.animationUnit}-${motionSettings?.stagger}`)
   
   React.useEffect(() => {
     const easingChanged = motionSettings?.defaultEasing !== previousDefaultEasing.current
     const positionChanged = JSON.stringify(motionSettings?.globalInitialPosition) !== JSON.stringify(previousGlobalPosition.current)
     const speedChanged = motionSettings?.speedMultiplier !== previousSpeedMultiplier.current
+    const unit = `${motionSettings?.animationUnit}-${motionSettings?.stagger}`
+    const unitChanged = unit !== previousUnit.current
     
-    if ((easingChanged || positionChanged || speedChanged) && textContent) {
+    if ((easingChanged || positionChanged || speedChanged || unitChanged) && textContent) {
       previousDefaultEasing.current = motionSettings?.defaultEasing
       previousGlobalPosition.current = motionSettings?.globalInitialPosition
       previousSpeedMultiplier.current = motionSettings?.speedMultiplier
+      previousUnit.current = unit
       
       const { updateText } = useTypographerStore.getState()
       updateText(textContent)
     }
-  }, [motionSettings?.defaultEasing, motionSettings?.globalInitialPosition, motionSettings?.speedMultiplier, textContent])
+  }, [motionSettings?.defaultEasing, motionSettings?.globalInitialPosition, motionSettings?.speedMultiplier, motionSettings?.animationUnit, motionSettings?.stagger, textContent])
+
+  // Re-flow simultaneous words when typography that affects their size or alignment changes
+  React.useEffect(() => {
+    refreshLayout()
+  }, [refreshLayout, typographyKey, typography.textAlign, typography.textTransform])
+
+  // Every frame is evaluated from the current time, so playback and scrubbing render identically
+  const scene = React.useMemo(
+    () => evaluateScene(words, typography, motionSettings, currentTime, [...customEasingCurves, ...easingCurves]),
+    [words, typography, motionSettings, currentTime, customEasingCurves, easingCurves]
+  )
 
   // Extract clean text without motion language tags
   const cleanText = textContent.replace(/<[^>]*>/g, '')
@@ -105,226 +120,71 @@ export function MotionPreview({ className }: MotionPreviewProps) {
           backgroundColor: typography.backgroundColor === 'transparent' ? 'transparent' : typography.backgroundColor,
         }}
       >
-        <AnimatePresence key={typographyKey}>
-          {words.map((word) => (
-            <AnimatedWord 
-              key={`${word.id}-${typographyKey}`} 
-              word={word} 
-              isPlaying={isPlaying}
-              currentTime={currentTime}
-              typography={typography}
-              motionSettings={motionSettings}
-              easingCurves={easingCurves}
-              customEasingCurves={customEasingCurves}
-            />
-          ))}
-        </AnimatePresence>
+        {scene.words.map((pose) => (
+          <PosedWord key={pose.word.id} pose={pose} typography={typography} />
+        ))}
       </div>
     </div>
   )
 }
 
-interface AnimatedWordProps {
-  word: WordData
-  isPlaying: boolean
-  currentTime: number
-  typography: {
-    fontFamily: string
-    fontSize: number
-    fontWeight: number
-    letterSpacing: number
-    lineHeight: number
-    textColor: string
-    backgroundColor: string
-    textAlign: 'left' | 'center' | 'right'
-    textDecoration: 'none' | 'underline' | 'line-through'
-    textTransform: 'none' | 'uppercase' | 'lowercase' | 'capitalize'
-  }
-  motionSettings: any
-  easingCurves: any[]
-  customEasingCurves: any[]
+interface PosedWordProps {
+  pose: WordPose
+  typography: TypographySettings
 }
 
-const AnimatedWord = React.memo(function AnimatedWord({ word, isPlaying, currentTime, typography, motionSettings, easingCurves, customEasingCurves }: AnimatedWordProps) {
-  const [shouldAnimate, setShouldAnimate] = React.useState(false)
-  const [animationPhase, setAnimationPhase] = React.useState<'entry' | 'display' | 'exit' | 'complete'>('entry')
-  
-  // Check if word should be animating at current time
-  React.useEffect(() => {
-    const startTime = word.startTime
-    const endTime = word.startTime + word.duration
-    const isInTimeRange = currentTime >= startTime && currentTime <= endTime
-    
-    setShouldAnimate(isPlaying && isInTimeRange)
-    
-    // Calculate animation phase for motion language words
-    if (word.motionConfig && isInTimeRange) {
-      const relativeTime = currentTime - startTime
-      const entryDuration = word.motionConfig.entrySpeed || 0.8 // Use specified or default
-      const displayDuration = word.motionConfig.displayDuration
-      
-      if (relativeTime < entryDuration) {
-        setAnimationPhase('entry')
-      } else if (relativeTime < entryDuration + displayDuration) {
-        setAnimationPhase('display')
-      } else {
-        setAnimationPhase('exit')
-      }
-    } else if (!isInTimeRange && currentTime > endTime) {
-      setAnimationPhase('complete')
-    }
-  }, [isPlaying, currentTime, word.startTime, word.duration, word.motionConfig])
-
-  // Don't show if completely outside time range
-  if (!shouldAnimate && currentTime < word.startTime) {
-    return null
+const toTransform = ({ x, y, scale, rotate }: Pose) =>
+  `translate(${x}px, ${y}px) scale(${scale}) rotate(${rotate}deg)`
+
+function PosedWord({ pose, typography }: PosedWordProps) {
+  const textStyle: React.CSSProperties = {
+    position: 'absolute',
+    // Offset from the stage centre assigned by the flow layout
+    left: `calc(50% + ${pose.x}px)`,
+    top: `calc(50% + ${pose.y}px)`,
+    fontSize: `${typography.fontSize}rem`,
+    fontFamily: typography.fontFamily,
+    fontWeight: typography.fontWeight,
+    letterSpacing: `${typography.letterSpacing}em`,
+    lineHeight: typography.lineHeight,
+    color: typography.textColor,
+    textDecoration: typography.textDecoration,
+    textTransform: typography.textTransform,
+    textAlign: typography.textAlign,
+    userSelect: 'none',
+    zIndex: 20,
+    whiteSpace: 'nowrap',
+    transformOrigin: 'center center'
   }
-  
-  // Show word at current state when paused or completed
-  const isCompleted = currentTime > word.startTime + word.duration
 
-  // Resolve default easing to actual curve values
-  const speedMultiplier = motionSettings?.speedMultiplier ?? 1.0
-  const defaultEasingId = motionSettings?.defaultEasing ?? 'easeOut'
-  
-  let defaultEasing: string | number[] = 'easeOut'
-  if (defaultEasingId) {
-    // First check custom curves
-    const customCurve = customEasingCurves.find(curve => curve.id === defaultEasingId)
-    if (customCurve) {
-      defaultEasing = customCurve.cubicBezier
-    } else {
-      // Check built-in curves
-      const builtInCurve = easingCurves.find(curve => curve.id === defaultEasingId)
-      if (builtInCurve) {
-        defaultEasing = builtInCurve.cubicBezier
-      }
-    }
-  }
-
-  // Create motion variants based on phase and motion config
-  const getMotionVariants = () => {
-    
-    if (word.motionConfig) {
-      const { entryDirection, exitDirection } = word.motionConfig
-      
-      const entryTransform = getDirectionTransform(entryDirection)
-      const exitTransform = getDirectionTransform(exitDirection)
-      
-      return {
-        initial: {
-          x: `calc(-50% + ${entryTransform.x}px)`,
-          y: `calc(-50% + ${entryTransform.y}px)`,
-          z: entryTransform.z,
-          scale: entryTransform.scale,
-          opacity: 0
-        },
-        animate: animationPhase === 'entry' ? {
-          x: '-50%',
-          y: '-50%',
-          z: 0,
-          scale: 1,
-          opacity: 1
-        } : animationPhase === 'display' ? {
-          x: '-50%',
-          y: '-50%',
-          z: 0,
-          scale: 1,
-          opacity: 1
-        } : animationPhase === 'complete' ? {
-          x: '-50%',
-          y: '-50%',
-          z: 0,
-          scale: 1,
-          opacity: 0.3
-        } : { // exit phase
-          x: `calc(-50% + ${exitTransform.x}px)`,
-          y: `calc(-50% + ${exitTransform.y}px)`,
-          z: exitTransform.z,
-          scale: exitTransform.scale,
-          opacity: 0
-        },
-        transition: {
-          duration: isPlaying ? (
-            animationPhase === 'entry' ? (word.motionConfig?.entrySpeed || 0.8) / speedMultiplier : 
-            animationPhase === 'display' ? 0.3 / speedMultiplier : 
-            (word.motionConfig?.exitSpeed || 0.8) / speedMultiplier
-          ) : 0, // No transition when paused
-          ease: defaultEasing
-        }
-      }
-    } else {
-      // Standard animations for non-motion words - also use global settings
-      return {
-        initial: { 
-          x: '-50%',
-          y: '-50%',
-          opacity: 0,
-          scale: motionSettings?.globalInitialPosition?.front ?? 0.8
-        },
-        animate: { 
-          x: '-50%',
-          y: '-50%',
-          opacity: 1,
-          scale: 1
-        },
-        transition: { 
-          duration: 1 / speedMultiplier, 
-          ease: defaultEasing 
-        }
-      }
-    }
-  }
-
-  const motionVariants = getMotionVariants()
-
-  // Helper function to get direction transforms using global motion settings
-  function getDirectionTransform(direction: string): Record<string, number> {
-    const settings = motionSettings?.globalInitialPosition
-    switch (direction) {
-      case 'L': return { x: settings?.left ?? -100, y: 0, z: 0, scale: 1 }
-      case 'R': return { x: settings?.right ?? 100, y: 0, z: 0, scale: 1 }
-      case 'F': return { x: 0, y: 0, z: 0, scale: settings?.front ?? 0.6 }
-      case 'B': return { x: 0, y: 0, z: 0, scale: settings?.back ?? 1.4 }
-      default: return { x: 0, y: 0, z: 0, scale: 1 }
-    }
+  if (pose.pieces.length === 1) {
+    const [piece] = pose.pieces
+    return (
+      <div style={{ ...textStyle, opacity: piece.opacity, transform: `translate(-50%, -50%) ${toTransform(piece)}` }}>
+        {piece.text}
+      </div>
+    )
   }
 
-  // Show word if it's in time range or paused and has started
-  const shouldShowWord = shouldAnimate || (!isPlaying && currentTime >= word.startTime && !isCompleted)
-
+  // Characters and lines are laid out by the container and move from their own rest positions
   return (
-    <AnimatePresence>
-      {shouldShowWord && (
-        <motion.div
-          key={word.id}
-          initial={motionVariants.initial}
-          animate={motionVariants.animate}
-          exit={motionVariants.initial}
-          transition={motionVariants.transition}
-          style={{
-            position: 'absolute',
-            left: '50%',
-            top: '50%',
-            fontSize: `${typography.fontSize}rem`,
-            fontFamily: typography.fontFamily,
-            fontWeight: typography.fontWeight,
-            letterSpacing: `${typography.letterSpacing}em`,
-            lineHeight: typography.lineHeight,
-            color: typography.textColor,
-            textDecoration: typography.textDecoration,
-            textTransform: typography.textTransform,
-            textAlign: typography.textAlign,
-            userSelect: 'none',
-            willChange: 'transform, opacity',
-            zIndex: 20,
-            whiteSpace: 'nowrap',
-            transformOrigin: 'center center'
-          }}
+    <div
+      style={{
+        ...textStyle,
+        transform: 'translate(-50%, -50%)',
+        display: 'flex',
+        flexDirection: pose.unit === 'line' ? 'column' : 'row',
+        alignItems: 'center'
+      }}
+    >
+      {pose.pieces.map((piece, index) => (
+        <span
+          key={index}
+          style={{ display: 'inline-block', whiteSpace: 'pre', opacity: piece.opacity, transform: toTransform(piece) }}
         >
-          {word.text}
-        </motion.div>
-      )}
-    </AnimatePresence>
+          {piece.text}
+        </span>
+      ))}
+    </div>
   )
-})
\ No newline at end of file
+}
@@ -2,8 +2,21 @@
 
 import * as React from 'react'
 import { motion } from 'framer-motion'
+import { Music } from 'lucide-react'
 import { useTypographerStore } from '@/lib/store/typographer-store'
-import { AnimationType } from '@/types/typographer'
+import { useAudioStore } from '@/lib/store/audio-store'
+import { AnimationType, WordData } from '@/types/typographer'
+import { formatTimeAnchor, rewriteMotionTags, MotionTagUpdate } from '@/lib/utils/motion-parser'
+import { findNearestBeat } from '@/lib/audio/audio-analysis'
+import {
+  TimelineDragMode,
+  getTimingSegments,
+  getDraggedConfig,
+  applyTimelineDrag,
+  moveWordGroup
+} from '@/lib/utils/timeline-editing'
+import { Waveform } from '@/components/animation/Waveform'
+import { Button } from '@/components/ui/button'
 import { Slider } from '@/components/ui/slider'
 import { cn } from '@/lib/utils'
 
@@ -11,6 +24,16 @@ interface TimelineProps {
   className?: string
 }
 
+interface BarDrag {
+  index: number
+  mode: TimelineDragMode
+  originX: number // clientX where the drag began
+  delta: number // Seconds moved so far
+}
+
+const CLICK_DISTANCE = 3 // px a bar can move and still count as a click
+const BAR_HELP = 'Drag to move, drag the edges to change the entry and exit, drag the end of the display to hold longer, Shift-drag to reorder'
+
 export function Timeline({ className }: TimelineProps) {
   const { 
     words, 
@@ -18,12 +41,16 @@ export function Timeline({ className }: TimelineProps) {
     totalDuration, 
     wordGap,
     seekTo,
-    setWordGap
+    setWordGap,
+    updateText
   } = useTypographerStore()
+  const { track } = useAudioStore()
 
   const timelineRef = React.useRef<HTMLDivElement>(null)
   const [isDragging, setIsDragging] = React.useState(false)
   const [showGapControl, setShowGapControl] = React.useState(false)
+  const [barDrag, setBarDrag] = React.useState<BarDrag | null>(null)
+  const barDragRef = React.useRef<BarDrag | null>(null)
 
   // Format time for display
   const formatTime = (time: number) => {
@@ -79,6 +106,111 @@ export function Timeline({ className }: TimelineProps) {
     }
   }, [isDragging, totalDuration, seekTo])
 
+  // Start dragging a tagged word's bar or one of its handles
+  const handleBarMouseDown = (event: React.MouseEvent, index: number, mode: TimelineDragMode) => {
+    if (!words[index].motionConfig) return // Untagged words have no tag to rewrite; the click seeks
+    event.stopPropagation()
+    event.preventDefault()
+    const drag = { index, mode: mode === 'move' && event.shiftKey ? 'reorder' as const : mode, originX: event.clientX, delta: 0 }
+    barDragRef.current = drag
+    setBarDrag(drag)
+  }
+
+  // Bars preview the drag; the tag is rewritten once, on release
+  const isBarDragging = barDrag !== null
+  React.useEffect(() => {
+    if (!isBarDragging) return
+
+    const getDelta = (event: MouseEvent, drag: BarDrag) => {
+      const width = timelineRef.current?.getBoundingClientRect().width ?? 0
+      return width > 0 ? ((event.clientX - drag.originX) / width) * totalDuration : 0
+    }
+
+    const handleMouseMove = (event: MouseEvent) => {
+      const drag = barDragRef.current
+      if (!drag) return
+      barDragRef.current = { ...drag, delta: getDelta(event, drag) }
+      setBarDrag(barDragRef.current)
+    }
+
+    const handleMouseUp = (event: MouseEvent) => {
+      const drag = barDragRef.current
+      barDragRef.current = null
+      setBarDrag(null)
+      if (!drag) return
+
+      // A bar that barely moved was clicked, which seeks like the rest of the track
+      if (Math.abs(event.clientX - drag.originX) < CLICK_DISTANCE) {
+        const rect = timelineRef.current?.getBoundingClientRect()
+        if (rect) seekTo(((event.clientX - rect.left) / rect.width) * totalDuration)
+        return
+      }
+
+      const { textContent } = useTypographerStore.getState()
+      const delta = getDelta(event, drag)
+      if (drag.mode === 'reorder') {
+        const dropTime = words[drag.index].startTime + delta
+        const newIndex = words.filter((word, index) => index !== drag.index && word.startTime < dropTime).length
+        updateText(moveWordGroup(textContent, words, drag.index, newIndex))
+      } else {
+        updateText(applyTimelineDrag(textContent, words, drag.index, drag.mode, delta, wordGap))
+      }
+    }
+
+    document.addEventListener('mousemove', handleMouseMove)
+    document.addEventListener('mouseup', handleMouseUp)
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove)
+      document.removeEventListener('mouseup', handleMouseUp)
+    }
+  }, [isBarDragging, totalDuration, words, wordGap, seekTo, updateText])
+
+  // Where a word's bar and segments are drawn, following any drag in progress
+  const getBarTiming = (word: WordData, index: number) => {
+    const segments = getTimingSegments(word)
+    if (barDrag?.index !== index) return { start: word.startTime, segments }
+    if (barDrag.mode === 'move' || barDrag.mode === 'reorder') {
+      return { start: word.startTime + barDrag.delta, segments }
+    }
+
+    const config = getDraggedConfig(words, index, barDrag.mode, barDrag.delta, wordGap)
+    if (!config || !word.motionConfig) return { start: word.startTime, segments }
+    const entry = config.entrySpeed || 0.8
+    const staggerSpan = segments.display - word.motionConfig.displayDuration
+    return {
+      start: word.startTime + segments.entry - entry,
+      segments: { entry, display: config.displayDuration + staggerSpan, exit: config.exitSpeed || 0.8 }
+    }
+  }
+
+  // Pin every tagged word to the beat nearest its current start, through its tag's anchor
+  const handleSnapToBeats = () => {
+    if (!track) return
+    const { textContent } = useTypographerStore.getState()
+    const updates = words.flatMap((word): MotionTagUpdate[] => word.motionConfig && word.tagRange
+      ? [{
+          tagRange: word.tagRange,
+          config: { ...word.motionConfig, anchor: { type: 'absolute', time: findNearestBeat(track.beats, word.startTime) } }
+        }]
+      : [])
+    updateText(rewriteMotionTags(textContent, updates))
+  }
+
+  // Anchored words can overlap, so each word takes the first row that is free when it starts
+  const { rows, rowCount } = React.useMemo(() => {
+    const rowEnds: number[] = []
+    const rows: number[] = []
+    const order = words.map((_, index) => index).sort((a, b) => words[a].startTime - words[b].startTime)
+    order.forEach(index => {
+      const word = words[index]
+      let row = rowEnds.findIndex(end => end <= word.startTime + 1e-6)
+      if (row === -1) row = rowEnds.length
+      rowEnds[row] = word.startTime + word.duration
+      rows[index] = row
+    })
+    return { rows, rowCount: Math.max(1, rowEnds.length) }
+  }, [words])
+
   if (words.length === 0 || totalDuration === 0) {
     return (
       <div className={cn("p-4", className)}>
@@ -127,8 +259,20 @@ export function Timeline({ className }: TimelineProps) {
       {/* Time display */}
       <div className="flex justify-between items-center text-sm text-muted-foreground">
         <span>{formatTime(currentTime)}</span>
-        <span className="text-xs">
+        <span className="text-xs flex items-center gap-2">
           {words.length} words • {words.filter(w => w.animation === AnimationType.MOTION_LANGUAGE).length} motion
+          {track && track.beats.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSnapToBeats}
+              className="h-6 px-2 text-xs"
+              title="Move each tagged word's start to the nearest detected beat"
+            >
+              <Music className="h-3 w-3 mr-1" />
+              Snap to beats
+            </Button>
+          )}
         </span>
         <span>{formatTime(totalDuration)}</span>
       </div>
@@ -138,21 +282,29 @@ export function Timeline({ className }: TimelineProps) {
         {/* Timeline track */}
         <div
           ref={timelineRef}
-          className="relative h-12 bg-muted rounded-lg cursor-pointer overflow-hidden"
+          className="relative bg-muted rounded-lg cursor-pointer overflow-hidden"
+          style={{ height: `${Math.max(3, rowCount * 2)}rem` }}
           onMouseDown={handleMouseDown}
         >
           {/* Word blocks */}
-          {words.map((word) => {
-            const startPercent = totalDuration > 0 ? (word.startTime / totalDuration) * 100 : 0
-            const widthPercent = totalDuration > 0 ? (word.duration / totalDuration) * 100 : 0
+          {words.map((word, index) => {
+            const { start, segments } = getBarTiming(word, index)
+            const duration = segments.entry + segments.display + segments.exit
+            const startPercent = totalDuration > 0 ? (start / totalDuration) * 100 : 0
+            const widthPercent = totalDuration > 0 ? (duration / totalDuration) * 100 : 0
+            const isDragged = barDrag?.index === index
+            const isEditable = Boolean(word.motionConfig)
             const isActive = currentTime >= word.startTime && currentTime <= word.startTime + word.duration
             const isMotionLanguage = word.animation === AnimationType.MOTION_LANGUAGE
+            const anchor = word.motionConfig?.anchor ? formatTimeAnchor(word.motionConfig.anchor) : ''
 
             return (
               <motion.div
                 key={word.id}
                 className={cn(
-                  "absolute top-1 bottom-1 rounded-sm border-2 transition-all duration-200",
+                  "absolute rounded-sm border-2",
+                  isDragged ? "z-20 opacity-80" : "transition-all duration-200",
+                  isEditable && (isDragged ? "cursor-grabbing" : "cursor-grab"),
                   isActive 
                     ? "bg-primary border-primary shadow-lg z-10" 
                     : isMotionLanguage
@@ -162,12 +314,48 @@ export function Timeline({ className }: TimelineProps) {
                 )}
                 style={{
                   left: `${startPercent}%`,
-                  width: `${Math.max(1, widthPercent)}%`
+                  width: `${Math.max(1, widthPercent)}%`,
+                  top: `calc(${(rows[index] / rowCount) * 100}% + 0.25rem)`,
+                  height: `calc(${100 / rowCount}% - 0.5rem)`
                 }}
+                title={[
+                  anchor ? `${word.text} (starts ${anchor})` : word.text,
+                  isEditable ? BAR_HELP : 'Add a motion tag to edit its timing here'
+                ].join('\n')}
+                onMouseDown={(event) => handleBarMouseDown(event, index, 'move')}
                 initial={{ scale: 0.8, opacity: 0 }}
                 animate={{ scale: 1, opacity: 1 }}
                 transition={{ delay: word.startTime * 0.1 }}
               >
+                {/* Entry and exit segments, shaded either side of the display */}
+                {isEditable && duration > 0 && (
+                  <>
+                    <div
+                      className="absolute inset-y-0 left-0 bg-background/30"
+                      style={{ width: `${(segments.entry / duration) * 100}%` }}
+                    />
+                    <div
+                      className="absolute inset-y-0 right-0 bg-background/30"
+                      style={{ width: `${(segments.exit / duration) * 100}%` }}
+                    />
+
+                    {/* Handles: entry speed, end of the display, exit speed */}
+                    <div
+                      className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize hover:bg-foreground/40 z-10"
+                      onMouseDown={(event) => handleBarMouseDown(event, index, 'entry')}
+                    />
+                    <div
+                      className="absolute inset-y-0 w-1.5 -translate-x-1/2 cursor-ew-resize hover:bg-foreground/40 z-10"
+                      style={{ left: `${((segments.entry + segments.display) / duration) * 100}%` }}
+                      onMouseDown={(event) => handleBarMouseDown(event, index, 'display')}
+                    />
+                    <div
+                      className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize hover:bg-foreground/40 z-10"
+                      onMouseDown={(event) => handleBarMouseDown(event, index, 'exit')}
+                    />
+                  </>
+                )}
+
                 {/* Word label */}
                 <div className="absolute inset-0 flex items-center justify-center">
                   <span 
@@ -185,7 +373,7 @@ export function Timeline({ className }: TimelineProps) {
                 {/* Motion language indicator */}
                 {isMotionLanguage && word.motionConfig && (
                   <div className="absolute -top-6 left-0 text-xs text-blue-400 font-mono whitespace-nowrap">
-                    {word.motionConfig.entrySpeed || 0.8}{word.motionConfig.entryDirection}{word.motionConfig.displayDuration}{word.motionConfig.exitDirection}{word.motionConfig.exitSpeed || 0.8}
+                    {word.motionConfig.entrySpeed || 0.8}{word.motionConfig.entryDirection}{word.motionConfig.displayDuration}{word.motionConfig.exitDirection}{word.motionConfig.exitSpeed || 0.8}{anchor}
                   </div>
                 )}
               </motion.div>
@@ -210,6 +398,18 @@ export function Timeline({ className }: TimelineProps) {
           </motion.div>
         </div>
 
+        {/* Soundtrack, on the same time scale as the words */}
+        {track && (
+          <Waveform
+            className="mt-2"
+            peaks={track.peaks}
+            beats={track.beats}
+            audioDuration={track.duration}
+            timelineDuration={totalDuration}
+            onMouseDown={handleMouseDown}
+          />
+        )}
+
         {/* Time markers */}
         <div className="flex justify-between mt-2 text-xs text-muted-foreground">
           {Array.from({ length: 5 }).map((_, i) => {
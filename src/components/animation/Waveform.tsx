@@ -0,0 +1,51 @@
+'use client'
+
+import * as React from 'react'
+import { cn } from '@/lib/utils'
+
+interface WaveformProps {
+  peaks: number[] // Loudest sample per bucket across the track, 0-1
+  beats: number[] // Onset times in seconds
+  audioDuration: number
+  timelineDuration: number // Seconds the full width stands for
+  className?: string
+  onMouseDown?: (event: React.MouseEvent) => void
+}
+
+export function Waveform({ peaks, beats, audioDuration, timelineDuration, className, onMouseDown }: WaveformProps) {
+  // One closed shape: the peaks along the top, mirrored back along the bottom
+  const path = React.useMemo(() => {
+    if (peaks.length === 0) return ''
+    const top = peaks.map((peak, index) => `${index} ${(1 - peak).toFixed(3)}`)
+    const bottom = peaks.map((peak, index) => `${index} ${(1 + peak).toFixed(3)}`).reverse()
+    return `M${top.join('L')}L${bottom.join('L')}Z`
+  }, [peaks])
+
+  if (timelineDuration <= 0) return null
+
+  return (
+    <div
+      className={cn("relative h-10 bg-muted/50 rounded-lg overflow-hidden cursor-pointer", className)}
+      onMouseDown={onMouseDown}
+    >
+      {/* The track is drawn to scale, so it ends early or runs off the end */}
+      <svg
+        className="absolute inset-y-0 left-0 h-full text-muted-foreground/60"
+        style={{ width: `${(audioDuration / timelineDuration) * 100}%` }}
+        viewBox={`0 0 ${Math.max(1, peaks.length)} 2`}
+        preserveAspectRatio="none"
+      >
+        <path d={path} fill="currentColor" />
+      </svg>
+
+      {/* Beat markers */}
+      {beats.filter(beat => beat <= timelineDuration).map(beat => (
+        <div
+          key={beat}
+          className="absolute inset-y-0 w-px bg-amber-500/70"
+          style={{ left: `${(beat / timelineDuration) * 100}%` }}
+        />
+      ))}
+    </div>
+  )
+}
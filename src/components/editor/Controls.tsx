@@ -10,11 +10,16 @@ import {
   SkipForward,
   RotateCcw,
   Repeat,
-  Type
+  Type,
+  Music,
+  X
 } from 'lucide-react'
 import { useTypographerStore } from '@/lib/store/typographer-store'
+import { useAudioStore, getAudioElement } from '@/lib/store/audio-store'
+import { useProjectStore } from '@/lib/store/project-store'
 import { useTypographyStore } from '@/lib/store/typography-store'
 import { Button } from '@/components/ui/button'
+import { TimingRecorder } from './TimingRecorder'
 import { cn } from '@/lib/utils'
 
 interface ControlsProps {
@@ -34,38 +39,87 @@ export function Controls({ className }: ControlsProps) {
   } = useTypographerStore()
   
   const { showRightSidebar, toggleRightSidebar } = useTypographyStore()
+  const { track, isLoading: isLoadingAudio, error: audioError, loadAudio, removeAudio } = useAudioStore()
+  const { setProjectAudio } = useProjectStore()
 
   const [isLooping, setIsLooping] = React.useState(true)
-  const intervalRef = React.useRef<NodeJS.Timeout | null>(null)
+  const [isRecording, setIsRecording] = React.useState(false)
 
-  // Auto-advance time when playing
+  // Advance time each display frame. With a soundtrack the audio element is the clock, so
+  // words stay on the beat; otherwise time advances by the real time elapsed. The preview
+  // evaluates the scene at whatever time results, so frame rate never changes what is shown
   React.useEffect(() => {
-    if (isPlaying && totalDuration > 0) {
-      intervalRef.current = setInterval(() => {
-        const newTime = Math.min(currentTime + 0.1 * playbackSpeed, totalDuration)
-        seekTo(newTime)
-        
-        // Auto-restart when looping, otherwise pause
-        if (newTime >= totalDuration) {
-          if (isLooping) {
-            seekTo(0) // Restart from beginning
-          } else {
-            pauseAnimation()
-          }
+    if (!isPlaying || totalDuration <= 0) return
+
+    const audio = track ? getAudioElement() : null
+    let frame = 0
+    let previous = performance.now()
+    let lastTime = useTypographerStore.getState().currentTime
+
+    // Play from the store's time; past the end of the track the real-time clock takes over
+    const syncAudio = (time: number) => {
+      if (!audio) return
+      audio.currentTime = time
+      if (time < audio.duration && audio.paused) {
+        audio.play().catch(() => pauseAnimation()) // Blocked without a user gesture
+      }
+    }
+
+    if (audio) {
+      audio.playbackRate = playbackSpeed
+      syncAudio(lastTime)
+    }
+
+    const tick = (now: number) => {
+      const elapsed = (now - previous) / 1000
+      previous = now
+      const storeTime = useTypographerStore.getState().currentTime
+
+      // Someone else moved the playhead (timeline scrubbing, skip buttons)
+      if (Math.abs(storeTime - lastTime) > 0.001) syncAudio(storeTime)
+
+      const audioIsClock = audio !== null && !audio.paused && !audio.ended
+      const newTime = Math.min(audioIsClock ? audio.currentTime : storeTime + elapsed * playbackSpeed, totalDuration)
+      seekTo(newTime)
+      lastTime = newTime
+
+      // Auto-restart when looping, otherwise pause
+      if (newTime >= totalDuration) {
+        if (isLooping) {
+          seekTo(0) // Restart from beginning
+          lastTime = 0
+          syncAudio(0)
+        } else {
+          pauseAnimation()
+          return
         }
-      }, 100)
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
       }
+      frame = requestAnimationFrame(tick)
     }
 
+    frame = requestAnimationFrame(tick)
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-      }
+      cancelAnimationFrame(frame)
+      audio?.pause()
     }
-  }, [isPlaying, currentTime, totalDuration, playbackSpeed, seekTo, pauseAnimation, isLooping])
+  }, [isPlaying, totalDuration, playbackSpeed, seekTo, pauseAnimation, isLooping, track])
+
+  const handleAudioFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = '' // Allow picking the same file again
+    if (!file) return
+
+    await loadAudio(file)
+    // Keep the track with the open project, unless it could not be read
+    if (useAudioStore.getState().track) {
+      await setProjectAudio(file).catch(error => console.warn('Failed to save audio with the project:', error))
+    }
+  }
+
+  const handleRemoveAudio = () => {
+    removeAudio()
+    setProjectAudio(null).catch(error => console.warn('Failed to remove audio from the project:', error))
+  }
 
   const handlePlay = () => {
     if (currentTime >= totalDuration) {
@@ -95,7 +149,7 @@ export function Controls({ className }: ControlsProps) {
     return `${minutes}:${seconds.toString().padStart(2, '0')}`
   }
 
-  const canPlay = words.length > 0 && totalDuration > 0
+  const canPlay = words.length > 0 && totalDuration > 0 && !isRecording
 
   return (
     <div className={cn("flex items-center gap-4", className)}>
@@ -183,6 +237,45 @@ export function Controls({ className }: ControlsProps) {
         <Type className="h-4 w-4" />
       </Button>
 
+      {/* Soundtrack */}
+      {track ? (
+        <div className="flex items-center gap-1 text-xs text-muted-foreground max-w-40" title={track.name}>
+          <Music className="h-4 w-4 shrink-0" />
+          <span className="truncate">{track.name}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleRemoveAudio}
+            className="p-1 h-6"
+            title="Remove Audio"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          className="p-2"
+          title={audioError ?? (isLoadingAudio ? "Loading Audio..." : "Add Audio")}
+          asChild
+        >
+          <label className={cn("cursor-pointer", audioError && "border-destructive text-destructive")}>
+            <Music className="h-4 w-4" />
+            <input
+              type="file"
+              accept="audio/*"
+              disabled={isLoadingAudio}
+              onChange={handleAudioFile}
+              className="hidden"
+            />
+          </label>
+        </Button>
+      )}
+
+      {/* Tap-to-time recording */}
+      <TimingRecorder onRecordingChange={setIsRecording} />
+
       {/* Time display */}
       <div className="flex items-center gap-2 text-sm text-muted-foreground font-mono ml-4">
         <span>{formatTime(currentTime)}</span>
@@ -3,13 +3,24 @@
 import * as React from 'react'
 import { Textarea } from '@/components/ui/textarea'
 import { useTypographerStore } from '@/lib/store/typographer-store'
-import { parseMotionLanguage, validateMotionSyntax, motionExamples } from '@/lib/utils/motion-parser'
+import { useMotionStore } from '@/lib/store/motion-store'
+import { parseMotionLanguage, motionExamples } from '@/lib/utils/motion-parser'
+import { MotionDiagnostic, DiagnosticSeverity } from '@/types/typographer'
 import { cn } from '@/lib/utils'
 
 interface TextEditorProps {
   className?: string
 }
 
+// Shared by the textarea and the squiggle overlay so their text lines up exactly
+const EDITOR_TEXT_CLASSES = "px-3 py-2 text-base md:text-sm leading-relaxed"
+
+const SEVERITY_STYLES: Record<DiagnosticSeverity, { underline: string; text: string }> = {
+  error: { underline: "decoration-destructive", text: "text-destructive" },
+  warning: { underline: "decoration-amber-500", text: "text-amber-600 dark:text-amber-400" },
+  info: { underline: "decoration-sky-500", text: "text-sky-600 dark:text-sky-400" }
+}
+
 export function TextEditor({ className }: TextEditorProps) {
   const textareaRef = React.useRef<HTMLTextAreaElement>(null)
   
@@ -19,16 +30,19 @@ export function TextEditor({ className }: TextEditorProps) {
     updateText,
     setCursorPosition
   } = useTypographerStore()
+  const { easingCurves, customEasingCurves } = useMotionStore()
+  const overlayRef = React.useRef<HTMLDivElement>(null)
+
+  // Diagnose the text as typed, checking easing overrides against every available curve
+  const diagnostics = React.useMemo(() => {
+    const easingIds = [...easingCurves, ...customEasingCurves].map(curve => curve.id)
+    return parseMotionLanguage(textContent, { easingIds }).diagnostics
+  }, [textContent, easingCurves, customEasingCurves])
 
   // Handle text changes with motion language parsing
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const newText = e.target.value
-    
-    // Parse motion language and update store
-    const { words } = parseMotionLanguage(newText)
-    
-    // Update store with parsed text and words
-    updateText(newText)
+    // Store parses the motion language and recalculates timing
+    updateText(e.target.value)
   }
 
   // Handle cursor position changes
@@ -39,24 +53,20 @@ export function TextEditor({ className }: TextEditorProps) {
     }
   }
 
-  // Handle key presses for motion language assistance
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-    // Auto-complete motion language syntax
-    if (e.key === '>') {
-      const position = textareaRef.current?.selectionStart || 0
-      const textBeforeCursor = textContent.substring(0, position)
-      
-      // Find if we're closing a motion tag
-      const lastOpenBracket = textBeforeCursor.lastIndexOf('<')
-      if (lastOpenBracket !== -1) {
-        const motionTag = textBeforeCursor.substring(lastOpenBracket)
-        const validation = validateMotionSyntax(motionTag + '>')
-        
-        if (!validation.isValid) {
-          // Show error feedback (could add toast notification here)
-          console.warn('Invalid motion syntax:', validation.error)
-        }
-      }
+  // Keep the squiggle overlay aligned when the textarea scrolls
+  const handleScroll = () => {
+    if (textareaRef.current && overlayRef.current) {
+      overlayRef.current.scrollTop = textareaRef.current.scrollTop
+    }
+  }
+
+  // Select a problem's range in the textarea
+  const revealDiagnostic = (diagnostic: MotionDiagnostic) => {
+    const textarea = textareaRef.current
+    if (textarea) {
+      textarea.focus()
+      textarea.setSelectionRange(diagnostic.start, diagnostic.end)
+      setCursorPosition(diagnostic.start)
     }
   }
 
@@ -79,27 +89,117 @@ export function TextEditor({ className }: TextEditorProps) {
   }, [])
 
   return (
-    <div className={cn("relative", className)}>
-      <Textarea
-        ref={textareaRef}
-        value={textContent}
-        onChange={handleTextChange}
-        onKeyDown={handleKeyDown}
-        onSelect={handleSelectionChange}
-        onMouseUp={handleSelectionChange}
-        placeholder="Start typing your animated text here..."
-        className={cn(
-          "min-h-[160px] max-h-[400px] resize-none",
-          "bg-background/50 border-input",
-          "text-base leading-relaxed",
-          "focus:ring-2 focus:ring-primary/20",
-          "transition-all duration-200"
+    <div className={cn("space-y-2", className)}>
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={textContent}
+          onChange={handleTextChange}
+          onSelect={handleSelectionChange}
+          onMouseUp={handleSelectionChange}
+          onScroll={handleScroll}
+          placeholder="Start typing your animated text here..."
+          aria-invalid={diagnostics.some(diagnostic => diagnostic.severity === 'error') || undefined}
+          className={cn(
+            "min-h-[160px] max-h-[400px] resize-none",
+            "bg-background/50 border-input",
+            EDITOR_TEXT_CLASSES,
+            "focus:ring-2 focus:ring-primary/20",
+            "transition-all duration-200"
+          )}
+        />
+        {diagnostics.length > 0 && (
+          <DiagnosticOverlay ref={overlayRef} text={textContent} diagnostics={diagnostics} />
         )}
-      />
+      </div>
+      <ProblemsList diagnostics={diagnostics} text={textContent} onSelect={revealDiagnostic} />
     </div>
   )
 }
 
+interface DiagnosticOverlayProps {
+  text: string
+  diagnostics: MotionDiagnostic[]
+}
+
+// Transparent copy of the text laid over the textarea, with wavy underlines under each problem range
+const DiagnosticOverlay = React.forwardRef<HTMLDivElement, DiagnosticOverlayProps>(
+  function DiagnosticOverlay({ text, diagnostics }, ref) {
+    const segments: React.ReactNode[] = []
+    let position = 0
+
+    diagnostics.forEach((diagnostic, index) => {
+      // Overlapping ranges are clipped so every character is rendered once
+      const start = Math.max(diagnostic.start, position)
+      const end = Math.min(diagnostic.end, text.length)
+      if (end <= start) return
+
+      segments.push(text.slice(position, start))
+      segments.push(
+        <span
+          key={index}
+          className={cn("underline decoration-wavy decoration-from-font", SEVERITY_STYLES[diagnostic.severity].underline)}
+        >
+          {text.slice(start, end)}
+        </span>
+      )
+      position = end
+    })
+    segments.push(text.slice(position))
+
+    return (
+      <div
+        ref={ref}
+        aria-hidden
+        className={cn(
+          "pointer-events-none absolute inset-0 overflow-hidden rounded-md border border-transparent",
+          "whitespace-pre-wrap break-words text-transparent",
+          EDITOR_TEXT_CLASSES
+        )}
+      >
+        {segments}
+      </div>
+    )
+  }
+)
+
+interface ProblemsListProps {
+  diagnostics: MotionDiagnostic[]
+  text: string
+  onSelect: (diagnostic: MotionDiagnostic) => void
+}
+
+// Compact list of parser problems; clicking one selects its range in the editor
+function ProblemsList({ diagnostics, text, onSelect }: ProblemsListProps) {
+  if (diagnostics.length === 0) return null
+
+  // 1-based line and column, as editors usually show them
+  const getLocation = (offset: number) => {
+    const before = text.slice(0, offset).split('\n')
+    return `${before.length}:${before[before.length - 1].length + 1}`
+  }
+
+  return (
+    <ul className="max-h-32 overflow-y-auto rounded-md border border-border/50 bg-muted/30 text-xs" aria-label="Motion language problems">
+      {diagnostics.map((diagnostic, index) => (
+        <li key={`${diagnostic.start}-${index}`}>
+          <button
+            type="button"
+            onClick={() => onSelect(diagnostic)}
+            className="flex w-full items-start gap-2 px-3 py-1.5 text-left hover:bg-muted/60 focus-visible:bg-muted/60 focus-visible:outline-none"
+          >
+            <span className={cn("shrink-0 font-medium capitalize", SEVERITY_STYLES[diagnostic.severity].text)}>
+              {diagnostic.severity}
+            </span>
+            <span className="flex-1 text-foreground/90">{diagnostic.message}</span>
+            <span className="shrink-0 font-mono text-muted-foreground">{getLocation(diagnostic.start)}</span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
 // Real-time character and word count - compact inline version
 export function TextStats() {
   const { textContent, words } = useTypographerStore()
@@ -0,0 +1,138 @@
+'use client'
+
+import * as React from 'react'
+import { Timer, Square } from 'lucide-react'
+import { useTypographerStore } from '@/lib/store/typographer-store'
+import { useMotionStore } from '@/lib/store/motion-store'
+import { useAudioStore, getAudioElement } from '@/lib/store/audio-store'
+import { metronome } from '@/lib/audio/metronome'
+import { applyTapTimes } from '@/lib/utils/tap-timing'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { cn } from '@/lib/utils'
+
+interface TimingRecorderProps {
+  className?: string
+  onRecordingChange?: (isRecording: boolean) => void
+}
+
+const DEFAULT_BPM = 100
+const MIN_BPM = 20
+const MAX_BPM = 300
+
+export function TimingRecorder({ className, onRecordingChange }: TimingRecorderProps) {
+  const { words, pauseAnimation } = useTypographerStore()
+  const { track } = useAudioStore()
+  const [isRecording, setIsRecording] = React.useState(false)
+  const [tapCount, setTapCount] = React.useState(0)
+  const [bpm, setBpm] = React.useState(DEFAULT_BPM)
+  const tapsRef = React.useRef<number[]>([])
+
+  // Stop recording; applying rewrites the tapped groups' tags through the parser
+  const finishRecording = React.useCallback((apply: boolean) => {
+    setIsRecording(false)
+    onRecordingChange?.(false)
+
+    const taps = tapsRef.current
+    if (apply && taps.length > 0) {
+      const { textContent, words, wordGap, updateText } = useTypographerStore.getState()
+      updateText(applyTapTimes(textContent, words, taps, wordGap, useMotionStore.getState().settings))
+    }
+  }, [onRecordingChange])
+
+  const startRecording = () => {
+    pauseAnimation()
+    tapsRef.current = []
+    setTapCount(0)
+    setIsRecording(true)
+    onRecordingChange?.(true)
+  }
+
+  // The soundtrack, or a metronome without one, is the clock taps are read from
+  React.useEffect(() => {
+    if (!isRecording) return
+
+    const audio = track ? getAudioElement() : null
+    if (audio) {
+      audio.currentTime = 0
+      audio.playbackRate = 1
+      audio.play().catch(() => finishRecording(false))
+    } else {
+      metronome.start(Math.min(MAX_BPM, Math.max(MIN_BPM, bpm || DEFAULT_BPM))).catch(() => finishRecording(false))
+    }
+    const getTime = () => audio ? audio.currentTime : metronome.getTime()
+
+    // Space taps the next group (one more tap ends the last one), Enter keeps the taps so far, Escape cancels
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === ' ') {
+        event.preventDefault()
+        if (event.repeat) return
+        tapsRef.current.push(getTime())
+        setTapCount(tapsRef.current.length)
+        if (tapsRef.current.length > useTypographerStore.getState().words.length) {
+          finishRecording(true)
+        }
+      } else if (event.key === 'Enter') {
+        event.preventDefault()
+        finishRecording(true)
+      } else if (event.key === 'Escape') {
+        finishRecording(false)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      audio?.pause()
+      metronome.stop()
+    }
+  }, [isRecording, track, bpm, finishRecording])
+
+  if (isRecording) {
+    const nextWord = words[tapCount]
+    return (
+      <div className={cn("flex items-center gap-2", className)}>
+        <Button
+          variant="destructive"
+          size="sm"
+          onClick={() => finishRecording(true)}
+          className="p-2 animate-pulse"
+          title="Stop Recording (Enter keeps the taps, Escape cancels)"
+        >
+          <Square className="h-4 w-4" />
+        </Button>
+        <div className="text-xs text-muted-foreground max-w-48 truncate">
+          {nextWord
+            ? <>Space for <span className="font-medium text-foreground">{nextWord.text}</span> ({tapCount + 1}/{words.length})</>
+            : <>Space ends <span className="font-medium text-foreground">{words[words.length - 1]?.text}</span>, Enter keeps it</>}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn("flex items-center gap-1", className)}>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={startRecording}
+        disabled={words.length === 0}
+        className="p-2"
+        title={track ? "Record Timing: tap Space on each word while the audio plays" : "Record Timing: tap Space on each word to the metronome"}
+      >
+        <Timer className="h-4 w-4" />
+      </Button>
+      {!track && (
+        <Input
+          type="number"
+          value={bpm}
+          onChange={(event) => setBpm(Number(event.target.value))}
+          min={MIN_BPM}
+          max={MAX_BPM}
+          className="h-8 w-16 px-2 text-xs"
+          title="Metronome BPM"
+        />
+      )}
+    </div>
+  )
+}
@@ -41,7 +41,7 @@ export function TypographerLayout({ children }: TypographerLayoutProps) {
                 </div>
                 
                 {/* Timeline */}
-                <div className="h-32 rounded-xl border border-border bg-card shadow-lg">
+                <div className="min-h-32 rounded-xl border border-border bg-card shadow-lg">
                   <Timeline />
                 </div>
               </div>
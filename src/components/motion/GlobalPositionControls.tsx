@@ -4,12 +4,16 @@ import { useMotionStore } from '@/lib/store/motion-store';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { AnimationUnit } from '@/types/typographer';
 import { 
   ArrowLeft, 
   ArrowRight, 
+  ArrowUp,
+  ArrowDown,
   ZoomIn, 
   ZoomOut, 
   RotateCcw,
+  RotateCw,
   Info
 } from 'lucide-react';
 
@@ -17,7 +21,7 @@ export function GlobalPositionControls() {
   const { settings, updateMotion, resetMotion } = useMotionStore();
 
   const handlePositionChange = (
-    direction: 'left' | 'right' | 'front' | 'back',
+    direction: keyof typeof settings.globalInitialPosition,
     value: number
   ) => {
     // For left entry, ensure only negative values
@@ -41,6 +45,12 @@ export function GlobalPositionControls() {
     updateMotion({ gapBetweenWords: value });
   };
 
+  const unitOptions: { value: AnimationUnit; label: string }[] = [
+    { value: 'word', label: 'Word' },
+    { value: 'character', label: 'Character' },
+    { value: 'line', label: 'Line' }
+  ];
+
   return (
     <div className="space-y-6">
       {/* Position Controls */}
@@ -50,7 +60,7 @@ export function GlobalPositionControls() {
           <div className="group relative">
             <Info className="h-3 w-3 text-muted-foreground" />
             <div className="absolute left-0 top-6 hidden group-hover:block z-10 bg-popover border border-border rounded-md p-2 text-xs text-muted-foreground shadow-md w-48">
-              Set starting positions for L/R (pixels from center) and F/B (scale factors)
+              Set starting positions for L/R/U/D (pixels from center), F/B (scale factors) and the r rotation modifier (degrees)
             </div>
           </div>
         </div>
@@ -107,6 +117,61 @@ export function GlobalPositionControls() {
           </div>
         </div>
 
+        {/* Vertical Controls */}
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <ArrowUp className="h-3 w-3 text-sky-500" />
+              <Label className="text-xs">Up Entry</Label>
+            </div>
+            <Input
+              type="number"
+              value={settings.globalInitialPosition.up}
+              onChange={(e) => {
+                const val = e.target.value;
+                if (val === '' || val === '-') {
+                  return; // Allow partial input
+                }
+                const numVal = parseFloat(val);
+                if (!isNaN(numVal)) {
+                  handlePositionChange('up', numVal);
+                }
+              }}
+              placeholder="Negative is above"
+              className="w-full"
+            />
+            <p className="text-xs text-muted-foreground">
+              Current: {settings.globalInitialPosition.up}px
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <ArrowDown className="h-3 w-3 text-teal-500" />
+              <Label className="text-xs">Down Entry</Label>
+            </div>
+            <Input
+              type="number"
+              value={settings.globalInitialPosition.down}
+              onChange={(e) => {
+                const val = e.target.value;
+                if (val === '' || val === '-') {
+                  return; // Allow partial input
+                }
+                const numVal = parseFloat(val);
+                if (!isNaN(numVal)) {
+                  handlePositionChange('down', numVal);
+                }
+              }}
+              placeholder="Enter any value"
+              className="w-full"
+            />
+            <p className="text-xs text-muted-foreground">
+              Current: {settings.globalInitialPosition.down}px
+            </p>
+          </div>
+        </div>
+
         {/* Scale Controls */}
         <div className="grid grid-cols-2 gap-4">
           <div className="space-y-2">
@@ -163,6 +228,34 @@ export function GlobalPositionControls() {
             </p>
           </div>
         </div>
+
+        {/* Rotation Control */}
+        <div className="space-y-2 mt-4">
+          <div className="flex items-center gap-2">
+            <RotateCw className="h-3 w-3 text-pink-500" />
+            <Label className="text-xs">Rotation (r modifier)</Label>
+          </div>
+          <Input
+            type="number"
+            value={settings.globalInitialPosition.rotation}
+            onChange={(e) => {
+              const val = e.target.value;
+              if (val === '' || val === '-') {
+                return; // Allow partial input
+              }
+              const numVal = parseFloat(val);
+              if (!isNaN(numVal)) {
+                handlePositionChange('rotation', numVal);
+              }
+            }}
+            placeholder="Degrees"
+            step="15"
+            className="w-full"
+          />
+          <p className="text-xs text-muted-foreground">
+            Current: {settings.globalInitialPosition.rotation}° (negative = counter-clockwise)
+          </p>
+        </div>
       </div>
 
       {/* Speed Multiplier */}
@@ -219,7 +312,51 @@ export function GlobalPositionControls() {
         </p>
       </div>
 
+      {/* Animation Unit */}
+      <div>
+        <Label className="text-sm font-medium text-foreground mb-3 block">
+          Animation Unit
+        </Label>
+        <div className="grid grid-cols-3 gap-2">
+          {unitOptions.map(option => (
+            <Button
+              key={option.value}
+              variant={settings.animationUnit === option.value ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => updateMotion({ animationUnit: option.value })}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          Tags can override this with /w, /c or /l
+        </p>
+      </div>
 
+      {/* Stagger */}
+      <div>
+        <Label className="text-sm font-medium text-foreground mb-3 block">
+          Stagger (seconds)
+        </Label>
+        <Input
+          type="number"
+          value={settings.stagger}
+          onChange={(e) => {
+            const numVal = parseFloat(e.target.value);
+            if (!isNaN(numVal) && numVal >= 0) {
+              updateMotion({ stagger: numVal });
+            }
+          }}
+          placeholder="Enter stagger in seconds"
+          step="0.01"
+          min="0"
+          className="w-full"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Delay between characters or lines (e.g. /c0.05 in a tag)
+        </p>
+      </div>
 
       {/* Reset Button */}
       <div className="pt-4 border-t border-border">
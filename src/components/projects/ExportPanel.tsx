@@ -6,8 +6,19 @@ import { useProjectStore, useCurrentProject } from '@/lib/store/project-store'
 import { useTypographerStore } from '@/lib/store/typographer-store'
 import { useTypographyStore } from '@/lib/store/typography-store'
 import { useMotionStore } from '@/lib/store/motion-store'
+import { useAudioStore } from '@/lib/store/audio-store'
 import { lottieConverter, type AspectRatio, type ExportOptions } from '@/lib/export/lottie-converter'
 import { videoRecorder, screenRecorder, downloadFile } from '@/lib/export/video-recorder'
+import { sceneVideoEncoder, type VideoContainer } from '@/lib/export/video-encoder'
+import { sceneGifEncoder, type GifPalette } from '@/lib/export/gif-encoder'
+import { sceneWebpEncoder } from '@/lib/export/webp-encoder'
+import { sceneApngEncoder } from '@/lib/export/apng-encoder'
+import { sceneImageSequenceExporter } from '@/lib/export/image-sequence'
+import { loadGlyphFonts, loadFontFile } from '@/lib/export/font-loader'
+import { svgExporter } from '@/lib/export/svg-exporter'
+import { afterEffectsExporter } from '@/lib/export/after-effects-exporter'
+import { applyTextTransform } from '@/lib/utils/text-parser'
+import type { FrameExportProgress } from '@/lib/export/frame-renderer'
 import { 
   Download, 
   FileText, 
@@ -26,15 +37,31 @@ export function ExportPanel() {
   const { words, textContent, totalDuration } = useTypographerStore()
   const { settings: typography } = useTypographyStore()
   const { settings: motionSettings, easingCurves, customEasingCurves } = useMotionStore()
+  const { track } = useAudioStore()
   const [isExporting, setIsExporting] = React.useState<string | null>(null)
   const [error, setError] = React.useState<string | null>(null)
   const [exportProgress, setExportProgress] = React.useState<string>('')
   const [selectedAspectRatio, setSelectedAspectRatio] = React.useState<AspectRatio>('16:9')
   const [customDimensions, setCustomDimensions] = React.useState({ width: 1920, height: 1080 })
+  const [videoContainer, setVideoContainer] = React.useState<VideoContainer>('mp4')
+  const [gifPalette, setGifPalette] = React.useState<GifPalette>('global')
+  const [gifDither, setGifDither] = React.useState(false)
+  const [transparentBackground, setTransparentBackground] = React.useState(false)
+  const [loopCount, setLoopCount] = React.useState(0)
+  const [sequenceFramerate, setSequenceFramerate] = React.useState(30)
+  const [embedGlyphs, setEmbedGlyphs] = React.useState(false)
+  const [glyphFontFile, setGlyphFontFile] = React.useState<File | null>(null)
+  const [svgLoop, setSvgLoop] = React.useState(true)
+  const [svgEmbedFont, setSvgEmbedFont] = React.useState(false)
+  const [svgFontFile, setSvgFontFile] = React.useState<File | null>(null)
 
 
 
-  const handleAdvancedExport = async (format: 'lottie' | 'gif' | 'mp4') => {
+  const reportFrameProgress = ({ stage, progress }: FrameExportProgress) => setExportProgress(
+    `${stage === 'rendering' ? 'Rendering frames' : 'Encoding'}... ${Math.round(progress * 100)}%`
+  )
+
+  const handleAdvancedExport = async (format: 'lottie' | 'after-effects' | 'svg' | 'gif' | 'webp' | 'apng' | 'image-sequence' | 'mp4') => {
     if (!currentProject) return
 
 
@@ -61,7 +88,14 @@ export function ExportPanel() {
         const exportOptions: ExportOptions = {
           aspectRatio: selectedAspectRatio,
           duration: Math.max(totalDuration, 1), // Use actual animation duration with minimum of 1 second
-          framerate: 30
+          framerate: 30,
+          easingCurves: customEasingCurves
+        }
+
+        if (embedGlyphs) {
+          setExportProgress('Loading font outlines...')
+          const text = words.map(word => applyTextTransform(word.text, typography.textTransform)).join('')
+          exportOptions.glyphFonts = await loadGlyphFonts(typography, text, glyphFontFile ?? undefined)
         }
         
         if (selectedAspectRatio === 'custom') {
@@ -69,8 +103,6 @@ export function ExportPanel() {
           exportOptions.height = customDimensions.height
         }
         
-        console.log('Exporting Lottie with:', { words, typography, motionSettings, exportOptions })
-        
         const lottieJson = lottieConverter.exportLottieJson(
           words,
           typography,
@@ -78,8 +110,6 @@ export function ExportPanel() {
           exportOptions
         )
         
-        console.log('Generated Lottie JSON length:', lottieJson.length)
-        
         // Download Lottie JSON
         const blob = new Blob([lottieJson], { type: 'application/json' })
         const url = URL.createObjectURL(blob)
@@ -91,18 +121,44 @@ export function ExportPanel() {
         document.body.removeChild(a)
         URL.revokeObjectURL(url)
         
-      } else if (format === 'gif') {
-        setExportProgress('Preparing GIF recording...')
-        
-        // Find the animation preview element
-        const previewElement = document.querySelector('[data-animation-preview]') as HTMLElement
-        if (!previewElement) {
-          throw new Error('Animation preview not found. Please ensure the animation is visible.')
+      } else if (format === 'after-effects') {
+        setExportProgress('Writing After Effects script...')
+
+        const result = afterEffectsExporter.export(words, typography, motionSettings, {
+          aspectRatio: selectedAspectRatio,
+          width: selectedAspectRatio === 'custom' ? customDimensions.width : undefined,
+          height: selectedAspectRatio === 'custom' ? customDimensions.height : undefined,
+          duration: Math.max(totalDuration, 1), // Use actual animation duration with minimum of 1 second
+          framerate: sequenceFramerate,
+          easingCurves: customEasingCurves
+        })
+
+        downloadFile(result)
+
+      } else if (format === 'svg') {
+        const { width: exportWidth, height: exportHeight } = lottieConverter.calculateDimensions({ 
+          aspectRatio: selectedAspectRatio, 
+          width: selectedAspectRatio === 'custom' ? customDimensions.width : undefined,
+          height: selectedAspectRatio === 'custom' ? customDimensions.height : undefined
+        })
+
+        if (svgEmbedFont) {
+          setExportProgress('Loading font...')
         }
-        
-        console.log('Found preview element:', previewElement)
-        console.log('Preview element dimensions:', previewElement.getBoundingClientRect())
-        
+        const font = svgEmbedFont ? await loadFontFile(typography, svgFontFile ?? undefined) : undefined
+
+        const result = svgExporter.export(words, typography, motionSettings, {
+          width: exportWidth,
+          height: exportHeight,
+          duration: Math.max(totalDuration, 1), // Use actual animation duration with minimum of 1 second
+          loop: svgLoop,
+          easingCurves: customEasingCurves,
+          font
+        })
+
+        downloadFile(result)
+
+      } else if (format === 'gif') {
         // Get dimensions based on aspect ratio
         const { width: exportWidth, height: exportHeight } = lottieConverter.calculateDimensions({ 
           aspectRatio: selectedAspectRatio, 
@@ -110,28 +166,95 @@ export function ExportPanel() {
           height: selectedAspectRatio === 'custom' ? customDimensions.height : undefined
         })
         
-        const finalWidth = Math.min(exportWidth, 1200) // Cap at reasonable size for GIF
-        const finalHeight = Math.min(exportHeight, 1200)
-        const duration = Math.max(totalDuration, 1) // Use actual animation duration with minimum of 1 second
-        
-        console.log(`GIF export settings: ${finalWidth}x${finalHeight}, ${duration}s duration`)
-        
-        setExportProgress(`Recording GIF ${finalWidth}x${finalHeight} for ${duration}s... You may be prompted to share your screen for best quality.`)
-        
-        // Record GIF
-        const result = await videoRecorder.recordGIF(previewElement, {
-          width: finalWidth,
-          height: finalHeight,
-          framerate: 30,
-          duration: duration,
+        // Frames are rendered from the timeline, so the preview doesn't need to be on screen
+        const result = await sceneGifEncoder.encode(words, typography, motionSettings, {
+          width: exportWidth,
+          height: exportHeight,
+          framerate: 25,
+          duration: Math.max(totalDuration, 1), // Use actual animation duration with minimum of 1 second
           quality: 10,
-          backgroundColor: typography.backgroundColor === 'transparent' ? null : typography.backgroundColor
+          palette: gifPalette,
+          dither: gifDither,
+          transparent: transparentBackground,
+          loopCount,
+          easingCurves: customEasingCurves,
+          onProgress: reportFrameProgress
         })
         
-        console.log('GIF export completed:', result)
         downloadFile(result)
         
+      } else if (format === 'webp' || format === 'apng') {
+        const { width: exportWidth, height: exportHeight } = lottieConverter.calculateDimensions({ 
+          aspectRatio: selectedAspectRatio, 
+          width: selectedAspectRatio === 'custom' ? customDimensions.width : undefined,
+          height: selectedAspectRatio === 'custom' ? customDimensions.height : undefined
+        })
+        const encoder = format === 'webp' ? sceneWebpEncoder : sceneApngEncoder
+        if (!encoder.isSupported()) {
+          throw new Error(`${format === 'webp' ? 'WebP' : 'APNG'} export is not supported in this browser`)
+        }
+
+        // Both formats keep full alpha, so the background is only filled when the project has one
+        const result = await encoder.encode(words, typography, motionSettings, {
+          width: exportWidth,
+          height: exportHeight,
+          framerate: 25,
+          duration: Math.max(totalDuration, 1), // Use actual animation duration with minimum of 1 second
+          backgroundColor: transparentBackground ? null : undefined,
+          loopCount,
+          easingCurves: customEasingCurves,
+          onProgress: reportFrameProgress
+        })
+
+        downloadFile(result)
+
+      } else if (format === 'image-sequence') {
+        const { width: exportWidth, height: exportHeight } = lottieConverter.calculateDimensions({ 
+          aspectRatio: selectedAspectRatio, 
+          width: selectedAspectRatio === 'custom' ? customDimensions.width : undefined,
+          height: selectedAspectRatio === 'custom' ? customDimensions.height : undefined
+        })
+
+        const result = await sceneImageSequenceExporter.encode(words, typography, motionSettings, {
+          width: exportWidth,
+          height: exportHeight,
+          framerate: sequenceFramerate,
+          duration: Math.max(totalDuration, 1), // Use actual animation duration with minimum of 1 second
+          backgroundColor: transparentBackground ? null : undefined,
+          easingCurves: customEasingCurves,
+          onProgress: reportFrameProgress
+        })
+
+        downloadFile(result)
+
       } else if (format === 'mp4') {
+        // Get dimensions based on aspect ratio
+        const { width: exportWidth, height: exportHeight } = lottieConverter.calculateDimensions({ 
+          aspectRatio: selectedAspectRatio, 
+          width: selectedAspectRatio === 'custom' ? customDimensions.width : undefined,
+          height: selectedAspectRatio === 'custom' ? customDimensions.height : undefined
+        })
+        const duration = Math.max(totalDuration, 1) // Use actual animation duration with minimum of 1 second
+
+        if (sceneVideoEncoder.isSupported()) {
+          // Render every frame offscreen from the scene and encode it, faster than real time
+          setExportProgress('Encoding video...')
+          const result = await sceneVideoEncoder.encode(words, typography, motionSettings, {
+            width: exportWidth,
+            height: exportHeight,
+            framerate: 30,
+            duration,
+            container: videoContainer,
+            easingCurves: customEasingCurves,
+            audio: track?.buffer,
+            onProgress: (frame, totalFrames) => setExportProgress(`Encoding frame ${frame} of ${totalFrames}...`)
+          })
+
+          downloadFile(result)
+          return
+        }
+
+        // Browsers without WebCodecs record the preview in real time
         setExportProgress('Preparing video recording...')
         
         // Find the animation preview element
@@ -142,19 +265,12 @@ export function ExportPanel() {
         
         setExportProgress('Recording video... This may take a moment.')
         
-        // Get dimensions based on aspect ratio
-        const { width: exportWidth, height: exportHeight } = lottieConverter.calculateDimensions({ 
-          aspectRatio: selectedAspectRatio, 
-          width: selectedAspectRatio === 'custom' ? customDimensions.width : undefined,
-          height: selectedAspectRatio === 'custom' ? customDimensions.height : undefined
-        })
-        
-        // Record MP4 using canvas recording
+        // Record WebM using canvas recording
         const result = await videoRecorder.recordVideo(previewElement, {
           width: exportWidth,
           height: exportHeight,
           framerate: 30,
-          duration: Math.max(totalDuration, 1) // Use actual animation duration with minimum of 1 second
+          duration
         })
         
         downloadFile(result)
@@ -178,19 +294,64 @@ export function ExportPanel() {
       available: true,
       category: 'advanced'
     },
+    {
+      id: 'after-effects',
+      title: 'After Effects Script',
+      description: 'ExtendScript that builds an editable comp with one text layer per word',
+      icon: FileText,
+      format: 'after-effects' as const,
+      available: true,
+      category: 'advanced'
+    },
+    {
+      id: 'svg',
+      title: 'Animated SVG',
+      description: 'One self-contained SVG animated with CSS keyframes, no player needed',
+      icon: Code,
+      format: 'svg' as const,
+      available: true,
+      category: 'advanced'
+    },
     {
       id: 'gif',
       title: 'Animated GIF',
-      description: 'Export as animated GIF with proper timing and aspect ratio',
+      description: 'Export as animated GIF rendered frame by frame with exact timing',
       icon: ImageIcon,
       format: 'gif' as const,
       available: true,
       category: 'advanced'
     },
+    {
+      id: 'webp',
+      title: 'Animated WebP',
+      description: 'Full-colour frames with smooth alpha, much smaller than GIF',
+      icon: ImageIcon,
+      format: 'webp' as const,
+      available: true,
+      category: 'advanced'
+    },
+    {
+      id: 'apng',
+      title: 'Animated PNG',
+      description: 'Lossless frames with full alpha',
+      icon: ImageIcon,
+      format: 'apng' as const,
+      available: true,
+      category: 'advanced'
+    },
+    {
+      id: 'image-sequence',
+      title: 'Image Sequence',
+      description: 'Every frame as a PNG in a ZIP, for video editors and compositing',
+      icon: FileText,
+      format: 'image-sequence' as const,
+      available: true,
+      category: 'advanced'
+    },
     {
       id: 'mp4',
       title: 'Video Animation',
-      description: 'Export as MP4 video with animation duration',
+      description: 'Export as MP4 or WebM video, rendered frame by frame',
       icon: Video,
       format: 'mp4' as const,
       available: true,
@@ -301,13 +462,148 @@ export function ExportPanel() {
               {selectedAspectRatio === 'custom' && `Custom format (${customDimensions.width}×${customDimensions.height})`}
             </div>
           </div>
+
+          {/* Lottie Options */}
+          <div className="border rounded-lg p-3 space-y-3">
+            <div className="font-medium text-sm">Lottie</div>
+            <label className="flex items-center gap-2 text-xs">
+              <input type="checkbox" checked={embedGlyphs} onChange={(e) => setEmbedGlyphs(e.target.checked)} />
+              Embed glyph outlines
+            </label>
+            {embedGlyphs && (
+              <div>
+                <label className="text-xs text-muted-foreground">Font file (optional, TTF, OTF or WOFF)</label>
+                <input
+                  type="file"
+                  accept=".ttf,.otf,.woff"
+                  onChange={(e) => setGlyphFontFile(e.target.files?.[0] ?? null)}
+                  className="w-full text-xs"
+                />
+              </div>
+            )}
+            <div className="text-xs text-muted-foreground">
+              {embedGlyphs
+                ? 'Text is exported as shapes and looks the same without the font installed. Without a file, the project font is downloaded.'
+                : 'Text layers use the font installed on the playing device'}
+            </div>
+          </div>
+
+          {/* SVG Options */}
+          <div className="border rounded-lg p-3 space-y-3">
+            <div className="font-medium text-sm">SVG</div>
+            <label className="flex items-center gap-2 text-xs">
+              <input type="checkbox" checked={svgLoop} onChange={(e) => setSvgLoop(e.target.checked)} />
+              Loop
+            </label>
+            <label className="flex items-center gap-2 text-xs">
+              <input type="checkbox" checked={svgEmbedFont} onChange={(e) => setSvgEmbedFont(e.target.checked)} />
+              Embed font
+            </label>
+            {svgEmbedFont && (
+              <div>
+                <label className="text-xs text-muted-foreground">Font file (optional, TTF, OTF, WOFF or WOFF2)</label>
+                <input
+                  type="file"
+                  accept=".ttf,.otf,.woff,.woff2"
+                  onChange={(e) => setSvgFontFile(e.target.files?.[0] ?? null)}
+                  className="w-full text-xs"
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Animated Image Options */}
+          <div className="border rounded-lg p-3 space-y-3">
+            <div className="font-medium text-sm">GIF, WebP and APNG</div>
+            <label className="flex items-center gap-2 text-xs">
+              <input type="checkbox" checked={transparentBackground} onChange={(e) => setTransparentBackground(e.target.checked)} />
+              Transparent background
+            </label>
+            <div>
+              <label className="text-xs text-muted-foreground">Loop count (0 = forever)</label>
+              <input
+                type="number"
+                min={0}
+                value={loopCount}
+                onChange={(e) => setLoopCount(Math.max(0, parseInt(e.target.value) || 0))}
+                className="w-full px-2 py-1 text-xs border rounded"
+              />
+            </div>
+          </div>
+
+          {/* GIF Palette */}
+          <div className="border rounded-lg p-3 space-y-3">
+            <div className="font-medium text-sm">GIF Palette</div>
+            <div className="grid grid-cols-2 gap-2">
+              {(['global', 'per-frame'] as GifPalette[]).map((palette) => (
+                <Button
+                  key={palette}
+                  variant={gifPalette === palette ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setGifPalette(palette)}
+                  className="text-xs"
+                >
+                  {palette === 'global' ? 'Global Palette' : 'Per-frame Palette'}
+                </Button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-xs">
+              <input type="checkbox" checked={gifDither} onChange={(e) => setGifDither(e.target.checked)} />
+              Dithering
+            </label>
+            <div className="text-xs text-muted-foreground">
+              {gifPalette === 'global' ? 'One palette for all frames - smaller files, no colour flicker' : 'A palette per frame - better colours when frames differ a lot'}
+            </div>
+          </div>
+
+          {/* Image Sequence and After Effects Frame Rate */}
+          <div className="border rounded-lg p-3 space-y-3">
+            <div className="font-medium text-sm">Frame Rate</div>
+            <div className="grid grid-cols-4 gap-2">
+              {[24, 25, 30, 60].map((fps) => (
+                <Button
+                  key={fps}
+                  variant={sequenceFramerate === fps ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setSequenceFramerate(fps)}
+                  className="text-xs"
+                >
+                  {fps} fps
+                </Button>
+              ))}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              For image sequences and After Effects comps. Sequence frames are PNGs with a manifest.json, zipped; transparency follows the option above
+            </div>
+          </div>
+
+          {/* Video Container Selection */}
+          <div className="border rounded-lg p-3 space-y-3">
+            <div className="font-medium text-sm">Video Format</div>
+            <div className="grid grid-cols-2 gap-2">
+              {(['mp4', 'webm'] as VideoContainer[]).map((container) => (
+                <Button
+                  key={container}
+                  variant={videoContainer === container ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setVideoContainer(container)}
+                  className="text-xs"
+                >
+                  {container.toUpperCase()}
+                </Button>
+              ))}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {videoContainer === 'mp4' ? 'H.264 in MP4 - plays almost everywhere' : 'VP9 in WebM - smaller files for the web'}
+            </div>
+          </div>
         </div>
 
         {/* Export Options */}
         <div className="space-y-3">
           <h4 className="text-sm font-medium text-muted-foreground">Export</h4>
           <div className="text-xs text-muted-foreground mb-3">
-            These formats require an active animation preview. Make sure your animation is playing or visible.
+            Frames are rendered directly from the timeline, so the preview does not need to be playing.
           </div>
           
           {exportOptions.filter(option => option.category === 'advanced').map(option => {
@@ -357,23 +653,6 @@ export function ExportPanel() {
                       </>
                     )}
                   </Button>
-                  
-                  {/* Debug button for GIF testing */}
-                  {option.format === 'gif' && hasWords && (
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={async () => {
-                        const previewElement = document.querySelector('[data-animation-preview]') as HTMLElement
-                        if (previewElement) {
-                          await videoRecorder.debugCapture(previewElement)
-                        }
-                      }}
-                      className="w-full text-xs"
-                    >
-                      Debug Capture
-                    </Button>
-                  )}
                 </div>
               </div>
             )
@@ -386,7 +665,13 @@ export function ExportPanel() {
           <strong>Lottie:</strong> Use the JSON file with Lottie players for web, mobile, or After Effects.
         </p>
         <p>
-          <strong>Video/GIF:</strong> Recording captures the full animation duration ({totalDuration.toFixed(1)}s). Position the preview prominently for best results.
+          <strong>After Effects:</strong> Run the .jsx file with File &gt; Scripts &gt; Run Script File. Each word becomes a text layer; character and line staggers play as one movement.
+        </p>
+        <p>
+          <strong>Video:</strong> Every frame of the full animation ({totalDuration.toFixed(1)}s) is rendered offscreen, so the preview does not need to be visible. Any audio track is muxed in, trimmed to the animation. Browsers without WebCodecs fall back to real-time WebM recording without audio.
+        </p>
+        <p>
+          <strong>GIF, WebP and APNG:</strong> Every frame is rendered from the timeline at 25fps. WebP and APNG keep full colour and soft alpha edges. Large sizes take longer and use more memory.
         </p>
       </div>
     </div>
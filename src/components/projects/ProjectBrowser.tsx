@@ -5,7 +5,10 @@ import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { ProjectCard } from './ProjectCard'
-import { useProjectStore, useProjects, useProjectTemplates, useProjectFilter, useProjectViewMode } from '@/lib/store/project-store'
+import { useProjectStore, useProjects, useProjectTemplates, useProjectFilter, useProjectViewMode, useQuarantinedProjects } from '@/lib/store/project-store'
+import { useMotionStore } from '@/lib/store/motion-store'
+import { lottieImporter, type LottieImportIssue } from '@/lib/import/lottie-importer'
+import { subtitleImporter } from '@/lib/import/subtitle-importer'
 import { ProjectData, ProjectTemplate } from '@/types/project'
 import { 
   Search, 
@@ -14,7 +17,9 @@ import {
   SortAsc, 
   SortDesc,
   Plus,
-  Sparkles
+  Sparkles,
+  AlertTriangle,
+  Upload
 } from 'lucide-react'
 
 interface ProjectBrowserProps {
@@ -26,10 +31,12 @@ export function ProjectBrowser({ onCreateNew }: ProjectBrowserProps) {
   const templates = useProjectTemplates()
   const filter = useProjectFilter()
   const viewMode = useProjectViewMode()
-  const { setFilter, setViewMode } = useProjectStore()
+  const quarantinedProjects = useQuarantinedProjects()
+  const { setFilter, setViewMode, clearQuarantinedProjects } = useProjectStore()
   
   const [searchTerm, setSearchTerm] = React.useState(filter.searchTerm || '')
   const [showTemplates, setShowTemplates] = React.useState(false)
+  const [importReport, setImportReport] = React.useState<{ name: string, issues: LottieImportIssue[] } | null>(null)
 
   // Filter and sort projects
   const filteredProjects = React.useMemo(() => {
@@ -89,6 +96,53 @@ export function ProjectBrowser({ onCreateNew }: ProjectBrowserProps) {
     })
   }
 
+  const handleLottieImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const { easingCurves, customEasingCurves } = useMotionStore.getState()
+      const result = lottieImporter.importLottie(await file.text(), { easingCurves: [...easingCurves, ...customEasingCurves] })
+      const { createProject, updateProject } = useProjectStore.getState()
+      const project = await createProject(result.name, `Imported from ${file.name}`)
+      await updateProject(project.id, {
+        textContent: result.textContent,
+        typography: { ...project.typography, ...result.typography },
+        wordGap: result.wordGap
+      })
+      setImportReport({ name: result.name, issues: result.report })
+    } catch (error) {
+      setImportReport({
+        name: file.name,
+        issues: [{ severity: 'error', message: error instanceof Error ? error.message : 'Failed to import Lottie file' }]
+      })
+    }
+  }
+
+  const handleSubtitleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const name = file.name.replace(/\.[^.]+$/, '')
+    try {
+      const result = subtitleImporter.importSubtitles(await file.text())
+      const { createProject, updateProject } = useProjectStore.getState()
+      const project = await createProject(name, `Imported from ${file.name}`)
+      await updateProject(project.id, { textContent: result.textContent })
+      setImportReport({
+        name,
+        issues: result.report.map(({ cue, ...issue }) => ({ ...issue, layer: cue ? `Cue ${cue}` : undefined }))
+      })
+    } catch (error) {
+      setImportReport({
+        name: file.name,
+        issues: [{ severity: 'error', message: error instanceof Error ? error.message : 'Failed to import subtitles' }]
+      })
+    }
+  }
+
   const handleSortToggle = () => {
     setFilter({ 
       sortOrder: filter.sortOrder === 'asc' ? 'desc' : 'asc' 
@@ -148,18 +202,36 @@ export function ProjectBrowser({ onCreateNew }: ProjectBrowserProps) {
             </Button>
           </div>
 
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => setShowTemplates(!showTemplates)}
-            className={cn(
-              "h-8 px-3 text-xs",
-              showTemplates && "bg-accent text-accent-foreground"
-            )}
-          >
-            <Sparkles className="h-3 w-3 mr-1" />
-            Templates
-          </Button>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" className="h-8 px-3 text-xs" title="Import a Lottie animation as a new project" asChild>
+              <label className="cursor-pointer">
+                <Upload className="h-3 w-3 mr-1" />
+                Import Lottie
+                <input type="file" accept=".json,application/json" onChange={handleLottieImport} className="hidden" />
+              </label>
+            </Button>
+
+            <Button variant="ghost" size="sm" className="h-8 px-3 text-xs" title="Import SRT or WebVTT captions as a new project timed like the file" asChild>
+              <label className="cursor-pointer">
+                <Upload className="h-3 w-3 mr-1" />
+                Import Subtitles
+                <input type="file" accept=".srt,.vtt,text/vtt" onChange={handleSubtitleImport} className="hidden" />
+              </label>
+            </Button>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowTemplates(!showTemplates)}
+              className={cn(
+                "h-8 px-3 text-xs",
+                showTemplates && "bg-accent text-accent-foreground"
+              )}
+            >
+              <Sparkles className="h-3 w-3 mr-1" />
+              Templates
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -205,6 +277,74 @@ export function ProjectBrowser({ onCreateNew }: ProjectBrowserProps) {
           </div>
         )}
 
+        {/* Import Report */}
+        {importReport && importReport.issues.length > 0 && (
+          <div className="mb-6 p-3 text-xs border border-amber-500/30 bg-amber-500/10 rounded-lg space-y-2">
+            <div className="flex items-center gap-2 font-medium text-amber-600">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {importReport.issues.some(issue => issue.severity === 'error')
+                ? `${importReport.name} could not be imported`
+                : `${importReport.name}: some parts could not be imported`}
+            </div>
+            <ul className="space-y-1 text-muted-foreground">
+              {importReport.issues.map((issue, index) => (
+                <li key={index}>
+                  {issue.layer && <span className="font-medium text-foreground">{issue.layer}{' – '}</span>}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setImportReport(null)}
+                className="h-7 px-2 text-xs"
+              >
+                Dismiss
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Quarantined Projects Report */}
+        {quarantinedProjects.length > 0 && (
+          <div className="mb-6 p-3 text-xs border border-amber-500/30 bg-amber-500/10 rounded-lg space-y-2">
+            <div className="flex items-center gap-2 font-medium text-amber-600">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {quarantinedProjects.length === 1
+                ? '1 project could not be loaded'
+                : `${quarantinedProjects.length} projects could not be loaded`}
+            </div>
+            <ul className="space-y-1 text-muted-foreground">
+              {quarantinedProjects.map((entry, index) => (
+                <li key={`${entry.id ?? 'unknown'}-${index}`} className="truncate" title={entry.reason}>
+                  <span className="font-medium text-foreground">{entry.name || entry.id || 'Untitled project'}</span>
+                  {' – '}
+                  {entry.reason}
+                </li>
+              ))}
+            </ul>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-muted-foreground">
+                These records were set aside and are no longer in your project list.
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  if (confirm('Permanently discard the projects that could not be loaded?')) {
+                    clearQuarantinedProjects()
+                  }
+                }}
+                className="h-7 px-2 text-xs flex-shrink-0"
+              >
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Projects Section */}
         <div className="space-y-4">
           <div className="flex items-center justify-between">
@@ -5,6 +5,7 @@ import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { useProjectStore, useCurrentProject } from '@/lib/store/project-store'
 import { ProjectData } from '@/types/project'
+import { parseText } from '@/lib/utils/text-parser'
 import { 
   MoreVertical, 
   Play, 
@@ -96,7 +97,7 @@ export function ProjectCard({ project, viewMode }: ProjectCardProps) {
   const getWordCount = () => {
     // Remove motion language tags and count words
     const cleanText = project.textContent.replace(/<[^>]*>/g, '')
-    return cleanText.trim().split(/\s+/).filter(word => word.length > 0).length
+    return parseText(cleanText).words.length
   }
 
   if (viewMode === 'list') {
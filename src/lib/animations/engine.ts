@@ -7,7 +7,7 @@ import {
   MotionDirection, 
   ZoomType 
 } from '@/types/typographer'
-import { MotionSettings, EasingCurve } from '@/types/motion'
+import { MotionSettings, EasingCurve, DEFAULT_MOTION_SETTINGS } from '@/types/motion'
 import { 
   animationDefinitions, 
   easingCurves, 
@@ -19,7 +19,7 @@ import {
   MotionLanguageConfig, 
   WordAnimationConfig 
 } from './types'
-import { easingCurveToFramerMotion } from '@/lib/utils/motion-utils'
+import { easingCurveToFramerMotion, getDirectionTransform, resolveEasingBezier } from '@/lib/utils/motion-utils'
 
 /**
  * Animation Engine class that handles all animation logic
@@ -114,8 +114,8 @@ export class AnimationEngine {
    * Create Framer Motion variants for motion language animations
    */
   private createMotionLanguageVariants(config: MotionLanguageConfig): AnimationVariants {
-    const entryTransform = this.getDirectionTransform(config.entryDirection)
-    const exitTransform = this.getDirectionTransform(config.exitDirection)
+    const entryTransform = this.getDirectionTransform(config.entryDirection, config.entryRotate)
+    const exitTransform = this.getDirectionTransform(config.exitDirection, config.exitRotate)
     const zoomScale = config.zoomType === ZoomType.ZOOM_IN ? 1.2 : 0.8
 
     return {
@@ -128,11 +128,12 @@ export class AnimationEngine {
         x: 0,
         y: 0,
         z: 0,
+        rotate: 0,
         opacity: 1,
         scale: zoomScale,
         transition: {
           duration: this.calculateMotionDuration(config.speed),
-          ease: this.getMotionEasing(config.speed)
+          ease: this.resolveEasing(config.entryEasing) ?? this.getMotionEasing(config.speed)
         }
       },
       exit: {
@@ -141,7 +142,7 @@ export class AnimationEngine {
         scale: 0.3,
         transition: {
           duration: this.calculateMotionDuration(config.speed),
-          ease: 'easeIn'
+          ease: this.resolveEasing(config.exitEasing) ?? 'easeIn'
         }
       }
     }
@@ -196,41 +197,9 @@ export class AnimationEngine {
   /**
    * Get transform values for motion directions with global position settings
    */
-  private getDirectionTransform(direction: MotionDirection): Record<string, number> {
-    const settings = this.motionSettings?.globalInitialPosition
-    
-    switch (direction) {
-      case MotionDirection.LEFT:
-        return { 
-          x: settings?.left ?? -100, 
-          y: 0, 
-          z: 0,
-          scale: 1
-        }
-      case MotionDirection.RIGHT:
-        return { 
-          x: settings?.right ?? 100, 
-          y: 0, 
-          z: 0,
-          scale: 1
-        }
-      case MotionDirection.FRONT:
-        return { 
-          x: 0, 
-          y: 0, 
-          z: 0,
-          scale: settings?.front ?? 0.6
-        }
-      case MotionDirection.BACK:
-        return { 
-          x: 0, 
-          y: 0, 
-          z: 0,
-          scale: settings?.back ?? 1.4
-        }
-      default:
-        return { x: 0, y: 0, z: 0, scale: 1 }
-    }
+  private getDirectionTransform(direction: MotionDirection, rotate = false): Record<string, number> {
+    const settings = this.motionSettings?.globalInitialPosition ?? DEFAULT_MOTION_SETTINGS.globalInitialPosition
+    return { ...getDirectionTransform(direction, settings, rotate), z: 0 }
   }
 
   /**
@@ -243,6 +212,13 @@ export class AnimationEngine {
     return baseDuration / speedMultiplier
   }
 
+  /**
+   * Resolve a per-tag easing override (custom curves first, then built-ins)
+   */
+  private resolveEasing(easingId?: string): number[] | undefined {
+    return resolveEasingBezier(easingId, this.customEasingCurves)
+  }
+
   /**
    * Get appropriate easing for motion speed using custom curves
    */
@@ -0,0 +1,154 @@
+// Canvas rendering of evaluated scenes, shared by thumbnails and frame-by-frame video export
+
+import { TypographySettings } from '@/types/typography'
+import { applyTextTransform } from '@/lib/utils/text-parser'
+import { SceneFrame, Pose } from './scene'
+
+export type SceneCanvasContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+export interface SceneRenderOptions {
+  width: number
+  height: number
+  backgroundColor?: string | null // Overrides the typography background; null leaves the canvas transparent
+  fitToCanvas?: boolean // Shrink words wider than the canvas instead of letting them overflow
+}
+
+const STAGE_WIDTH = 800 // Preview width that typography sizes and motion offsets are relative to
+const ROOT_FONT_SIZE = 16 // px per rem
+
+/**
+ * Draw one frame: clear, fill the background, then every piece at its pose.
+ * Layout and motion offsets are scaled from the 800px preview stage to the canvas width.
+ */
+export function drawScene(
+  ctx: SceneCanvasContext,
+  frame: SceneFrame,
+  typography: TypographySettings,
+  options: SceneRenderOptions
+): void {
+  const { width, height, fitToCanvas = false } = options
+  const stageScale = width / STAGE_WIDTH
+
+  prepareCanvas(ctx, typography, options)
+
+  frame.words.forEach(({ word, x, y, unit, pieces }) => {
+    let fit = 1
+    if (fitToCanvas) {
+      const lines = unit === 'line' ? pieces.map(piece => piece.text) : [word.text]
+      const measured = Math.max(...lines.map(line => ctx.measureText(applyTextTransform(line, typography.textTransform)).width))
+      fit = Math.min(1, (width * 0.9) / Math.max(1, measured))
+    }
+
+    ctx.save()
+    ctx.translate(width / 2 + x * stageScale, height / 2 + y * stageScale)
+    ctx.scale(fit, fit)
+    pieces.forEach(piece => {
+      if (piece.opacity <= 0) return
+      drawPiece(ctx, piece.text, { ...piece, x: piece.offsetX + piece.x, y: piece.offsetY + piece.y }, typography, stageScale)
+    })
+    ctx.restore()
+  })
+}
+
+/**
+ * Draw a single line of text at the canvas centre, e.g. a placeholder when there is no scene yet
+ */
+export function drawSceneText(
+  ctx: SceneCanvasContext,
+  text: string,
+  pose: Pose,
+  typography: TypographySettings,
+  options: SceneRenderOptions
+): void {
+  prepareCanvas(ctx, typography, options)
+  ctx.save()
+  ctx.translate(options.width / 2, options.height / 2)
+  drawPiece(ctx, text, pose, typography, options.width / STAGE_WIDTH)
+  ctx.restore()
+}
+
+/**
+ * Make sure the project font is available before drawing, so the first frames don't use a fallback
+ */
+export async function loadSceneFont(typography: TypographySettings, width: number): Promise<void> {
+  try {
+    await document.fonts?.load(getFont(typography, width / STAGE_WIDTH))
+  } catch {
+    // Fall back to whatever font the canvas resolves
+  }
+}
+
+/**
+ * Resolve a CSS color, including names, hsl() and CSS variables (e.g. hsl(var(--foreground))),
+ * to the value the page computes. Colors the page rejects are returned unchanged.
+ */
+export function resolveCssColor(color: string): string {
+  if (typeof document === 'undefined' || !document.body) return color
+
+  const probe = document.createElement('span')
+  probe.style.color = color
+  if (!probe.style.color) return color
+  probe.style.display = 'none'
+  document.body.appendChild(probe)
+  const resolved = getComputedStyle(probe).color
+  probe.remove()
+  return resolved || color
+}
+
+function getFont(typography: TypographySettings, stageScale: number): string {
+  return `${typography.fontWeight} ${typography.fontSize * ROOT_FONT_SIZE * stageScale}px ${typography.fontFamily}`
+}
+
+function prepareCanvas(ctx: SceneCanvasContext, typography: TypographySettings, options: SceneRenderOptions): void {
+  const { width, height } = options
+  const stageScale = width / STAGE_WIDTH
+  const fontSize = typography.fontSize * ROOT_FONT_SIZE * stageScale
+  const background = options.backgroundColor === undefined ? typography.backgroundColor : options.backgroundColor
+
+  ctx.clearRect(0, 0, width, height)
+  if (background && background !== 'transparent') {
+    ctx.fillStyle = resolveCssColor(background)
+    ctx.fillRect(0, 0, width, height)
+  }
+
+  ctx.font = getFont(typography, stageScale)
+  ctx.letterSpacing = `${typography.letterSpacing * fontSize}px`
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillStyle = resolveCssColor(typography.textColor)
+  ctx.strokeStyle = ctx.fillStyle
+}
+
+function drawPiece(
+  ctx: SceneCanvasContext,
+  text: string,
+  pose: Pose,
+  typography: TypographySettings,
+  stageScale: number
+): void {
+  const transformed = applyTextTransform(text, typography.textTransform)
+  ctx.save()
+  ctx.globalAlpha = Math.max(0, Math.min(1, pose.opacity))
+  ctx.translate(pose.x * stageScale, pose.y * stageScale)
+  ctx.rotate((pose.rotate * Math.PI) / 180)
+  ctx.scale(pose.scale, pose.scale)
+  ctx.fillText(transformed, 0, 0)
+  drawTextDecoration(ctx, typography.textDecoration, ctx.measureText(transformed).width, typography.fontSize * ROOT_FONT_SIZE * stageScale)
+  ctx.restore()
+}
+
+function drawTextDecoration(
+  ctx: SceneCanvasContext,
+  decoration: TypographySettings['textDecoration'],
+  textWidth: number,
+  fontSize: number
+): void {
+  if (decoration === 'none') return
+
+  const y = decoration === 'underline' ? fontSize * 0.45 : 0
+  ctx.lineWidth = Math.max(1, fontSize / 15)
+  ctx.beginPath()
+  ctx.moveTo(-textWidth / 2, y)
+  ctx.lineTo(textWidth / 2, y)
+  ctx.stroke()
+}
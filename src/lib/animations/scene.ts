@@ -0,0 +1,217 @@
+// Deterministic scene evaluation: the exact pose of every word at any moment.
+// The preview, scrubbing, thumbnails and exporters all read poses from here.
+
+import { WordData, AnimationUnit } from '@/types/typographer'
+import { TypographySettings } from '@/types/typography'
+import { MotionSettings, EasingCurve, DEFAULT_MOTION_SETTINGS } from '@/types/motion'
+import {
+  evaluateCubicBezier,
+  getDirectionTransform,
+  resolveEasingBezier,
+  resolveAnimationUnit,
+  getAnimationUnits,
+  EASING_PRESETS
+} from '@/lib/utils/motion-utils'
+import { createLayoutConfig, measureTextWidth, LayoutConfig } from '@/lib/utils/positioning'
+
+export interface Pose {
+  opacity: number
+  x: number // px offset from the rest position, on the 800px stage
+  y: number
+  scale: number
+  rotate: number // degrees
+}
+
+export interface MotionPhase {
+  start: number // Seconds after the piece starts
+  duration: number
+  from: Pose
+  to: Pose
+  easing: EasingCurve['cubicBezier']
+}
+
+export interface WordTimeline {
+  unit: AnimationUnit
+  stagger: number // Seconds between consecutive pieces
+  pieces: string[]
+  phases: MotionPhase[]
+}
+
+export interface PiecePose extends Pose {
+  text: string
+  offsetX: number // Rest position of the piece centre relative to the word centre, px
+  offsetY: number
+}
+
+export interface WordPose {
+  word: WordData
+  unit: AnimationUnit
+  x: number // Word centre relative to the stage centre, px
+  y: number
+  pieces: PiecePose[]
+}
+
+export interface SceneFrame {
+  time: number
+  words: WordPose[] // Words on screen at this time, in reading order
+}
+
+export const REST_POSE: Pose = { opacity: 1, x: 0, y: 0, scale: 1, rotate: 0 }
+
+const DEFAULT_PHASE_DURATION = 0.8 // Used when a tag omits a speed
+const FADE_IN_DURATION = 1 // Fade-in length for words without a motion tag
+
+/**
+ * Evaluate every word's pose at time t. Pure: the same inputs always give the same frame,
+ * so seeking to a time shows exactly what playback shows when it passes that time.
+ */
+export function evaluateScene(
+  words: WordData[],
+  typography: Partial<TypographySettings>,
+  motionSettings: MotionSettings,
+  t: number,
+  easingCurves: EasingCurve[] = []
+): SceneFrame {
+  const layout = createLayoutConfig(undefined, undefined, typography)
+
+  return {
+    time: t,
+    words: words
+      .filter(word => t >= word.startTime && t <= word.startTime + word.duration)
+      .map(word => evaluateWord(word, t, layout, motionSettings, easingCurves))
+  }
+}
+
+/**
+ * Build the phases a word's pieces move through. Phases start on the tag's own schedule;
+ * the speed multiplier only shortens each movement.
+ */
+export function getWordTimeline(
+  word: WordData,
+  motionSettings: MotionSettings,
+  easingCurves: EasingCurve[] = []
+): WordTimeline {
+  const speedMultiplier = motionSettings.speedMultiplier || 1
+  const globalInitialPosition = motionSettings.globalInitialPosition ?? DEFAULT_MOTION_SETTINGS.globalInitialPosition
+  const defaultEasing = resolveEasingBezier(motionSettings.defaultEasing, easingCurves) ?? EASING_PRESETS.easeOut
+  const { unit, stagger } = resolveAnimationUnit(word, motionSettings)
+  const pieces = getAnimationUnits(word, unit)
+
+  if (!word.motionConfig) {
+    return {
+      unit,
+      stagger,
+      pieces,
+      phases: [{
+        start: 0,
+        duration: FADE_IN_DURATION / speedMultiplier,
+        from: { ...REST_POSE, opacity: 0, scale: globalInitialPosition.front },
+        to: REST_POSE,
+        easing: defaultEasing
+      }]
+    }
+  }
+
+  const { entryDirection, exitDirection, entryRotate, exitRotate, entryEasing, exitEasing, displayDuration } = word.motionConfig
+  const entryDuration = word.motionConfig.entrySpeed || DEFAULT_PHASE_DURATION
+  const exitDuration = word.motionConfig.exitSpeed || DEFAULT_PHASE_DURATION
+
+  return {
+    unit,
+    stagger,
+    pieces,
+    phases: [
+      {
+        start: 0,
+        duration: entryDuration / speedMultiplier,
+        from: { opacity: 0, ...getDirectionTransform(entryDirection, globalInitialPosition, entryRotate) },
+        to: REST_POSE,
+        easing: resolveEasingBezier(entryEasing, easingCurves) ?? defaultEasing
+      },
+      {
+        start: entryDuration + displayDuration,
+        duration: exitDuration / speedMultiplier,
+        from: REST_POSE,
+        to: { opacity: 0, ...getDirectionTransform(exitDirection, globalInitialPosition, exitRotate) },
+        easing: resolveEasingBezier(exitEasing, easingCurves) ?? defaultEasing
+      }
+    ]
+  }
+}
+
+/**
+ * Pose after `time` seconds of a timeline; before the first phase a piece waits in its start pose
+ */
+export function getPoseAt(phases: MotionPhase[], time: number): Pose {
+  let pose = phases[0]?.from ?? REST_POSE
+
+  for (const phase of phases) {
+    if (time < phase.start) break
+    const progress = phase.duration > 0 ? (time - phase.start) / phase.duration : 1
+    pose = interpolatePose(phase.from, phase.to, evaluateCubicBezier(phase.easing, progress))
+  }
+
+  return pose
+}
+
+function interpolatePose(from: Pose, to: Pose, amount: number): Pose {
+  const mix = (a: number, b: number) => a + (b - a) * amount
+  return {
+    opacity: mix(from.opacity, to.opacity),
+    x: mix(from.x, to.x),
+    y: mix(from.y, to.y),
+    scale: mix(from.scale, to.scale),
+    rotate: mix(from.rotate, to.rotate)
+  }
+}
+
+function evaluateWord(
+  word: WordData,
+  t: number,
+  layout: LayoutConfig,
+  motionSettings: MotionSettings,
+  easingCurves: EasingCurve[]
+): WordPose {
+  const { unit, stagger, pieces, phases } = getWordTimeline(word, motionSettings, easingCurves)
+  const offsets = getPieceOffsets(pieces, unit, layout)
+  const relativeTime = t - word.startTime
+
+  return {
+    word,
+    unit,
+    x: word.position.x,
+    y: word.position.y,
+    pieces: pieces.map((text, index) => ({
+      text,
+      ...offsets[index],
+      ...getPoseAt(phases, relativeTime - index * stagger)
+    }))
+  }
+}
+
+/**
+ * Where each piece rests relative to the word centre: characters sit side by side
+ * and lines stack, both centred like the preview's flex layout
+ */
+export function getPieceOffsets(
+  pieces: string[],
+  unit: AnimationUnit,
+  layout: LayoutConfig
+): Array<{ offsetX: number; offsetY: number }> {
+  if (unit === 'line') {
+    const lineHeight = layout.fontSize * layout.lineHeight
+    return pieces.map((_, index) => ({ offsetX: 0, offsetY: (index - (pieces.length - 1) / 2) * lineHeight }))
+  }
+
+  if (unit === 'character' && pieces.length > 1) {
+    const totalWidth = measureTextWidth(pieces.join(''), layout)
+    let prefix = ''
+    return pieces.map(piece => {
+      const left = measureTextWidth(prefix, layout)
+      prefix += piece
+      return { offsetX: left + measureTextWidth(piece, layout) / 2 - totalWidth / 2, offsetY: 0 }
+    })
+  }
+
+  return pieces.map(() => ({ offsetX: 0, offsetY: 0 }))
+}
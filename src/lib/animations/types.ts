@@ -1,6 +1,6 @@
 // Animation system type definitions
 
-import { AnimationType, MotionDirection, ZoomType } from '@/types/typographer'
+import { AnimationType, AnimationUnit, MotionDirection, ZoomType } from '@/types/typographer'
 
 export interface AnimationVariants {
   initial: Record<string, unknown>
@@ -59,6 +59,12 @@ export interface MotionLanguageConfig {
   displayDuration: number // 1-9 seconds
   zoomType: ZoomType
   exitDirection: MotionDirection
+  entryRotate?: boolean
+  exitRotate?: boolean
+  entryEasing?: string
+  exitEasing?: string
+  unit?: AnimationUnit
+  stagger?: number
 }
 
 // Complete animation configuration for a word
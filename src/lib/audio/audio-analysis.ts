@@ -0,0 +1,100 @@
+// Audio analysis for the timeline: waveform peaks and onset (beat) detection on decoded samples
+
+const FRAME_SIZE = 1024 // Samples per energy frame
+const HOP_SIZE = 512 // Samples between frames
+const THRESHOLD_WINDOW = 16 // Frames either side averaged for the adaptive threshold
+const THRESHOLD_RATIO = 1.5 // How far an onset must rise above the local average
+const PEAK_WINDOW = 3 // Frames either side an onset must be the maximum of
+const MIN_BEAT_INTERVAL = 0.1 // Seconds; closer onsets are one hit
+
+/**
+ * Largest absolute sample in each of `count` equal buckets, across all channels (0-1)
+ */
+export function computePeaks(channels: Float32Array[], count: number): number[] {
+  const length = channels[0]?.length ?? 0
+  const peaks: number[] = []
+  if (length === 0 || count <= 0) return peaks
+
+  for (let bucket = 0; bucket < count; bucket++) {
+    const start = Math.floor((bucket * length) / count)
+    const end = Math.max(start + 1, Math.floor(((bucket + 1) * length) / count))
+    let peak = 0
+    channels.forEach(samples => {
+      for (let i = start; i < end && i < length; i++) {
+        const value = Math.abs(samples[i])
+        if (value > peak) peak = value
+      }
+    })
+    peaks.push(Math.min(1, peak))
+  }
+
+  return peaks
+}
+
+/**
+ * Onset times in seconds, rounded to hundredths like motion tags. Onsets are sudden rises
+ * in loudness: the positive change in log energy between frames, picked where it stands
+ * out from its surroundings.
+ */
+export function detectBeats(channels: Float32Array[], sampleRate: number): number[] {
+  const length = channels[0]?.length ?? 0
+  const frameCount = Math.floor(Math.max(0, length - FRAME_SIZE) / HOP_SIZE) + 1
+  if (length < FRAME_SIZE || sampleRate <= 0) return []
+
+  // Log-compressed energy per frame, mixed down to mono
+  const energy = new Float32Array(frameCount)
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * HOP_SIZE
+    let sum = 0
+    channels.forEach(samples => {
+      for (let i = start; i < start + FRAME_SIZE; i++) {
+        sum += samples[i] * samples[i]
+      }
+    })
+    energy[frame] = Math.log1p((1000 * sum) / (FRAME_SIZE * channels.length))
+  }
+
+  const flux = new Float32Array(frameCount)
+  for (let frame = 1; frame < frameCount; frame++) {
+    flux[frame] = Math.max(0, energy[frame] - energy[frame - 1])
+  }
+  const overallMean = flux.reduce((total, value) => total + value, 0) / frameCount
+
+  const beats: number[] = []
+  let lastBeat = -Infinity
+  for (let frame = 1; frame < frameCount; frame++) {
+    const from = Math.max(0, frame - THRESHOLD_WINDOW)
+    const to = Math.min(frameCount, frame + THRESHOLD_WINDOW + 1)
+    let localSum = 0
+    let isPeak = true
+    for (let i = from; i < to; i++) {
+      localSum += flux[i]
+      if (Math.abs(i - frame) <= PEAK_WINDOW && flux[i] > flux[frame]) isPeak = false
+    }
+    const threshold = (localSum / (to - from)) * THRESHOLD_RATIO + overallMean
+
+    // The rise shows in the first frame that reaches past the onset
+    const time = ((frame - 1) * HOP_SIZE + FRAME_SIZE) / sampleRate
+    if (isPeak && flux[frame] > threshold && time - lastBeat >= MIN_BEAT_INTERVAL) {
+      beats.push(Math.round(time * 100) / 100)
+      lastBeat = time
+    }
+  }
+
+  return beats
+}
+
+/**
+ * The beat closest to `time`, or `time` itself when there are no beats
+ */
+export function findNearestBeat(beats: number[], time: number): number {
+  let nearest = time
+  let distance = Infinity
+  beats.forEach(beat => {
+    if (Math.abs(beat - time) < distance) {
+      nearest = beat
+      distance = Math.abs(beat - time)
+    }
+  })
+  return nearest
+}
@@ -0,0 +1,79 @@
+// Metronome: click track for timing words when there is no soundtrack. Clicks are scheduled
+// ahead on the Web Audio clock, so they stay steady however busy the page is.
+
+const LOOKAHEAD = 0.1 // Seconds of clicks scheduled ahead
+const SCHEDULE_INTERVAL = 25 // ms between scheduling passes
+const CLICK_LENGTH = 0.03 // Seconds
+const BEATS_PER_BAR = 4 // The first beat of each bar clicks higher
+
+export class Metronome {
+  private context: AudioContext | null = null
+  private timer: ReturnType<typeof setInterval> | null = null
+  private startedAt = 0
+  private generation = 0 // Bumped by every stop, so a start still waiting on its context can tell it was superseded
+
+  /**
+   * Start clicking at `bpm`, with the first click now
+   */
+  async start(bpm: number): Promise<void> {
+    this.stop()
+    const generation = this.generation
+    const context = new AudioContext()
+    try {
+      await context.resume()
+    } catch (error) {
+      context.close()
+      throw error
+    }
+
+    // stop() or another start() ran while the context was resuming
+    if (generation !== this.generation) {
+      context.close()
+      return
+    }
+    this.context = context
+    this.startedAt = context.currentTime
+
+    const interval = 60 / Math.max(1, bpm)
+    let beat = 0
+    const schedule = () => {
+      while (this.startedAt + beat * interval < context.currentTime + LOOKAHEAD) {
+        this.click(context, this.startedAt + beat * interval, beat % BEATS_PER_BAR === 0)
+        beat++
+      }
+    }
+    schedule()
+    this.timer = setInterval(schedule, SCHEDULE_INTERVAL)
+  }
+
+  /**
+   * Seconds since the first click, on the audio clock the clicks follow
+   */
+  getTime(): number {
+    return this.context ? this.context.currentTime - this.startedAt : 0
+  }
+
+  stop(): void {
+    this.generation++
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.context?.close()
+    this.context = null
+  }
+
+  private click(context: AudioContext, time: number, accent: boolean): void {
+    const oscillator = context.createOscillator()
+    const gain = context.createGain()
+    oscillator.frequency.value = accent ? 1500 : 1000
+    gain.gain.setValueAtTime(0.5, time)
+    gain.gain.exponentialRampToValueAtTime(0.001, time + CLICK_LENGTH)
+    oscillator.connect(gain).connect(context.destination)
+    oscillator.start(time)
+    oscillator.stop(time + CLICK_LENGTH)
+  }
+}
+
+// Export singleton instance
+export const metronome = new Metronome()
@@ -0,0 +1,306 @@
+// After Effects export: an ExtendScript (.jsx) file that rebuilds the animation as an editable
+// composition, one text layer per word with eased position, scale, rotation and opacity keyframes
+
+import { WordData } from '@/types/typographer'
+import { TypographySettings } from '@/types/typography'
+import { MotionSettings } from '@/types/motion'
+import { getWordTimeline, getPoseAt, MotionPhase, Pose } from '@/lib/animations/scene'
+import { applyTextTransform } from '@/lib/utils/text-parser'
+import { lottieConverter, ExportOptions } from './lottie-converter'
+import { VideoExportResult } from './video-recorder'
+
+interface AfterEffectsKey {
+  t: number // Seconds in the composition
+  v: number[]
+  inSpeed: number[] // Per dimension; spatial properties have one speed along the path
+  inInfluence: number // % of the previous segment
+  outSpeed: number[]
+  outInfluence: number
+}
+
+interface AfterEffectsLayer {
+  name: string
+  text: string
+  inPoint: number
+  outPoint: number
+  keys: Record<'position' | 'scale' | 'rotation' | 'opacity', AfterEffectsKey[]>
+}
+
+interface AfterEffectsComp {
+  name: string
+  width: number
+  height: number
+  duration: number
+  framerate: number
+  background: [number, number, number] | null
+  text: {
+    font: string // PostScript name; After Effects substitutes fonts that are not installed
+    fontSize: number
+    fillColor: [number, number, number]
+    tracking: number // 1/1000 em
+    leading: number
+    justification: 'left' | 'center' | 'right'
+  }
+  layers: AfterEffectsLayer[]
+}
+
+interface TimelineKey {
+  time: number
+  pose: Pose
+  easing?: MotionPhase['easing'] // Easing of the segment that starts at this key
+}
+
+const STAGE_WIDTH = 800 // Preview width that typography sizes and motion offsets are relative to
+const ROOT_FONT_SIZE = 16 // px per rem
+const DEFAULT_INFLUENCE = 16.667 // After Effects' own influence for linear keys
+const MIN_INFLUENCE = 0.1
+const WEIGHT_STYLES: Record<number, string> = {
+  100: 'Thin',
+  200: 'ExtraLight',
+  300: 'Light',
+  400: 'Regular',
+  500: 'Medium',
+  600: 'SemiBold',
+  700: 'Bold',
+  800: 'ExtraBold',
+  900: 'Black'
+}
+
+// Builds the composition from `data`; ExtendScript is ES3, so no JSON, let or arrow functions
+const BUILD_SCRIPT = `
+function setKeys(prop, keys) {
+  var spatial = prop.propertyValueType === PropertyValueType.TwoD_SPATIAL ||
+    prop.propertyValueType === PropertyValueType.ThreeD_SPATIAL;
+  var i, d;
+  for (i = 0; i < keys.length; i++) {
+    prop.setValueAtTime(keys[i].t, prop.value instanceof Array ? keys[i].v : keys[i].v[0]);
+  }
+  var dimensions = spatial || !(prop.value instanceof Array) ? 1 : prop.value.length;
+  for (i = 0; i < keys.length; i++) {
+    var index = prop.nearestKeyIndex(keys[i].t);
+    var easeIn = [], easeOut = [];
+    for (d = 0; d < dimensions; d++) {
+      easeIn.push(new KeyframeEase(keys[i].inSpeed[d] || 0, keys[i].inInfluence));
+      easeOut.push(new KeyframeEase(keys[i].outSpeed[d] || 0, keys[i].outInfluence));
+    }
+    prop.setTemporalEaseAtKey(index, easeIn, easeOut);
+    if (spatial) {
+      // Straight paths between keys, like the preview
+      var zero = prop.value.length === 3 ? [0, 0, 0] : [0, 0];
+      prop.setSpatialAutoBezierAtKey(index, false);
+      prop.setSpatialContinuousAtKey(index, false);
+      prop.setSpatialTangentsAtKey(index, zero, zero);
+    }
+  }
+}
+
+app.beginUndoGroup('Typographer Import');
+var comp = app.project.items.addComp(data.name, data.width, data.height, 1, data.duration, data.framerate);
+for (var l = 0; l < data.layers.length; l++) {
+  var word = data.layers[l];
+  var layer = comp.layers.addText(word.text);
+  layer.name = word.name;
+  var textProp = layer.property('Source Text');
+  var doc = textProp.value;
+  doc.resetCharStyle();
+  doc.font = data.text.font;
+  doc.fontSize = data.text.fontSize;
+  doc.applyFill = true;
+  doc.fillColor = data.text.fillColor;
+  doc.applyStroke = false;
+  doc.tracking = data.text.tracking;
+  doc.justification = data.text.justification === 'left' ? ParagraphJustification.LEFT_JUSTIFY
+    : data.text.justification === 'right' ? ParagraphJustification.RIGHT_JUSTIFY
+    : ParagraphJustification.CENTER_JUSTIFY;
+  try {
+    doc.autoLeading = false;
+    doc.leading = data.text.leading;
+  } catch (error) {
+    // Leading is read-only before After Effects CC 2014
+  }
+  textProp.setValue(doc);
+  // Pivot around the text's centre, where the preview scales and rotates it
+  var bounds = layer.sourceRectAtTime(0, false);
+  layer.property('Transform').property('Anchor Point').setValue([bounds.left + bounds.width / 2, bounds.top + bounds.height / 2]);
+  var transform = layer.property('Transform');
+  setKeys(transform.property('Position'), word.keys.position);
+  setKeys(transform.property('Scale'), word.keys.scale);
+  setKeys(transform.property('Rotation'), word.keys.rotation);
+  setKeys(transform.property('Opacity'), word.keys.opacity);
+  layer.inPoint = word.inPoint;
+  layer.outPoint = word.outPoint;
+}
+if (data.background) {
+  var solid = comp.layers.addSolid(data.background, 'Background', data.width, data.height, 1, data.duration);
+  solid.moveToEnd();
+}
+comp.openInViewer();
+app.endUndoGroup();
+`
+
+export class AfterEffectsExporter {
+  /**
+   * Build the ExtendScript that creates the composition. Each word is one layer, so
+   * character and line staggers play as a single movement.
+   */
+  createScript(
+    words: WordData[],
+    typography: TypographySettings,
+    motionSettings: MotionSettings,
+    options: ExportOptions = {}
+  ): string {
+    const { width, height } = lottieConverter.calculateDimensions(options)
+    const { duration = 10, framerate = 30 } = options
+    const stageScale = width / STAGE_WIDTH
+    const fontSize = typography.fontSize * ROOT_FONT_SIZE * stageScale
+    const hasBackground = Boolean(typography.backgroundColor) && typography.backgroundColor !== 'transparent'
+
+    const comp: AfterEffectsComp = {
+      name: 'Typographer Animation',
+      width: Math.round(width),
+      height: Math.round(height),
+      duration,
+      framerate,
+      background: hasBackground ? roundColor(lottieConverter.colorToRgb(typography.backgroundColor)) : null,
+      text: {
+        font: this.getPostScriptName(typography),
+        fontSize: round(fontSize),
+        fillColor: roundColor(lottieConverter.colorToRgb(typography.textColor)),
+        tracking: round(typography.letterSpacing * 1000),
+        leading: round(fontSize * typography.lineHeight),
+        justification: typography.textAlign
+      },
+      layers: words.map((word, index) => {
+        const { phases } = getWordTimeline(word, motionSettings, options.easingCurves ?? [])
+        const timeline = this.getTimelineKeys(phases, word.startTime)
+        const centerX = width / 2 + word.position.x * stageScale
+        const centerY = height / 2 + word.position.y * stageScale
+        const text = applyTextTransform(word.text, typography.textTransform)
+
+        return {
+          name: `Word ${index + 1}: ${word.text}`,
+          text: text.replace(/\r?\n/g, '\r'), // After Effects breaks lines on carriage returns
+          inPoint: word.startTime,
+          outPoint: Math.min(word.startTime + word.duration, duration),
+          keys: {
+            position: this.createKeys(timeline, pose => [centerX + pose.x * stageScale, centerY + pose.y * stageScale], true),
+            scale: this.createKeys(timeline, pose => [pose.scale * 100, pose.scale * 100]),
+            rotation: this.createKeys(timeline, pose => [pose.rotate]),
+            opacity: this.createKeys(timeline, pose => [pose.opacity * 100])
+          }
+        }
+      })
+    }
+
+    // JSON is a valid ES3 literal apart from the line and paragraph separators
+    const data = JSON.stringify(comp).replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029')
+
+    return [
+      '// Generated by Typographer. In After Effects choose File > Scripts > Run Script File.',
+      '(function () {',
+      `var data = ${data};`,
+      BUILD_SCRIPT.trim(),
+      '})();',
+      ''
+    ].join('\n')
+  }
+
+  /**
+   * Export the script as a downloadable .jsx file
+   */
+  export(
+    words: WordData[],
+    typography: TypographySettings,
+    motionSettings: MotionSettings,
+    options: ExportOptions = {}
+  ): VideoExportResult {
+    const blob = new Blob([this.createScript(words, typography, motionSettings, options)], { type: 'text/javascript' })
+    return {
+      blob,
+      url: URL.createObjectURL(blob),
+      filename: `typographer-animation-${Date.now()}.jsx`
+    }
+  }
+
+  /**
+   * Key poses at phase boundaries; keys that share a time collapse into the later one
+   */
+  private getTimelineKeys(phases: MotionPhase[], startTime: number): TimelineKey[] {
+    const keys: TimelineKey[] = []
+    const addKey = (key: TimelineKey) => {
+      const previous = keys[keys.length - 1]
+      if (previous && Math.abs(previous.time - key.time) < 1e-6) {
+        keys[keys.length - 1] = { ...key, easing: key.easing ?? previous.easing }
+      } else {
+        keys.push(key)
+      }
+    }
+
+    phases.forEach((phase, index) => {
+      // A slowed-down phase is cut short when the next one begins
+      const next = phases[index + 1]
+      const end = next ? Math.min(phase.start + phase.duration, next.start) : phase.start + phase.duration
+      addKey({ time: startTime + phase.start, pose: getPoseAt(phases, phase.start), easing: phase.easing })
+      addKey({ time: startTime + end, pose: getPoseAt(phases, end) })
+    })
+
+    return keys
+  }
+
+  /**
+   * Keyframes with temporal ease taken from each segment's cubic-bezier. Speeds are the
+   * curve's slope at either end times the segment's average speed.
+   */
+  private createKeys(timeline: TimelineKey[], value: (pose: Pose) => number[], spatial = false): AfterEffectsKey[] {
+    const keys: AfterEffectsKey[] = timeline.map(({ time, pose }) => ({
+      t: round(time, 4),
+      v: value(pose).map(component => round(component, 3)),
+      inSpeed: [0],
+      inInfluence: DEFAULT_INFLUENCE,
+      outSpeed: [0],
+      outInfluence: DEFAULT_INFLUENCE
+    }))
+
+    for (let i = 0; i < keys.length - 1; i++) {
+      const easing = timeline[i].easing
+      const span = timeline[i + 1].time - timeline[i].time
+      if (!easing || span <= 0) continue
+
+      const [x1, y1, x2, y2] = easing
+      const from = value(timeline[i].pose)
+      const to = value(timeline[i + 1].pose)
+      const change = spatial
+        ? [Math.hypot(...to.map((component, d) => component - from[d]))]
+        : to.map((component, d) => component - from[d])
+      const averageSpeed = change.map(delta => delta / span)
+
+      keys[i].outSpeed = averageSpeed.map(speed => round(x1 > 0 ? speed * y1 / x1 : 0, 3))
+      keys[i].outInfluence = round(Math.max(MIN_INFLUENCE, x1 * 100), 3)
+      keys[i + 1].inSpeed = averageSpeed.map(speed => round(x2 < 1 ? speed * (1 - y2) / (1 - x2) : 0, 3))
+      keys[i + 1].inInfluence = round(Math.max(MIN_INFLUENCE, (1 - x2) * 100), 3)
+    }
+
+    return keys
+  }
+
+  /**
+   * Best guess at the font's PostScript name, e.g. PlayfairDisplay-Bold
+   */
+  private getPostScriptName(typography: TypographySettings): string {
+    const family = typography.fontFamily.split(',')[0].trim().replace(/['"\s]/g, '')
+    const weight = Math.min(900, Math.max(100, Math.round(typography.fontWeight / 100) * 100))
+    return `${family}-${WEIGHT_STYLES[weight]}`
+  }
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+function roundColor([r, g, b]: [number, number, number]): [number, number, number] {
+  return [round(r, 4), round(g, 4), round(b, 4)]
+}
+
+// Export singleton instance
+export const afterEffectsExporter = new AfterEffectsExporter()
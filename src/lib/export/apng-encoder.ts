@@ -0,0 +1,143 @@
+// Animated PNG export: lossless frames with full alpha. The PNG container is written here;
+// compression uses the browser's built-in deflate (CompressionStream).
+
+import { WordData } from '@/types/typographer'
+import { TypographySettings } from '@/types/typography'
+import { MotionSettings } from '@/types/motion'
+import { crc32 } from '@/lib/utils/crc32'
+import { VideoExportResult } from './video-recorder'
+import { renderFrameSequence, getFrameDelay, FrameSequenceOptions } from './frame-renderer'
+
+export interface SceneApngOptions extends FrameSequenceOptions {
+  loopCount?: number // How many times the animation plays: 0 loops forever
+}
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+const COLOR_TYPE_RGBA = 6
+const FILTER_SUB = 1 // Each byte stored as the difference from the pixel to its left
+const DISPOSE_NONE = 0
+const BLEND_SOURCE = 0 // Frames replace the canvas, alpha included, rather than compositing over it
+
+export class SceneApngEncoder {
+  /**
+   * Whether this browser can deflate frames natively
+   */
+  isSupported(): boolean {
+    return typeof CompressionStream !== 'undefined'
+  }
+
+  /**
+   * Render every frame at exact timeline steps and write them into an animated PNG
+   */
+  async encode(
+    words: WordData[],
+    typography: TypographySettings,
+    motionSettings: MotionSettings,
+    options: SceneApngOptions = {}
+  ): Promise<VideoExportResult> {
+    if (!this.isSupported()) {
+      throw new Error('APNG export is not supported in this browser')
+    }
+
+    const width = Math.round(options.width || 800)
+    const height = Math.round(options.height || 600)
+    const framerate = options.framerate || 25
+    const frames: Uint8Array[] = []
+
+    await renderFrameSequence(words, typography, motionSettings, { ...options, width, height, framerate }, async ({ ctx }) => {
+      const { data } = ctx.getImageData(0, 0, width, height)
+      frames.push(await deflate(filterScanlines(data, width, height)))
+    })
+
+    const header = new DataView(new ArrayBuffer(13))
+    header.setUint32(0, width)
+    header.setUint32(4, height)
+    header.setUint8(8, 8) // Bit depth
+    header.setUint8(9, COLOR_TYPE_RGBA)
+
+    const animationControl = new DataView(new ArrayBuffer(8))
+    animationControl.setUint32(0, frames.length)
+    animationControl.setUint32(4, Math.max(0, options.loopCount ?? 0))
+
+    const parts: Uint8Array[] = [PNG_SIGNATURE, createChunk('IHDR', header), createChunk('acTL', animationControl)]
+    let sequence = 0
+
+    frames.forEach((data, index) => {
+      const frameControl = new DataView(new ArrayBuffer(26))
+      frameControl.setUint32(0, sequence++)
+      frameControl.setUint32(4, width)
+      frameControl.setUint32(8, height)
+      frameControl.setUint32(12, 0) // x offset
+      frameControl.setUint32(16, 0) // y offset
+      frameControl.setUint16(20, getFrameDelay(index, framerate)) // Delay numerator (ms)
+      frameControl.setUint16(22, 1000) // Delay denominator
+      frameControl.setUint8(24, DISPOSE_NONE)
+      frameControl.setUint8(25, BLEND_SOURCE)
+      parts.push(createChunk('fcTL', frameControl))
+
+      // The first frame doubles as the still image for viewers without APNG support
+      if (index === 0) {
+        parts.push(createChunk('IDAT', data))
+      } else {
+        const frameData = new Uint8Array(4 + data.length)
+        new DataView(frameData.buffer).setUint32(0, sequence++)
+        frameData.set(data, 4)
+        parts.push(createChunk('fdAT', frameData))
+      }
+    })
+
+    parts.push(createChunk('IEND', new Uint8Array(0)))
+
+    const blob = new Blob(parts as BlobPart[], { type: 'image/apng' })
+    return {
+      blob,
+      url: URL.createObjectURL(blob),
+      filename: `typographer-animation-${Date.now()}.png`
+    }
+  }
+}
+
+/**
+ * Prefix each row with its filter type and store the row with the Sub filter applied
+ */
+function filterScanlines(rgba: Uint8ClampedArray, width: number, height: number): Uint8Array {
+  const stride = width * 4
+  const filtered = new Uint8Array((stride + 1) * height)
+
+  for (let y = 0; y < height; y++) {
+    const source = y * stride
+    const target = y * (stride + 1)
+    filtered[target] = FILTER_SUB
+    for (let x = 0; x < stride; x++) {
+      const left = x >= 4 ? rgba[source + x - 4] : 0
+      filtered[target + 1 + x] = (rgba[source + x] - left) & 0xff
+    }
+  }
+
+  return filtered
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  // 'deflate' produces the zlib stream PNG expects
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Length, type, data and a CRC over type and data
+ */
+function createChunk(type: string, data: Uint8Array | DataView): Uint8Array {
+  const bytes = data instanceof DataView ? new Uint8Array(data.buffer) : data
+  const chunk = new Uint8Array(12 + bytes.length)
+  const view = new DataView(chunk.buffer)
+
+  view.setUint32(0, bytes.length)
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i)
+  chunk.set(bytes, 8)
+  view.setUint32(8 + bytes.length, crc32(chunk.subarray(4, 8 + bytes.length)))
+
+  return chunk
+}
+
+// Export singleton instance
+export const sceneApngEncoder = new SceneApngEncoder()
@@ -0,0 +1,126 @@
+// Font files for exports that embed the project font. Project fonts are Google Fonts, whose
+// static TTF builds are served by the Fontsource CDN; a user-supplied file takes precedence.
+
+import { parse, Font } from 'opentype.js'
+import { TypographySettings } from '@/types/typography'
+
+const FONT_CDN = 'https://cdn.jsdelivr.net/fontsource/fonts'
+const FONT_API = 'https://api.fontsource.org/v1/fonts' // Family metadata, with each subset's Unicode ranges
+const FALLBACK_WEIGHT = 400 // Every family ships a regular weight
+const DEFAULT_SUBSET = 'latin'
+
+// The parts of Fontsource's family metadata used to pick subsets
+interface FontsourceFamily {
+  subsets?: string[]
+  unicodeRange?: Record<string, string> // CSS unicode-range per subset
+}
+
+/**
+ * Fontsource URL of a TTF subset of a family in the given weight
+ */
+export function getFontFileUrl(fontFamily: string, fontWeight: number, subset = DEFAULT_SUBSET): string {
+  const weight = Math.min(900, Math.max(100, Math.round(fontWeight / 100) * 100))
+  return `${FONT_CDN}/${getFontId(fontFamily)}@latest/${subset}-${weight}-normal.ttf`
+}
+
+/**
+ * Load and parse the project font (TTF, OTF or WOFF) for the glyph outlines of `text`: the
+ * user's file if given, otherwise every subset of the family that the text needs
+ */
+export async function loadGlyphFonts(typography: TypographySettings, text: string, file?: Blob): Promise<Font[]> {
+  if (file) {
+    return [parseFont(await file.arrayBuffer())]
+  }
+
+  const subsets = await getSubsetsFor(typography.fontFamily, text)
+  const fonts: Font[] = []
+  for (const subset of subsets) {
+    try {
+      fonts.push(parseFont(await downloadFontFile(typography, subset)))
+    } catch (error) {
+      // Characters of a subset that failed to load are reported as missing glyphs
+      if (subset === DEFAULT_SUBSET) throw error
+    }
+  }
+  return fonts
+}
+
+/**
+ * The project font's file: the user's file if given, otherwise the downloaded Latin subset
+ */
+export async function loadFontFile(typography: TypographySettings, file?: Blob): Promise<ArrayBuffer> {
+  return file ? file.arrayBuffer() : downloadFontFile(typography, DEFAULT_SUBSET)
+}
+
+/**
+ * Download one subset of the project font, falling back to the regular weight when the
+ * family has no file for the chosen one
+ */
+async function downloadFontFile(typography: TypographySettings, subset: string): Promise<ArrayBuffer> {
+  const weights = typography.fontWeight === FALLBACK_WEIGHT ? [FALLBACK_WEIGHT] : [typography.fontWeight, FALLBACK_WEIGHT]
+  for (const weight of weights) {
+    try {
+      const response = await fetch(getFontFileUrl(typography.fontFamily, weight, subset))
+      if (response.ok) {
+        return await response.arrayBuffer()
+      }
+    } catch {
+      // Try the next weight
+    }
+  }
+
+  throw new Error(`Could not download the font file for ${typography.fontFamily}. Choose a font file to embed it.`)
+}
+
+/**
+ * The family's subsets that cover the characters of `text`, Latin first. Without the
+ * family's metadata only Latin is known.
+ */
+async function getSubsetsFor(fontFamily: string, text: string): Promise<string[]> {
+  let family: FontsourceFamily = {}
+  try {
+    const response = await fetch(`${FONT_API}/${getFontId(fontFamily)}`)
+    if (response.ok) {
+      family = await response.json()
+    }
+  } catch {
+    // Fall back to the Latin subset
+  }
+
+  const ranges = Object.entries(family.unicodeRange ?? {})
+    .filter(([subset]) => family.subsets?.includes(subset) ?? true)
+    .map(([subset, range]) => ({ subset, ranges: parseUnicodeRange(range) }))
+  const subsets = new Set([DEFAULT_SUBSET])
+  for (const char of text) {
+    const codePoint = char.codePointAt(0) ?? 0
+    const covering = ranges.find(({ ranges }) => ranges.some(([start, end]) => codePoint >= start && codePoint <= end))
+    if (covering) subsets.add(covering.subset)
+  }
+  return [...subsets]
+}
+
+/**
+ * Code point ranges of a CSS unicode-range value, e.g. 'U+0000-00FF, U+0131, U+4??'
+ */
+function parseUnicodeRange(value: string): Array<[number, number]> {
+  return value.split(',').flatMap(part => {
+    const match = /U\+([0-9a-f?]+)(?:-([0-9a-f]+))?/i.exec(part)
+    if (!match) return []
+    const start = parseInt(match[1].replace(/\?/g, '0'), 16)
+    const end = parseInt(match[2] ?? match[1].replace(/\?/g, 'f'), 16)
+    return [[start, end] as [number, number]]
+  })
+}
+
+function getFontId(fontFamily: string): string {
+  const name = fontFamily.split(',')[0].trim().replace(/['"]/g, '')
+  return name.toLowerCase().replace(/\s+/g, '-')
+}
+
+function parseFont(buffer: ArrayBuffer): Font {
+  try {
+    return parse(buffer)
+  } catch (error) {
+    throw new Error(`Unsupported font file: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
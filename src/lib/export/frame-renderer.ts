@@ -0,0 +1,87 @@
+// Shared frame stepping for image-sequence exports (GIF, WebP, APNG)
+
+import { WordData } from '@/types/typographer'
+import { TypographySettings } from '@/types/typography'
+import { MotionSettings, EasingCurve } from '@/types/motion'
+import { evaluateScene } from '@/lib/animations/scene'
+import { drawScene, loadSceneFont } from '@/lib/animations/scene-renderer'
+
+export interface FrameExportProgress {
+  stage: 'rendering' | 'encoding'
+  progress: number // 0-1 within the stage
+}
+
+export interface FrameSequenceOptions {
+  width?: number
+  height?: number
+  framerate?: number
+  duration?: number // seconds
+  backgroundColor?: string | null // Overrides the typography background; null keeps frames transparent
+  easingCurves?: EasingCurve[] // Custom curves used to resolve easing ids
+  onProgress?: (progress: FrameExportProgress) => void
+}
+
+export interface RenderedFrame {
+  canvas: HTMLCanvasElement
+  ctx: CanvasRenderingContext2D
+  index: number
+  totalFrames: number
+}
+
+/**
+ * Step the timeline at exact 1 / framerate intervals, draw each frame to one reused canvas
+ * and hand it to the encoder before drawing the next
+ */
+export async function renderFrameSequence(
+  words: WordData[],
+  typography: TypographySettings,
+  motionSettings: MotionSettings,
+  options: FrameSequenceOptions,
+  onFrame: (frame: RenderedFrame) => void | Promise<void>
+): Promise<void> {
+  if (typeof document === 'undefined') {
+    throw new Error('Frame export is only available in the browser')
+  }
+
+  const width = Math.round(options.width || 800)
+  const height = Math.round(options.height || 600)
+  const framerate = options.framerate || 25
+  const totalFrames = getTotalFrames(options)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available')
+  }
+
+  await loadSceneFont(typography, width)
+
+  for (let index = 0; index < totalFrames; index++) {
+    const scene = evaluateScene(words, typography, motionSettings, index / framerate, options.easingCurves)
+    drawScene(ctx, scene, typography, { width, height, backgroundColor: options.backgroundColor })
+    await onFrame({ canvas, ctx, index, totalFrames })
+
+    options.onProgress?.({ stage: 'rendering', progress: (index + 1) / totalFrames })
+    // Yield so progress can paint between frames
+    await new Promise(resolve => setTimeout(resolve, 0))
+  }
+}
+
+/**
+ * Number of frames an export produces: exactly duration * framerate, at least one
+ */
+export function getTotalFrames(options: Pick<FrameSequenceOptions, 'framerate' | 'duration'>): number {
+  return Math.max(1, Math.round((options.duration || 5) * (options.framerate || 25)))
+}
+
+/**
+ * Delay of one frame in ms, rounded to the format's time resolution. Rounding each
+ * frame's end time rather than its length keeps the total duration exact.
+ */
+export function getFrameDelay(index: number, framerate: number, resolution = 1): number {
+  const start = Math.round((index * 1000) / framerate / resolution)
+  const end = Math.round(((index + 1) * 1000) / framerate / resolution)
+  return Math.max(1, end - start) * resolution
+}
@@ -0,0 +1,138 @@
+// Frame-exact GIF export: step the timeline, rasterize each frame from the scene and encode with gif.js
+
+import GIF from 'gif.js'
+import NeuQuant from 'gif.js/src/TypedNeuQuant'
+import { WordData } from '@/types/typographer'
+import { TypographySettings } from '@/types/typography'
+import { MotionSettings } from '@/types/motion'
+import { VideoExportResult } from './video-recorder'
+import { renderFrameSequence, getFrameDelay, FrameSequenceOptions } from './frame-renderer'
+
+export type GifPalette = 'global' | 'per-frame'
+
+export interface SceneGifOptions extends FrameSequenceOptions {
+  quality?: number // gif.js sampling interval: 1 is best, 30 fastest
+  palette?: GifPalette // One palette for the whole GIF, or one per frame
+  dither?: boolean
+  transparent?: boolean // Keep the background see-through instead of filling it
+  loopCount?: number // How many times the GIF plays: 0 loops forever
+}
+
+// GIF transparency is a single palette colour. Pixels that are mostly see-through are
+// replaced by this key, which is unlikely to appear in text.
+const TRANSPARENT_KEY = 0xff00ff
+const ALPHA_THRESHOLD = 128
+const DEFAULT_BACKGROUND = '#ffffff'
+// The global palette is built from frames sampled across the whole animation, since the
+// first frame alone is often just the background
+const PALETTE_FRAMES = 16
+const PALETTE_PIXELS = 250000 // Pixels sampled across those frames
+
+export class SceneGifEncoder {
+  /**
+   * Render every frame at exact timeline steps and encode them into an animated GIF
+   */
+  async encode(
+    words: WordData[],
+    typography: TypographySettings,
+    motionSettings: MotionSettings,
+    options: SceneGifOptions = {}
+  ): Promise<VideoExportResult> {
+    const width = Math.round(options.width || 800)
+    const height = Math.round(options.height || 600)
+    const framerate = options.framerate || 25
+    const transparent = options.transparent ?? false
+    const onProgress = options.onProgress ?? (() => {})
+
+    const quality = options.quality ?? 10
+    const globalPalette = options.palette === 'global'
+    const gif = new GIF({
+      workers: 2,
+      workerScript: '/gif.worker.js',
+      width,
+      height,
+      quality,
+      dither: options.dither ? 'FloydSteinberg' : false,
+      // gif.js expects the key as a number (0xRRGGBB) even though its typings say string
+      transparent: transparent ? (TRANSPARENT_KEY as unknown as string) : null,
+      repeat: toRepeat(options.loopCount ?? 0)
+    })
+
+    const backgroundColor = transparent
+      ? null
+      : options.backgroundColor || (typography.backgroundColor !== 'transparent' ? typography.backgroundColor : DEFAULT_BACKGROUND)
+
+    const paletteSamples: number[] = []
+    await renderFrameSequence(words, typography, motionSettings, { ...options, width, height, framerate, backgroundColor }, ({ ctx, index, totalFrames }) => {
+      const image = ctx.getImageData(0, 0, width, height)
+      if (transparent) keyOutTransparency(image)
+      if (globalPalette && index % Math.ceil(totalFrames / PALETTE_FRAMES) === 0) {
+        samplePixels(image, Math.ceil((width * height * PALETTE_FRAMES) / PALETTE_PIXELS), paletteSamples)
+      }
+      // GIF delays are whole centiseconds
+      gif.addFrame(image, { delay: getFrameDelay(index, framerate, 10) })
+    })
+
+    if (globalPalette && paletteSamples.length > 0) {
+      gif.setOptions({ globalPalette: buildPalette(paletteSamples, quality) })
+    }
+
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      gif.on('progress', (percent) => onProgress({ stage: 'encoding', progress: percent }))
+      gif.on('finished', (result) => resolve(result))
+      gif.on('abort', () => reject(new Error('GIF encoding was aborted')))
+      gif.render()
+    })
+
+    return {
+      blob,
+      url: URL.createObjectURL(blob),
+      filename: `typographer-animation-${Date.now()}.gif`
+    }
+  }
+}
+
+/**
+ * Map a play count to the NETSCAPE loop extension: 0 loops forever, -1 omits the extension (play once)
+ */
+function toRepeat(loopCount: number): number {
+  if (loopCount <= 0) return 0
+  return loopCount === 1 ? -1 : loopCount - 1
+}
+
+/**
+ * Append the r, g, b values of every `stride`th pixel of the image
+ */
+function samplePixels(image: ImageData, stride: number, samples: number[]): void {
+  const { data } = image
+  for (let i = 0; i < data.length; i += stride * 4) {
+    samples.push(data[i], data[i + 1], data[i + 2])
+  }
+}
+
+/**
+ * Quantize sampled pixels into a 256-colour palette the way gif.js does for a single frame
+ */
+function buildPalette(samples: number[], quality: number): number[] {
+  const quantizer = new NeuQuant(samples, quality)
+  quantizer.buildColormap()
+  return quantizer.getColormap()
+}
+
+/**
+ * Make every pixel fully opaque or the transparent key colour, since GIF has no partial alpha
+ */
+function keyOutTransparency(image: ImageData): void {
+  const { data } = image
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < ALPHA_THRESHOLD) {
+      data[i] = (TRANSPARENT_KEY >> 16) & 0xff
+      data[i + 1] = (TRANSPARENT_KEY >> 8) & 0xff
+      data[i + 2] = TRANSPARENT_KEY & 0xff
+    }
+    data[i + 3] = 255
+  }
+}
+
+// Export singleton instance
+export const sceneGifEncoder = new SceneGifEncoder()
@@ -0,0 +1,73 @@
+// PNG image-sequence export: every frame as a lossless PNG with alpha, plus a manifest, in one ZIP
+
+import { WordData } from '@/types/typographer'
+import { TypographySettings } from '@/types/typography'
+import { MotionSettings } from '@/types/motion'
+import { VideoExportResult } from './video-recorder'
+import { renderFrameSequence, getTotalFrames, FrameSequenceOptions } from './frame-renderer'
+import { ZipWriter } from './zip-writer'
+
+export interface ImageSequenceManifest {
+  generator: string
+  fps: number
+  duration: number // seconds
+  frameCount: number
+  width: number
+  height: number
+  framePattern: string // printf-style, e.g. frame_%04d.png; numbering starts at 1
+  frames: string[]
+}
+
+export class SceneImageSequenceExporter {
+  /**
+   * Render every frame to PNG and bundle the frames with manifest.json into a ZIP archive
+   */
+  async encode(
+    words: WordData[],
+    typography: TypographySettings,
+    motionSettings: MotionSettings,
+    options: FrameSequenceOptions = {}
+  ): Promise<VideoExportResult> {
+    const width = Math.round(options.width || 800)
+    const height = Math.round(options.height || 600)
+    const framerate = options.framerate || 25
+    const frameCount = getTotalFrames({ ...options, framerate })
+    // At least four digits, so editors sort and detect the sequence
+    const digits = Math.max(4, String(frameCount).length)
+    const zip = new ZipWriter()
+    const frames: string[] = []
+
+    await renderFrameSequence(words, typography, motionSettings, { ...options, width, height, framerate }, async ({ canvas, index }) => {
+      const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+      if (!png) {
+        throw new Error(`Frame ${index + 1} could not be encoded as PNG`)
+      }
+
+      const name = `frame_${String(index + 1).padStart(digits, '0')}.png`
+      zip.addFile(name, new Uint8Array(await png.arrayBuffer()))
+      frames.push(name)
+    })
+
+    const manifest: ImageSequenceManifest = {
+      generator: 'Typographer',
+      fps: framerate,
+      duration: frameCount / framerate,
+      frameCount,
+      width,
+      height,
+      framePattern: `frame_%0${digits}d.png`,
+      frames
+    }
+    zip.addFile('manifest.json', JSON.stringify(manifest, null, 2))
+
+    const blob = zip.toBlob()
+    return {
+      blob,
+      url: URL.createObjectURL(blob),
+      filename: `typographer-frames-${Date.now()}.zip`
+    }
+  }
+}
+
+// Export singleton instance
+export const sceneImageSequenceExporter = new SceneImageSequenceExporter()
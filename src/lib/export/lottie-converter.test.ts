@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest'
+import { Font, Glyph, Path, parse } from 'opentype.js'
+import { WordData } from '@/types/typographer'
+import { BUILT_IN_EASING_CURVES, DEFAULT_MOTION_SETTINGS } from '@/types/motion'
+import { DEFAULT_TYPOGRAPHY } from '@/types/typography'
+import { getPoseAt, getWordTimeline } from '@/lib/animations/scene'
+import { lottieImporter } from '@/lib/import/lottie-importer'
+import { calculateMotionTiming, parseMotionLanguage } from '@/lib/utils/motion-parser'
+import { lottieConverter } from './lottie-converter'
+
+const FRAMERATE = 30
+const STAGE_WIDTH = 800
+
+type Lottie = ReturnType<typeof lottieConverter.convertToLottie>
+type Layer = Lottie['layers'][number]
+type Keyframe = { t: number, s: number[], i: { x: number[], y: number[] }, o: { x: number[], y: number[] } }
+type Property = { k: unknown }
+
+function exportText(text: string, wordGap: number): { words: WordData[], lottie: Lottie } {
+  const words = calculateMotionTiming(parseMotionLanguage(text).words, wordGap, DEFAULT_MOTION_SETTINGS)
+  const lottie = lottieConverter.convertToLottie(words, DEFAULT_TYPOGRAPHY, DEFAULT_MOTION_SETTINGS, {
+    framerate: FRAMERATE,
+    duration: 30,
+    easingCurves: BUILT_IN_EASING_CURVES
+  })
+  return { words, lottie }
+}
+
+/**
+ * A font with a square glyph for each of the characters, read back like a downloaded file
+ */
+function createFont(characters: string): Font {
+  const square = new Path()
+  square.moveTo(0, 0)
+  square.lineTo(500, 0)
+  square.lineTo(500, 500)
+  square.lineTo(0, 500)
+  square.close()
+  const glyphs = [...characters].map(char => new Glyph({ name: char, unicode: char.codePointAt(0), advanceWidth: 600, path: square }))
+  const font = new Font({
+    familyName: 'Squares',
+    styleName: 'Regular',
+    unitsPerEm: 1000,
+    ascender: 800,
+    descender: -200,
+    glyphs: [new Glyph({ name: '.notdef', advanceWidth: 600, path: new Path() }), ...glyphs]
+  })
+  return parse(font.toArrayBuffer())
+}
+
+function keyframes(property: Property | undefined): Keyframe[] {
+  return Array.isArray(property?.k) && typeof property.k[0] === 'object' ? property.k as Keyframe[] : []
+}
+
+/**
+ * Position, scale and opacity keyframes of each piece should hold the preview's pose at
+ * their time and ease towards the next one with the phase's curve
+ */
+function expectLayerMatchesPreview(layer: Layer, word: WordData, lottie: Lottie): void {
+  const stageScale = lottie.w / STAGE_WIDTH
+  const { stagger, pieces, phases } = getWordTimeline(word, DEFAULT_MOTION_SETTINGS, BUILT_IN_EASING_CURVES)
+  const animators = layer.t?.a ?? []
+  // Whole words move the layer around the word position; pieces move by offsets from it
+  const tracks = animators.length > 0
+    ? animators.map(animator => ({ properties: animator.a as Record<string, Property>, rest: [0, 0] }))
+    : [{
+      properties: layer.ks as unknown as Record<string, Property>,
+      rest: [lottie.w / 2 + word.position.x * stageScale, lottie.h / 2 + word.position.y * stageScale]
+    }]
+  expect(tracks).toHaveLength(pieces.length)
+
+  tracks.forEach(({ properties, rest }, piece) => {
+    const expected = {
+      p: (pose: ReturnType<typeof getPoseAt>) => [rest[0] + pose.x * stageScale, rest[1] + pose.y * stageScale],
+      s: (pose: ReturnType<typeof getPoseAt>) => [pose.scale * 100],
+      o: (pose: ReturnType<typeof getPoseAt>) => [pose.opacity * 100]
+    }
+
+    Object.entries(expected).forEach(([key, value]) => {
+      const keys = keyframes(properties[key])
+      expect(keys).toHaveLength(phases.length * 2)
+
+      keys.forEach((keyframe, index) => {
+        const time = keyframe.t / FRAMERATE - word.startTime - piece * stagger
+        value(getPoseAt(phases, time)).forEach((component, axis) => {
+          expect(keyframe.s[axis]).toBeCloseTo(component, 2)
+        })
+        // Every other keyframe starts a phase and carries its easing
+        if (index % 2 === 0) {
+          const [x1, y1, x2, y2] = phases[index / 2].easing
+          expect([keyframe.o.x[0], keyframe.o.y[0], keyframe.i.x[0], keyframe.i.y[0]]).toEqual([x1, y1, x2, y2])
+        }
+      })
+    })
+  })
+}
+
+/**
+ * Layer timing and motion, rounded so float noise from re-timed starts does not count
+ */
+function describeLayers(lottie: Lottie): unknown {
+  const round = (value: unknown): unknown => {
+    if (typeof value === 'number') return Math.round(value * 1000) / 1000
+    if (Array.isArray(value)) return value.map(round)
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, round(entry)]))
+    }
+    return value
+  }
+  return lottie.layers.map(layer => round({ nm: layer.nm, ip: layer.ip, op: layer.op, ks: layer.ks, a: layer.t?.a }))
+}
+
+describe('lottieConverter', () => {
+  const cases = [
+    { name: 'sequential words', text: 'Hello <0.5L1R0.5> big <0.8U1.2D0.4|easeInOutCubic> world <0.3B0.6F0.3|bounce,easeIn>', gap: 0.3 },
+    { name: 'anchored words', text: 'one <0.5F1F0.5@1.5s> two <0.4L1.2R0.3-0.5> three <0.5D1U0.5&> four <0.3B1F0.3+0.4>', gap: 0.2 },
+    { name: 'rotated words', text: 'spin <0.6Lr1Rr0.6> around <0.5Fr1.5Ur0.5|easeOutQuart>', gap: 0.3 },
+    { name: 'characters', text: 'Letters <0.4U1.5D0.4|easeOutCubic/c0.05> drop <0.5F1F0.5/c>', gap: 0.3 },
+    { name: 'lines', text: 'First line\nsecond line <0.5L1R0.5|easeInOutCubic/l0.2> after <0.5F1F0.5>', gap: 0.3 }
+  ]
+
+  cases.forEach(({ name, text, gap }) => {
+    it(`matches the preview for ${name}`, () => {
+      const { words, lottie } = exportText(text, gap)
+      expect(lottie.layers).toHaveLength(words.length)
+      lottie.layers.forEach((layer, index) => expectLayerMatchesPreview(layer, words[index], lottie))
+    })
+
+    it(`re-imports ${name} to the same animation`, () => {
+      const { lottie } = exportText(text, gap)
+      const imported = lottieImporter.importLottie(JSON.parse(JSON.stringify(lottie)), { easingCurves: BUILT_IN_EASING_CURVES })
+      const { lottie: reexported } = exportText(imported.textContent, imported.wordGap)
+
+      expect(describeLayers(reexported)).toEqual(describeLayers(lottie))
+    })
+  })
+
+  it('draws each character with the first font that has it', () => {
+    const words = calculateMotionTiming(parseMotionLanguage('ab你好 <0.5F1F0.5>').words, 0.3, DEFAULT_MOTION_SETTINGS)
+    const lottie = lottieConverter.convertToLottie(words, DEFAULT_TYPOGRAPHY, DEFAULT_MOTION_SETTINGS, {
+      glyphFonts: [createFont('ab'), createFont('你好')]
+    })
+
+    // One square per character, none of them the .notdef glyph's empty outline
+    const contours = lottie.layers.map(layer => layer.shapes?.[0].it?.filter(item => item.ty === 'sh').length)
+    expect(contours).toEqual([4])
+  })
+
+  it('rejects characters that no font has a glyph for', () => {
+    const words = calculateMotionTiming(parseMotionLanguage('ab 你好 <0.5F1F0.5>').words, 0.3, DEFAULT_MOTION_SETTINGS)
+    const convert = () => lottieConverter.convertToLottie(words, DEFAULT_TYPOGRAPHY, DEFAULT_MOTION_SETTINGS, {
+      glyphFonts: [createFont('ab')]
+    })
+    expect(convert).toThrow("no glyphs for '你', '好'")
+  })
+
+  it.each([
+    ['#ff8000', [1, 128 / 255, 0]],
+    ['#fff', [1, 1, 1]],
+    ['rgb(0, 51, 255)', [0, 0.2, 1]],
+    ['rgba(0 51 255 / 0.5)', [0, 0.2, 1]]
+  ])('reads %s', (color, rgb) => {
+    lottieConverter.colorToRgb(color).forEach((channel, index) => expect(channel).toBeCloseTo(rgb[index], 5))
+  })
+
+  it('rejects colours it cannot read instead of exporting black', () => {
+    expect(() => lottieConverter.colorToRgb('not-a-colour')).toThrow("Unsupported color 'not-a-colour'")
+  })
+})
@@ -1,8 +1,12 @@
 // Lottie Animation Converter - Convert Typographer animations to Lottie format
 
-import { WordData, MotionDirection } from '@/types/typographer'
+import type { Font, PathCommand } from 'opentype.js'
+import { WordData } from '@/types/typographer'
 import { TypographySettings } from '@/types/typography'
-import { MotionSettings } from '@/types/motion'
+import { MotionSettings, EasingCurve } from '@/types/motion'
+import { getWordTimeline, MotionPhase, Pose, WordTimeline } from '@/lib/animations/scene'
+import { resolveCssColor } from '@/lib/animations/scene-renderer'
+import { applyTextTransform } from '@/lib/utils/text-parser'
 
 export type AspectRatio = '16:9' | '9:16' | '1:1' | 'custom'
 
@@ -12,8 +16,18 @@ export interface ExportOptions {
   duration?: number
   framerate?: number
   aspectRatio?: AspectRatio
+  easingCurves?: EasingCurve[] // Custom curves used to resolve easing ids
+  glyphFonts?: Font[] // Draw text as glyph outlines from these fonts, so players need no font installed
 }
 
+const STAGE_WIDTH = 800 // Preview width that typography sizes and motion offsets are relative to
+const ROOT_FONT_SIZE = 16 // px per rem
+const FONT_NAME = 'TypographerFont'
+const FONT_ASCENT = 75 // % of the font size; lottie-web uses it to place the first baseline
+// Lottie text sits on its baseline; the preview centres text vertically like textBaseline 'middle'
+const BASELINE_TO_MIDDLE = 0.35 // em
+const JUSTIFY_CENTER = 2
+
 interface LottieAnimation {
   v: string // Lottie version
   fr: number // Framerate
@@ -24,6 +38,7 @@ interface LottieAnimation {
   nm: string // Name
   ddd: number // 3D flag (0 = 2D)
   assets: any[]
+  fonts: { list: LottieFont[] }
   layers: LottieLayer[]
   markers?: any[]
   meta?: {
@@ -34,6 +49,15 @@ interface LottieAnimation {
   }
 }
 
+interface LottieFont {
+  fName: string // Name text documents refer to
+  fFamily: string // CSS font-family
+  fStyle: string
+  fWeight: string
+  ascent: number
+  origin: number // 0 = installed or web font, loaded by the page
+}
+
 interface LottieLayer {
   ddd: number // 3D flag
   ind: number // Index
@@ -66,44 +90,76 @@ interface LottieProperty<T> {
   ix?: number // Property index
 }
 
+// Keyframe values are arrays; scalars are wrapped in a one-element array
+type LottieValue<T> = T extends number ? [number] : T
+
 interface LottieKeyframe<T> {
   i: { x: number[], y: number[] } // In tangent
   o: { x: number[], y: number[] } // Out tangent
   t: number // Time
-  s: T[] // Start value
-  e?: T[] // End value (optional for last keyframe)
+  s: LottieValue<T> // Start value
+  e?: LottieValue<T> // End value (optional for last keyframe)
 }
 
 interface LottieTextData {
   d: {
-    k: LottieTextDocument[]
+    k: Array<{ s: LottieTextDocument, t: number }> // Text document keyframes
   }
   p: any // Path options
   m: any // More options
-  a: any[] // Animators
+  a: LottieTextAnimator[] // Animators
 }
 
 interface LottieTextDocument {
-  s: { // Style
-    f: string // Font family
-    fc: [number, number, number] // Fill color
-    fs: number // Font size
-    t: number // Tracking
-    lh: number // Line height
-    ls: number // Letter spacing
-  }
+  f: string // Font name from the fonts list
+  fc: [number, number, number] // Fill color, 0-1
+  s: number // Font size (px)
   t: string // Text content
+  j: number // Justification (0 = left, 1 = right, 2 = center)
+  tr: number // Tracking, in thousandths of an em
+  lh: number // Line height (px)
+  ls: number // Baseline shift
+}
+
+interface LottieTextAnimator {
+  nm: string // Name
+  s: { // Range selector
+    t: number // Expressible flag
+    b: number // Based on (1 = characters, 4 = lines)
+    rn: number // Randomize order
+    sh: number // Shape (1 = square, 2 = ramp up, 3 = ramp down)
+    r: number // Range units (1 = percentage, 2 = index)
+    a: LottieProperty<number> // Amount
+    s: LottieProperty<number> // Start
+    e: LottieProperty<number> // End
+    o: LottieProperty<number> // Offset
+    ne: LottieProperty<number> // Ease low
+    xe: LottieProperty<number> // Ease high
+  }
+  a: { // Animated properties, applied in proportion to each unit's selection
+    p: LottieProperty<[number, number, number]>
+    s: LottieProperty<[number, number, number]>
+    r: LottieProperty<number>
+    o: LottieProperty<number>
+  }
 }
 
 interface LottieShapeElement {
   ty: string // Type ('gr' = group, 'sh' = shape, 'fl' = fill, 'st' = stroke)
   nm: string // Name
-  it?: LottieShapeElement[] // Items (for groups)
+  it?: Array<LottieShapeElement | LottieShapeTransform> // Items (for groups, ending with their transform)
   ks?: LottieShapeKeyframes // Keyframes (for shapes)
   c?: LottieProperty<[number, number, number]> // Color (for fills/strokes)
   o?: LottieProperty<number> // Opacity
   w?: LottieProperty<number> // Width (for strokes)
   d?: LottieProperty<[number, number]> // Path data
+  r?: number // Fill rule (1 = non-zero, 2 = even-odd)
+}
+
+// Closing item of a group ('tr')
+interface LottieShapeTransform extends LottieTransform {
+  ty: 'tr'
+  nm: string
 }
 
 interface LottieShapeKeyframes {
@@ -111,6 +167,13 @@ interface LottieShapeKeyframes {
   k: any // Keyframes or value
 }
 
+interface LottieBezier {
+  i: [number, number][] // In tangents, relative to each vertex
+  o: [number, number][] // Out tangents, relative to each vertex
+  v: [number, number][] // Vertices
+  c: boolean // Closed
+}
+
 class LottieConverter {
   /**
    * Convert Typographer animation to Lottie format
@@ -121,17 +184,8 @@ class LottieConverter {
     motionSettings: MotionSettings,
     options: ExportOptions = {}
   ): LottieAnimation {
-    console.log('convertToLottie called with:', { words, typography, motionSettings, options })
-    
-    // Ensure words is an array
+    // An empty animation is still valid Lottie
     const wordsArray = Array.isArray(words) ? words : []
-    
-    if (wordsArray.length === 0) {
-      console.warn('No words provided for Lottie conversion')
-      // Return a basic empty animation instead of throwing
-    }
-    
-    console.log('Processing words array:', wordsArray)
 
     // Calculate dimensions based on aspect ratio
     const { width, height } = this.calculateDimensions(options)
@@ -140,7 +194,7 @@ class LottieConverter {
       framerate = 30
     } = options
 
-    const totalFrames = duration * framerate
+    const totalFrames = Math.round(duration * framerate)
 
     // Create base Lottie animation structure
     const lottieAnimation: LottieAnimation = {
@@ -153,6 +207,8 @@ class LottieConverter {
       nm: "Typographer Animation",
       ddd: 0, // 2D animation
       assets: [],
+      // Glyph outlines need no font; text layers name the project font
+      fonts: { list: options.glyphFonts ? [] : [this.createFont(typography)] },
       layers: [],
       markers: [],
       meta: {
@@ -163,32 +219,57 @@ class LottieConverter {
       }
     }
 
+    // Lottie draws the first layer on top, so the words come first and the background last
+    const addLayer = (layer: LottieLayer) => lottieAnimation.layers.push({ ...layer, ind: lottieAnimation.layers.length + 1 })
+
+    // Outlines of missing characters would be the font's .notdef boxes
+    if (options.glyphFonts) {
+      const text = wordsArray.map(word => applyTextTransform(word.text, typography.textTransform)).join('')
+      const missing = this.findMissingGlyphs(options.glyphFonts, text)
+      if (missing.length > 0) {
+        throw new Error(`The font has no glyphs for ${missing.map(char => `'${char}'`).join(', ')}. Choose a font file that includes them.`)
+      }
+    }
+
+    // Convert each word to a text layer, or to shape layers of glyph outlines
+    wordsArray.forEach((word, index) => {
+      const layers = options.glyphFonts
+        ? this.createGlyphLayers(
+          word,
+          index,
+          options.glyphFonts,
+          typography,
+          motionSettings,
+          options.easingCurves ?? [],
+          framerate,
+          totalFrames,
+          width,
+          height
+        )
+        : [this.createTextLayer(
+          word,
+          index,
+          typography,
+          motionSettings,
+          options.easingCurves ?? [],
+          framerate,
+          totalFrames,
+          width,
+          height
+        )]
+      layers.forEach(addLayer)
+    })
+
     // Add background layer if background color is not transparent
     if (typography.backgroundColor && typography.backgroundColor !== 'transparent') {
-      const backgroundLayer = this.createBackgroundLayer(
+      addLayer(this.createBackgroundLayer(
         typography.backgroundColor,
         totalFrames,
         width,
         height
-      )
-      lottieAnimation.layers.push(backgroundLayer)
+      ))
     }
 
-    // Convert each word to a text layer
-    const hasBackground = typography.backgroundColor && typography.backgroundColor !== 'transparent'
-    wordsArray.forEach((word, index) => {
-      const layer = this.createTextLayer(
-        word,
-        index + (hasBackground ? 1 : 0), // Offset index if background exists
-        typography,
-        motionSettings,
-        totalFrames,
-        width,
-        height
-      )
-      lottieAnimation.layers.push(layer)
-    })
-
     return lottieAnimation
   }
 
@@ -201,8 +282,9 @@ class LottieConverter {
     width: number,
     height: number
   ): LottieLayer {
-    const bgColor = this.hexToRgb(backgroundColor)
-    
+    const [r, g, b] = this.colorToRgb(backgroundColor)
+    const toHex = (channel: number) => Math.round(channel * 255).toString(16).padStart(2, '0')
+
     return {
       ddd: 0,
       ind: 0, // Background layer gets index 0
@@ -221,7 +303,7 @@ class LottieConverter {
       op: totalFrames,
       st: 0,
       bm: 0,
-      sc: backgroundColor.startsWith('#') ? backgroundColor : `#${backgroundColor}`, // Solid color
+      sc: `#${toHex(r)}${toHex(g)}${toHex(b)}`, // Solid color
       sh: height,
       sw: width
     } as LottieLayer & { sc: string, sh: number, sw: number }
@@ -235,28 +317,43 @@ class LottieConverter {
     index: number,
     typography: TypographySettings,
     motionSettings: MotionSettings,
+    easingCurves: EasingCurve[],
+    framerate: number,
     totalFrames: number,
     canvasWidth: number,
     canvasHeight: number
   ): LottieLayer {
-    // Convert CSS color to RGB array
-    const textColor = this.hexToRgb(typography.color)
-    
-    // Calculate timing based on motion settings and word index
-    const wordDelay = (word.startDelay || 0) * totalFrames / 100
-    const wordDuration = (word.duration || motionSettings.duration) * totalFrames / 100
-    const startFrame = wordDelay
-    const endFrame = Math.min(startFrame + wordDuration, totalFrames)
-
-    // Create animated properties based on motion direction
-    const animatedTransform = this.createAnimatedTransform(
-      word,
-      motionSettings,
-      startFrame,
-      endFrame,
-      canvasWidth,
-      canvasHeight
-    )
+    const stageScale = canvasWidth / STAGE_WIDTH
+    const fontSize = typography.fontSize * ROOT_FONT_SIZE * stageScale
+    const lineHeight = fontSize * typography.lineHeight
+
+    // Layers run on the preview's clock: the same timeline the preview evaluates, in frames
+    const timeline = getWordTimeline(word, motionSettings, easingCurves)
+    const startFrame = word.startTime * framerate
+    const endFrame = Math.min((word.startTime + word.duration) * framerate, totalFrames)
+    const toFrame = (seconds: number) => startFrame + seconds * framerate
+    const { unit, pieces: units } = timeline
+
+    // Characters and lines animate through text animators on a static layer
+    const isSplit = units.length > 1
+
+    // The anchor is the middle of the text block, so layers rest centred on the word position
+    const lineCount = unit === 'line' ? units.length : 1
+    const anchor: [number, number] = [0, (lineCount - 1) * lineHeight / 2 - fontSize * BASELINE_TO_MIDDLE]
+    const animatedTransform = isSplit
+      ? this.createStaticTransform(
+        anchor,
+        canvasWidth / 2 + word.position.x * stageScale,
+        canvasHeight / 2 + word.position.y * stageScale
+      )
+      : this.createAnimatedTransform(
+        timeline.phases,
+        toFrame,
+        anchor,
+        // Rest at the word's layout position, scaled from the 800px preview stage
+        [canvasWidth / 2 + word.position.x * stageScale, canvasHeight / 2 + word.position.y * stageScale],
+        stageScale
+      )
 
     // Text layer
     const layer: LottieLayer = {
@@ -275,19 +372,24 @@ class LottieConverter {
         d: {
           k: [{
             s: {
-              f: typography.fontFamily || "Arial",
-              fc: textColor,
-              fs: typography.fontSize || 48,
-              t: 0, // Tracking
-              lh: typography.lineHeight ? typography.lineHeight * (typography.fontSize || 48) : (typography.fontSize || 48) * 1.2,
-              ls: typography.letterSpacing || 0
+              f: FONT_NAME,
+              fc: this.colorToRgb(typography.textColor),
+              s: fontSize,
+              // Lottie breaks lines on \r
+              t: applyTextTransform(unit === 'line' ? units.join('\r') : word.text, typography.textTransform),
+              j: JUSTIFY_CENTER,
+              tr: typography.letterSpacing * 1000,
+              lh: lineHeight,
+              ls: 0
             },
-            t: word.text
+            t: 0
           }]
         },
         p: {}, // Path options
         m: {}, // More options
-        a: [] // Animators for text animations
+        a: isSplit
+          ? this.createUnitAnimators(timeline, toFrame, stageScale)
+          : [] // Whole words animate through the layer transform
       }
     }
 
@@ -295,203 +397,332 @@ class LottieConverter {
   }
 
   /**
-   * Create animated transform properties
+   * Create shape layers that draw the word's glyph outlines. Split words get a layer per
+   * character or line, each playing the timeline from its stagger offset like the preview.
    */
-  private createAnimatedTransform(
+  private createGlyphLayers(
     word: WordData,
+    index: number,
+    fonts: Font[],
+    typography: TypographySettings,
     motionSettings: MotionSettings,
-    startFrame: number,
-    endFrame: number,
+    easingCurves: EasingCurve[],
+    framerate: number,
+    totalFrames: number,
     canvasWidth: number,
     canvasHeight: number
-  ): LottieTransform {
-    const centerX = canvasWidth / 2
-    const centerY = canvasHeight / 2
+  ): LottieLayer[] {
+    const stageScale = canvasWidth / STAGE_WIDTH
+    const fontSize = typography.fontSize * ROOT_FONT_SIZE * stageScale
+    const lineHeight = fontSize * typography.lineHeight
+    const renderOptions = { letterSpacing: typography.letterSpacing }
+    const color = this.colorToRgb(typography.textColor)
+
+    const { unit, pieces, stagger, phases } = getWordTimeline(word, motionSettings, easingCurves)
+    const startFrame = word.startTime * framerate
+    const endFrame = Math.min((word.startTime + word.duration) * framerate, totalFrames)
+    const centerX = canvasWidth / 2 + word.position.x * stageScale
+    const centerY = canvasHeight / 2 + word.position.y * stageScale
+
+    // Capitalize only applies to the first character of a split word
+    const texts = pieces.map((piece, i) => applyTextTransform(
+      piece,
+      unit === 'character' && i > 0 && typography.textTransform === 'capitalize' ? 'none' : typography.textTransform
+    ))
+    const advance = (text: string) => this.splitGlyphRuns(fonts, text)
+      .reduce((width, run) => width + run.font.getAdvanceWidth(run.text, fontSize, renderOptions), 0)
+    const totalWidth = advance(texts.join(''))
+
+    const layers: LottieLayer[] = []
+    texts.forEach((text, i) => {
+      // Where the piece rests relative to the word centre, as in the scene's piece offsets
+      const offsetX = unit === 'character' ? advance(texts.slice(0, i).join('')) + advance(text) / 2 - totalWidth / 2 : 0
+      const offsetY = unit === 'line' ? (i - (texts.length - 1) / 2) * lineHeight : 0
+
+      // Drawn centred on the layer origin, with the baseline below the vertical middle
+      let x = -advance(text) / 2
+      const commands = this.splitGlyphRuns(fonts, text).flatMap(run => {
+        const path = run.font.getPath(run.text, x, fontSize * BASELINE_TO_MIDDLE, fontSize, renderOptions)
+        x += run.font.getAdvanceWidth(run.text, fontSize, renderOptions)
+        return path.commands
+      })
+      const contours = this.toBezierContours(commands)
+      if (contours.length === 0) return // Spaces have no outline
+
+      layers.push({
+        ddd: 0,
+        ind: 0, // Numbered when added to the animation
+        ty: 4, // Shape layer type
+        nm: pieces.length > 1 ? `Word ${index + 1}: ${word.text} (${unit} ${i + 1})` : `Word ${index + 1}: ${word.text}`,
+        sr: 1,
+        ks: this.createAnimatedTransform(
+          phases,
+          seconds => startFrame + (seconds + i * stagger) * framerate,
+          [0, 0],
+          [centerX + offsetX, centerY + offsetY],
+          stageScale
+        ),
+        ao: 0,
+        ip: startFrame,
+        op: endFrame,
+        st: 0,
+        bm: 0,
+        shapes: [{
+          ty: 'gr',
+          nm: 'Glyphs',
+          it: [
+            ...contours.map((contour, c) => ({ ty: 'sh', nm: `Contour ${c + 1}`, ks: { a: 0, k: contour } })),
+            { ty: 'fl', nm: 'Fill', c: { a: 0, k: color }, o: { a: 0, k: 100 }, r: 1 },
+            { ty: 'tr' as const, nm: 'Transform', ...this.createStaticTransform([0, 0], 0, 0) }
+          ]
+        }]
+      })
+    })
 
-    // Calculate motion based on direction
-    const { startPos, endPos } = this.calculateMotionPath(
-      word.motionDirection || motionSettings.direction,
-      centerX,
-      centerY,
-      canvasWidth,
-      canvasHeight
-    )
+    return layers
+  }
 
-    // Create easing curve
-    const easing = this.createEasingCurve(motionSettings.easing)
+  /**
+   * Characters of the text that none of the fonts has a glyph for; whitespace needs none
+   */
+  private findMissingGlyphs(fonts: Font[], text: string): string[] {
+    const missing = new Set<string>()
+    for (const char of text) {
+      if (!/\s/.test(char) && !fonts.some(font => font.hasChar(char))) {
+        missing.add(char)
+      }
+    }
+    return [...missing]
+  }
 
-    return {
-      a: { // Anchor point
-        a: 0,
-        k: [centerX / 2, centerY / 2], // Static anchor point
-        ix: 1
-      },
-      p: { // Position
-        a: 1, // Animated
-        k: [
-          {
-            i: easing.i,
-            o: easing.o,
-            t: startFrame,
-            s: [startPos.x, startPos.y],
-            e: [endPos.x, endPos.y]
-          },
-          {
-            i: { x: [0.833], y: [0.833] },
-            o: { x: [0.167], y: [0.167] },
-            t: endFrame,
-            s: [endPos.x, endPos.y]
-          }
-        ],
-        ix: 2
-      },
-      s: { // Scale
-        a: 1, // Animated for entrance effect
-        k: [
-          {
-            i: easing.i,
-            o: easing.o,
-            t: startFrame,
-            s: [0, 0], // Start from zero scale
-            e: [100, 100] // End at full scale
-          },
-          {
-            i: { x: [0.833], y: [0.833] },
-            o: { x: [0.167], y: [0.167] },
-            t: endFrame,
-            s: [100, 100]
-          }
-        ],
-        ix: 3
-      },
-      r: { // Rotation
-        a: 0,
-        k: 0, // No rotation by default
-        ix: 4
-      },
-      o: { // Opacity
-        a: 1, // Animated
-        k: [
-          {
-            i: { x: [0.833], y: [0.833] },
-            o: { x: [0.167], y: [0.167] },
-            t: startFrame,
-            s: [0], // Start transparent
-            e: [100] // End opaque
-          },
-          {
-            i: { x: [0.833], y: [0.833] },
-            o: { x: [0.167], y: [0.167] },
-            t: endFrame - 10, // Start fading 10 frames before end
-            s: [100],
-            e: [0] // End transparent
-          },
-          {
-            i: { x: [0.833], y: [0.833] },
-            o: { x: [0.167], y: [0.167] },
-            t: endFrame,
-            s: [0]
-          }
-        ],
-        ix: 5
+  /**
+   * Split text into runs drawn by the first font that has each character, e.g. the Latin
+   * and Cyrillic subsets of one family. Whitespace stays in the current run.
+   */
+  private splitGlyphRuns(fonts: Font[], text: string): Array<{ font: Font, text: string }> {
+    const runs: Array<{ font: Font, text: string }> = []
+    for (const char of text) {
+      const current = runs[runs.length - 1]
+      const font = /\s/.test(char) && current
+        ? current.font
+        : fonts.find(candidate => candidate.hasChar(char)) ?? fonts[0]
+      if (current?.font === font) {
+        current.text += char
+      } else {
+        runs.push({ font, text: char })
       }
     }
+    return runs
   }
 
   /**
-   * Calculate motion path based on direction
+   * Convert an outline's path commands into closed Lottie bezier contours.
+   * Quadratic curves (TrueType) are raised to cubics.
    */
-  private calculateMotionPath(
-    direction: MotionDirection,
-    centerX: number,
-    centerY: number,
-    canvasWidth: number,
-    canvasHeight: number
-  ): { startPos: { x: number, y: number }, endPos: { x: number, y: number } } {
-    const offset = Math.min(canvasWidth, canvasHeight) * 0.3
-
-    switch (direction) {
-      case 'left':
-        return {
-          startPos: { x: centerX - offset, y: centerY },
-          endPos: { x: centerX, y: centerY }
-        }
-      case 'right':
-        return {
-          startPos: { x: centerX + offset, y: centerY },
-          endPos: { x: centerX, y: centerY }
-        }
-      case 'up':
-        return {
-          startPos: { x: centerX, y: centerY - offset },
-          endPos: { x: centerX, y: centerY }
+  private toBezierContours(commands: PathCommand[]): LottieBezier[] {
+    const contours: LottieBezier[] = []
+    let contour: LottieBezier | null = null
+
+    const last = () => contour!.v[contour!.v.length - 1]
+    const addVertex = (x: number, y: number, inX = x, inY = y) => {
+      contour!.v.push([x, y])
+      contour!.i.push([inX - x, inY - y])
+      contour!.o.push([0, 0])
+    }
+    const setOutTangent = (x: number, y: number) => {
+      const [vx, vy] = last()
+      contour!.o[contour!.o.length - 1] = [x - vx, y - vy]
+    }
+
+    commands.forEach(command => {
+      switch (command.type) {
+        case 'M':
+          contour = { i: [], o: [], v: [], c: true }
+          contours.push(contour)
+          addVertex(command.x, command.y)
+          break
+        case 'L':
+          addVertex(command.x, command.y)
+          break
+        case 'C':
+          setOutTangent(command.x1, command.y1)
+          addVertex(command.x, command.y, command.x2, command.y2)
+          break
+        case 'Q': {
+          const [sx, sy] = last()
+          setOutTangent(sx + (command.x1 - sx) * 2 / 3, sy + (command.y1 - sy) * 2 / 3)
+          addVertex(command.x, command.y, command.x + (command.x1 - command.x) * 2 / 3, command.y + (command.y1 - command.y) * 2 / 3)
+          break
         }
-      case 'down':
-        return {
-          startPos: { x: centerX, y: centerY + offset },
-          endPos: { x: centerX, y: centerY }
+        case 'Z': {
+          // A closing vertex on top of the first one would leave a zero-length segment
+          const [fx, fy] = contour!.v[0]
+          const [lx, ly] = last()
+          if (contour!.v.length > 1 && Math.abs(fx - lx) < 1e-6 && Math.abs(fy - ly) < 1e-6) {
+            contour!.i[0] = contour!.i.pop()!
+            contour!.v.pop()
+            contour!.o.pop()
+          }
+          break
         }
-      case 'fade':
-      default:
-        return {
-          startPos: { x: centerX, y: centerY },
-          endPos: { x: centerX, y: centerY }
+      }
+    })
+
+    return contours.filter(({ v }) => v.length > 2)
+  }
+
+  /**
+   * Create an animator per character or line, each selecting only its own unit and playing
+   * the timeline from its stagger offset with each phase's easing, like the preview
+   */
+  private createUnitAnimators(
+    { unit, pieces: units, stagger, phases }: WordTimeline,
+    toFrame: (seconds: number) => number,
+    stageScale: number
+  ): LottieTextAnimator[] {
+    let index = 0 // Lottie counts UTF-16 characters, so a grapheme can span several
+    return units.map((text, i) => {
+      const start = index
+      index += unit === 'line' ? 1 : text.length
+      const unitFrame = (seconds: number) => toFrame(seconds + i * stagger)
+
+      return {
+        nm: `${unit === 'line' ? 'Line' : 'Character'} ${i + 1}`,
+        s: {
+          t: 0,
+          b: unit === 'line' ? 4 : 1,
+          rn: 0,
+          sh: 1, // Square: the unit is fully selected
+          r: 2,
+          a: { a: 0, k: 100 },
+          s: { a: 0, k: start },
+          e: { a: 0, k: index },
+          o: { a: 0, k: 0 },
+          ne: { a: 0, k: 0 },
+          xe: { a: 0, k: 0 }
+        },
+        // Animator values are offsets from the rest pose, like the scene's poses
+        a: {
+          p: this.createPhaseProperty<[number, number, number]>(phases, unitFrame, pose => [pose.x * stageScale, pose.y * stageScale, 0], 2),
+          s: this.createPhaseProperty<[number, number, number]>(phases, unitFrame, pose => [pose.scale * 100, pose.scale * 100, 100], 3),
+          r: this.createPhaseProperty<number>(phases, unitFrame, pose => [pose.rotate], 4),
+          o: this.createPhaseProperty<number>(phases, unitFrame, pose => [pose.opacity * 100], 5)
         }
+      }
+    })
+  }
+
+  /**
+   * Transform for a layer that stays put while its text animators do the moving
+   */
+  private createStaticTransform(anchor: [number, number], centerX: number, centerY: number): LottieTransform {
+    return {
+      a: { a: 0, k: anchor, ix: 1 },
+      p: { a: 0, k: [centerX, centerY], ix: 2 },
+      s: { a: 0, k: [100, 100], ix: 3 },
+      r: { a: 0, k: 0, ix: 4 },
+      o: { a: 0, k: 100, ix: 5 }
     }
   }
 
   /**
-   * Create easing curve for Lottie
+   * Create animated transform properties that play a timeline around a rest position
    */
-  private createEasingCurve(easing: string): { i: { x: number[], y: number[] }, o: { x: number[], y: number[] } } {
-    switch (easing) {
-      case 'easeIn':
-        return {
-          i: { x: [0.42], y: [0] },
-          o: { x: [1], y: [1] }
-        }
-      case 'easeOut':
-        return {
-          i: { x: [0], y: [0] },
-          o: { x: [0.58], y: [1] }
-        }
-      case 'easeInOut':
-        return {
-          i: { x: [0.42], y: [0] },
-          o: { x: [0.58], y: [1] }
-        }
-      case 'bounce':
-        return {
-          i: { x: [0.68], y: [-0.55] },
-          o: { x: [0.265], y: [1.55] }
-        }
-      case 'elastic':
-        return {
-          i: { x: [0.25], y: [0.46] },
-          o: { x: [0.45], y: [0.94] }
-        }
-      case 'linear':
-      default:
-        return {
-          i: { x: [0.25], y: [0.25] },
-          o: { x: [0.75], y: [0.75] }
-        }
+  private createAnimatedTransform(
+    phases: MotionPhase[],
+    toFrame: (seconds: number) => number,
+    anchor: [number, number],
+    [centerX, centerY]: [number, number],
+    stageScale: number
+  ): LottieTransform {
+    return {
+      a: { a: 0, k: anchor, ix: 1 }, // Scale and rotation pivot around the text's centre
+      p: this.createPhaseProperty<[number, number]>(phases, toFrame, pose => [centerX + pose.x * stageScale, centerY + pose.y * stageScale], 2),
+      s: this.createPhaseProperty<[number, number]>(phases, toFrame, pose => [pose.scale * 100, pose.scale * 100], 3),
+      r: this.createPhaseProperty<number>(phases, toFrame, pose => [pose.rotate], 4),
+      o: this.createPhaseProperty<number>(phases, toFrame, pose => [pose.opacity * 100], 5)
     }
   }
 
   /**
-   * Convert hex color to RGB array
+   * Keyframes that play each phase with its easing and hold the pose between phases
    */
-  private hexToRgb(hex: string): [number, number, number] {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex)
-    if (result) {
-      return [
-        parseInt(result[1], 16) / 255,
-        parseInt(result[2], 16) / 255,
-        parseInt(result[3], 16) / 255
-      ]
+  private createPhaseProperty<T>(
+    phases: MotionPhase[],
+    toFrame: (seconds: number) => number,
+    value: (pose: Pose) => LottieValue<T>,
+    ix: number
+  ): LottieProperty<T> {
+    const hold = { i: { x: [1], y: [1] }, o: { x: [0], y: [0] } }
+    const keyframes: LottieKeyframe<T>[] = []
+
+    phases.forEach((phase, index) => {
+      const next = phases[index + 1]
+      keyframes.push({
+        ...this.createEasingCurve(phase.easing),
+        t: toFrame(phase.start),
+        s: value(phase.from),
+        e: value(phase.to)
+      })
+      // A slowed-down phase is cut short when the next one begins
+      const end = phase.start + phase.duration
+      keyframes.push({
+        ...hold,
+        t: toFrame(next ? Math.min(end, next.start) : end),
+        s: value(phase.to),
+        ...(next ? { e: value(next.from) } : {})
+      })
+    })
+
+    return { a: 1, k: keyframes, ix }
+  }
+
+  /**
+   * Convert cubic-bezier values to Lottie keyframe tangents
+   * (o is the out-tangent of the keyframe, i the in-tangent of the next one)
+   */
+  private createEasingCurve(
+    [x1, y1, x2, y2]: [number, number, number, number]
+  ): { i: { x: number[], y: number[] }, o: { x: number[], y: number[] } } {
+    return {
+      o: { x: [x1], y: [y1] },
+      i: { x: [x2], y: [y2] }
     }
-    return [0, 0, 0] // Default to black
+  }
+
+  /**
+   * The project font; the player resolves the family like the page does
+   */
+  private createFont(typography: TypographySettings): LottieFont {
+    return {
+      fName: FONT_NAME,
+      fFamily: typography.fontFamily,
+      fStyle: typography.fontWeight >= 600 ? 'Bold' : 'Regular',
+      fWeight: String(typography.fontWeight),
+      ascent: FONT_ASCENT,
+      origin: 0
+    }
+  }
+
+  /**
+   * Convert a CSS color to a 0-1 RGB array; colors are resolved by the page first, so any
+   * color it accepts works. Throws for colors that do not resolve to hex or rgb().
+   */
+  colorToRgb(color: string): [number, number, number] {
+    const resolved = resolveCssColor(color).trim()
+
+    const hex = /^#?([a-f\d]{3}|[a-f\d]{6})$/i.exec(resolved)
+    if (hex) {
+      const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1]
+      return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16) / 255) as [number, number, number]
+    }
+
+    const rgb = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)/i.exec(resolved)
+    if (rgb) {
+      return [rgb[1], rgb[2], rgb[3]].map(channel => Math.min(255, parseFloat(channel)) / 255) as [number, number, number]
+    }
+
+    throw new Error(`Unsupported color '${color}': use a hex, rgb(), hsl() or named color`)
   }
 
   /**
@@ -0,0 +1,187 @@
+// SVG export: a standalone SVG whose words animate with CSS @keyframes (no SMIL, no script),
+// for landing pages that should not load a Lottie runtime
+
+import { WordData } from '@/types/typographer'
+import { TypographySettings } from '@/types/typography'
+import { MotionSettings, EasingCurve } from '@/types/motion'
+import { getWordTimeline, getPieceOffsets, getPoseAt, Pose } from '@/lib/animations/scene'
+import { resolveCssColor } from '@/lib/animations/scene-renderer'
+import { createLayoutConfig } from '@/lib/utils/positioning'
+import { applyTextTransform } from '@/lib/utils/text-parser'
+import { VideoExportResult } from './video-recorder'
+
+export interface SvgExportOptions {
+  width?: number
+  height?: number
+  duration?: number // Seconds; every word's keyframes are laid out on this one cycle
+  loop?: boolean // Repeat forever instead of playing once
+  easingCurves?: EasingCurve[]
+  font?: ArrayBuffer // Font file to embed, so the SVG renders the same without the font installed
+}
+
+interface KeyframeStop {
+  time: number // Seconds from the start of the animation
+  pose: Pose
+  easing?: [number, number, number, number] // Timing function towards the next stop
+}
+
+const STAGE_WIDTH = 800 // Preview width that typography sizes and motion offsets are relative to
+const ROOT_FONT_SIZE = 16 // px per rem
+const CUT = 0.001 // Seconds between the two stops of an instant change
+const FONT_FAMILY = 'TypographerFont'
+const HIDDEN_POSE: Pose = { opacity: 0, x: 0, y: 0, scale: 1, rotate: 0 }
+
+export class SvgExporter {
+  /**
+   * Build the animated SVG markup
+   */
+  createSvg(
+    words: WordData[],
+    typography: TypographySettings,
+    motionSettings: MotionSettings,
+    options: SvgExportOptions = {}
+  ): string {
+    const width = Math.round(options.width || 800)
+    const height = Math.round(options.height || 600)
+    const duration = Math.max(options.duration || 5, CUT)
+    const stageScale = width / STAGE_WIDTH
+    const layout = createLayoutConfig(undefined, undefined, typography)
+
+    const rules: string[] = []
+    const elements: string[] = []
+
+    words.forEach((word, wordIndex) => {
+      const { unit, stagger, pieces, phases } = getWordTimeline(word, motionSettings, options.easingCurves ?? [])
+      const offsets = getPieceOffsets(pieces, unit, layout)
+      const wordEnd = word.startTime + word.duration
+
+      pieces.forEach((piece, pieceIndex) => {
+        const name = `w${wordIndex}p${pieceIndex}`
+        const start = word.startTime + pieceIndex * stagger
+
+        // Hidden until the word appears, then the timeline's phases, then hidden again once the word ends
+        const stops: KeyframeStop[] = [
+          { time: 0, pose: HIDDEN_POSE },
+          { time: word.startTime - CUT, pose: HIDDEN_POSE },
+          { time: word.startTime, pose: getPoseAt(phases, word.startTime - start) }
+        ]
+        phases.forEach((phase, index) => {
+          // A slowed-down phase is cut short when the next one begins
+          const next = phases[index + 1]
+          const end = next ? Math.min(phase.start + phase.duration, next.start) : phase.start + phase.duration
+          stops.push({ time: start + phase.start, pose: getPoseAt(phases, phase.start), easing: phase.easing })
+          stops.push({ time: start + end, pose: getPoseAt(phases, end) })
+        })
+        stops.push({ time: wordEnd, pose: getPoseAt(phases, wordEnd - start) })
+        stops.push({ time: wordEnd + CUT, pose: HIDDEN_POSE })
+        stops.push({ time: duration, pose: HIDDEN_POSE })
+
+        rules.push(this.createKeyframes(name, stops, duration, stageScale))
+        rules.push(`.${name}{animation-name:${name}}`)
+
+        const x = width / 2 + (word.position.x + offsets[pieceIndex].offsetX) * stageScale
+        const y = height / 2 + (word.position.y + offsets[pieceIndex].offsetY) * stageScale
+        const text = applyTextTransform(piece, typography.textTransform)
+        elements.push(`<text class="${name}" x="${round(x)}" y="${round(y)}">${escapeXml(text)}</text>`)
+      })
+    })
+
+    const fontSize = typography.fontSize * ROOT_FONT_SIZE * stageScale
+    const fontFamily = options.font ? `${FONT_FAMILY}, ${typography.fontFamily}` : typography.fontFamily
+    const styles = [
+      options.font ? this.createFontFace(options.font, typography.fontWeight) : '',
+      `text{font-family:${fontFamily};font-size:${round(fontSize)}px;font-weight:${typography.fontWeight};` +
+        `letter-spacing:${typography.letterSpacing}em;text-decoration:${typography.textDecoration};fill:${resolveCssColor(typography.textColor)};` +
+        'text-anchor:middle;dominant-baseline:central;white-space:pre;opacity:0;' +
+        'transform-box:fill-box;transform-origin:center;' +
+        `animation-duration:${round(duration)}s;animation-timing-function:linear;` +
+        `animation-iteration-count:${options.loop ? 'infinite' : 1};animation-fill-mode:both}`,
+      ...rules
+    ].filter(Boolean)
+
+    const background = typography.backgroundColor && typography.backgroundColor !== 'transparent'
+      ? `<rect width="100%" height="100%" fill="${escapeXml(resolveCssColor(typography.backgroundColor))}"/>`
+      : ''
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      `<style>${styles.join('\n')}</style>`,
+      background,
+      ...elements,
+      '</svg>'
+    ].filter(Boolean).join('\n')
+  }
+
+  /**
+   * Export the animated SVG as a downloadable file
+   */
+  export(
+    words: WordData[],
+    typography: TypographySettings,
+    motionSettings: MotionSettings,
+    options: SvgExportOptions = {}
+  ): VideoExportResult {
+    const blob = new Blob([this.createSvg(words, typography, motionSettings, options)], { type: 'image/svg+xml' })
+    return {
+      blob,
+      url: URL.createObjectURL(blob),
+      filename: `typographer-animation-${Date.now()}.svg`
+    }
+  }
+
+  /**
+   * Keyframes over the whole cycle; each stop carries the easing of the segment it starts
+   */
+  private createKeyframes(name: string, stops: KeyframeStop[], duration: number, stageScale: number): string {
+    // Stops that land on the same offset collapse into the last one, keeping any easing
+    const merged: { offset: number, pose: Pose, easing?: KeyframeStop['easing'] }[] = []
+    stops
+      .filter(stop => stop.time >= 0 && stop.time <= duration)
+      .sort((a, b) => a.time - b.time)
+      .forEach(({ time, pose, easing }) => {
+        const offset = round((time / duration) * 100, 4)
+        const previous = merged[merged.length - 1]
+        if (previous && previous.offset === offset) {
+          merged[merged.length - 1] = { offset, pose, easing: easing ?? previous.easing }
+        } else {
+          merged.push({ offset, pose, easing })
+        }
+      })
+
+    const lines = merged.map(({ offset, pose, easing }) => {
+      const transform = `translate(${round(pose.x * stageScale)}px,${round(pose.y * stageScale)}px) rotate(${round(pose.rotate)}deg) scale(${round(pose.scale, 4)})`
+      const timing = easing ? `;animation-timing-function:cubic-bezier(${easing.join(',')})` : ''
+      return `${offset}%{opacity:${round(pose.opacity, 4)};transform:${transform}${timing}}`
+    })
+    return `@keyframes ${name}{${lines.join('')}}`
+  }
+
+  private createFontFace(font: ArrayBuffer, fontWeight: number): string {
+    const bytes = new Uint8Array(font)
+    const signature = String.fromCharCode(...bytes.subarray(0, 4))
+    const [mime, format] = signature === 'wOF2' ? ['font/woff2', 'woff2']
+      : signature === 'wOFF' ? ['font/woff', 'woff']
+      : signature === 'OTTO' ? ['font/otf', 'opentype']
+      : ['font/ttf', 'truetype']
+
+    // Encode in chunks; spreading a whole font into fromCharCode overflows the stack
+    let binary = ''
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+    }
+
+    return `@font-face{font-family:${FONT_FAMILY};font-weight:${fontWeight};src:url(data:${mime};base64,${btoa(binary)}) format('${format}')}`
+  }
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, character => `&#${character.charCodeAt(0)};`)
+}
+
+// Export singleton instance
+export const svgExporter = new SvgExporter()
@@ -0,0 +1,315 @@
+// Offline video export: render each frame from the scene and encode it with WebCodecs.
+// Runs as fast as the encoder allows and always produces exactly duration * framerate frames.
+
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer'
+import { Muxer as WebMMuxer, ArrayBufferTarget as WebMTarget } from 'webm-muxer'
+import { WordData } from '@/types/typographer'
+import { TypographySettings } from '@/types/typography'
+import { MotionSettings, EasingCurve } from '@/types/motion'
+import { evaluateScene } from '@/lib/animations/scene'
+import { drawScene, loadSceneFont } from '@/lib/animations/scene-renderer'
+import { RecordingOptions, VideoExportResult } from './video-recorder'
+
+export type VideoContainer = 'mp4' | 'webm'
+
+export interface SceneVideoOptions extends RecordingOptions {
+  container?: VideoContainer
+  bitrate?: number // bits per second
+  easingCurves?: EasingCurve[] // Custom curves used to resolve easing ids
+  audio?: AudioBuffer // Soundtrack, trimmed or padded with silence to the video's duration
+  onProgress?: (frame: number, totalFrames: number) => void
+}
+
+interface CodecCandidate {
+  codec: string // WebCodecs codec string
+  muxerCodec: string // Codec id written into the container
+}
+
+// Tried in order; the first one the browser can encode at the requested size wins
+const CODEC_CANDIDATES: Record<VideoContainer, CodecCandidate[]> = {
+  mp4: [
+    { codec: 'avc1.640028', muxerCodec: 'avc' }, // H.264 High, level 4.0
+    { codec: 'avc1.4d0028', muxerCodec: 'avc' }, // H.264 Main
+    { codec: 'avc1.42001f', muxerCodec: 'avc' } // H.264 Baseline
+  ],
+  webm: [
+    { codec: 'vp09.00.10.08', muxerCodec: 'V_VP9' },
+    { codec: 'vp8', muxerCodec: 'V_VP8' }
+  ]
+}
+
+// Each container's usual audio codec
+const AUDIO_CODECS: Record<VideoContainer, CodecCandidate> = {
+  mp4: { codec: 'mp4a.40.2', muxerCodec: 'aac' }, // AAC-LC
+  webm: { codec: 'opus', muxerCodec: 'A_OPUS' }
+}
+
+const MIME_TYPES: Record<VideoContainer, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm'
+}
+
+const DEFAULT_BACKGROUND = '#ffffff' // Video has no alpha channel, so transparent scenes get a solid backdrop
+const KEYFRAME_INTERVAL = 2 // seconds
+const MAX_QUEUED_FRAMES = 8 // Frames waiting in the encoder before rendering pauses
+const AUDIO_SAMPLE_RATE = 48000 // Supported by both AAC and Opus encoders
+const AUDIO_BITRATE = 128_000
+const AUDIO_CHUNK_FRAMES = 48000 // Samples per channel handed to the encoder at once
+
+interface AudioTrackConfig {
+  codec: CodecCandidate
+  numberOfChannels: number
+  sampleRate: number
+}
+
+interface SceneMuxer {
+  addChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void
+  finalize: () => ArrayBuffer
+}
+
+export class SceneVideoEncoder {
+  /**
+   * Whether this browser can render offscreen and encode with WebCodecs
+   */
+  isSupported(): boolean {
+    return typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined' && typeof OffscreenCanvas !== 'undefined'
+  }
+
+  /**
+   * Render the scene at every frame time and encode it into an MP4 (H.264) or WebM (VP9/VP8) file
+   */
+  async encode(
+    words: WordData[],
+    typography: TypographySettings,
+    motionSettings: MotionSettings,
+    options: SceneVideoOptions = {}
+  ): Promise<VideoExportResult> {
+    if (!this.isSupported()) {
+      throw new Error('WebCodecs video encoding is not supported in this browser')
+    }
+
+    const container = options.container ?? 'mp4'
+    // Encoders work on 2x2 blocks, so odd sizes are rounded up
+    const width = toEven(options.width || 1920)
+    const height = toEven(options.height || 1080)
+    const framerate = options.framerate || 30
+    const totalFrames = Math.max(1, Math.round((options.duration || 5) * framerate))
+    const bitrate = options.bitrate ?? 8_000_000
+
+    const candidate = await this.findSupportedCodec(container, width, height, framerate, bitrate)
+    if (!candidate) {
+      throw new Error(`No ${container.toUpperCase()} video encoder is available in this browser`)
+    }
+
+    const audioTrack = options.audio ? await this.findAudioConfig(container, options.audio) : null
+    const muxer = this.createMuxer(container, candidate, width, height, framerate, audioTrack)
+    if (options.audio && audioTrack) {
+      await this.encodeAudio(options.audio, audioTrack, totalFrames / framerate, muxer)
+    }
+
+    let encoderError: Error | null = null
+    const encoder = new VideoEncoder({
+      output: (chunk, meta) => muxer.addChunk(chunk, meta),
+      error: (error) => { encoderError = error }
+    })
+    encoder.configure({ codec: candidate.codec, width, height, bitrate, framerate })
+
+    const canvas = new OffscreenCanvas(width, height)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+      throw new Error('Canvas 2D context is not available')
+    }
+
+    await loadSceneFont(typography, width)
+
+    const backgroundColor = options.backgroundColor
+      || (typography.backgroundColor !== 'transparent' ? typography.backgroundColor : DEFAULT_BACKGROUND)
+    const frameDuration = 1_000_000 / framerate // microseconds
+
+    try {
+      for (let index = 0; index < totalFrames; index++) {
+        if (encoderError) throw encoderError
+
+        const scene = evaluateScene(words, typography, motionSettings, index / framerate, options.easingCurves)
+        drawScene(ctx, scene, typography, { width, height, backgroundColor })
+
+        const frame = new VideoFrame(canvas, {
+          timestamp: Math.round(index * frameDuration),
+          duration: Math.round(frameDuration)
+        })
+        encoder.encode(frame, { keyFrame: index % Math.round(framerate * KEYFRAME_INTERVAL) === 0 })
+        frame.close()
+
+        options.onProgress?.(index + 1, totalFrames)
+
+        // Let the encoder drain so rendered frames don't pile up in memory
+        while (encoder.encodeQueueSize > MAX_QUEUED_FRAMES) {
+          await new Promise(resolve => setTimeout(resolve, 0))
+        }
+      }
+
+      await encoder.flush()
+      if (encoderError) throw encoderError
+    } finally {
+      if (encoder.state !== 'closed') encoder.close()
+    }
+
+    const blob = new Blob([muxer.finalize()], { type: MIME_TYPES[container] })
+    return {
+      blob,
+      url: URL.createObjectURL(blob),
+      filename: `typographer-animation-${Date.now()}.${container}`
+    }
+  }
+
+  /**
+   * Find the first codec for the container that the browser can encode at this size
+   */
+  private async findSupportedCodec(
+    container: VideoContainer,
+    width: number,
+    height: number,
+    framerate: number,
+    bitrate: number
+  ): Promise<CodecCandidate | null> {
+    for (const candidate of CODEC_CANDIDATES[container]) {
+      try {
+        const { supported } = await VideoEncoder.isConfigSupported({ codec: candidate.codec, width, height, bitrate, framerate })
+        if (supported) return candidate
+      } catch {
+        // Unknown codec strings throw in some browsers; try the next one
+      }
+    }
+    return null
+  }
+
+  /**
+   * The container's audio codec with the soundtrack's channel layout, if the browser can encode it
+   */
+  private async findAudioConfig(container: VideoContainer, audio: AudioBuffer): Promise<AudioTrackConfig> {
+    const codec = AUDIO_CODECS[container]
+    const numberOfChannels = Math.min(2, audio.numberOfChannels)
+    const unsupported = new Error(`This browser cannot encode ${container === 'mp4' ? 'AAC' : 'Opus'} audio. Remove the audio or try the other video format.`)
+    if (typeof AudioEncoder === 'undefined' || typeof AudioData === 'undefined') {
+      throw unsupported
+    }
+
+    try {
+      const { supported } = await AudioEncoder.isConfigSupported({
+        codec: codec.codec,
+        numberOfChannels,
+        sampleRate: AUDIO_SAMPLE_RATE,
+        bitrate: AUDIO_BITRATE
+      })
+      if (supported) return { codec, numberOfChannels, sampleRate: AUDIO_SAMPLE_RATE }
+    } catch {
+      // Reported below
+    }
+    throw unsupported
+  }
+
+  /**
+   * Resample the soundtrack to the encoder's rate and length, then encode it in chunks
+   */
+  private async encodeAudio(audio: AudioBuffer, config: AudioTrackConfig, duration: number, muxer: SceneMuxer): Promise<void> {
+    const { numberOfChannels, sampleRate } = config
+    const length = Math.max(1, Math.round(duration * sampleRate))
+    const context = new OfflineAudioContext(numberOfChannels, length, sampleRate)
+    const source = context.createBufferSource()
+    source.buffer = audio
+    source.connect(context.destination)
+    source.start()
+    const rendered = await context.startRendering()
+
+    let encoderError: Error | null = null
+    const encoder = new AudioEncoder({
+      output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      error: (error) => { encoderError = error }
+    })
+    encoder.configure({ codec: config.codec.codec, numberOfChannels, sampleRate, bitrate: AUDIO_BITRATE })
+
+    try {
+      for (let offset = 0; offset < length; offset += AUDIO_CHUNK_FRAMES) {
+        if (encoderError) throw encoderError
+
+        // Planar layout: each channel's samples one after the other
+        const frames = Math.min(AUDIO_CHUNK_FRAMES, length - offset)
+        const samples = new Float32Array(frames * numberOfChannels)
+        for (let channel = 0; channel < numberOfChannels; channel++) {
+          samples.set(rendered.getChannelData(channel).subarray(offset, offset + frames), channel * frames)
+        }
+
+        const data = new AudioData({
+          format: 'f32-planar',
+          sampleRate,
+          numberOfFrames: frames,
+          numberOfChannels,
+          timestamp: Math.round((offset / sampleRate) * 1_000_000),
+          data: samples
+        })
+        encoder.encode(data)
+        data.close()
+      }
+
+      await encoder.flush()
+      if (encoderError) throw encoderError
+    } finally {
+      if (encoder.state !== 'closed') encoder.close()
+    }
+  }
+
+  /**
+   * Wrap the container muxers behind one interface
+   */
+  private createMuxer(
+    container: VideoContainer,
+    candidate: CodecCandidate,
+    width: number,
+    height: number,
+    frameRate: number,
+    audio: AudioTrackConfig | null
+  ): SceneMuxer {
+    if (container === 'mp4') {
+      const muxer = new Mp4Muxer({
+        target: new Mp4Target(),
+        video: { codec: candidate.muxerCodec as 'avc', width, height, frameRate },
+        ...(audio && {
+          audio: { codec: audio.codec.muxerCodec as 'aac', numberOfChannels: audio.numberOfChannels, sampleRate: audio.sampleRate }
+        }),
+        fastStart: 'in-memory' // Metadata up front so players can start before the whole file loads
+      })
+      return {
+        addChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+        addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+        finalize: () => {
+          muxer.finalize()
+          return muxer.target.buffer
+        }
+      }
+    }
+
+    const muxer = new WebMMuxer({
+      target: new WebMTarget(),
+      video: { codec: candidate.muxerCodec, width, height, frameRate },
+      ...(audio && {
+        audio: { codec: audio.codec.muxerCodec, numberOfChannels: audio.numberOfChannels, sampleRate: audio.sampleRate }
+      })
+    })
+    return {
+      addChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      finalize: () => {
+        muxer.finalize()
+        return muxer.target.buffer
+      }
+    }
+  }
+}
+
+function toEven(value: number): number {
+  return Math.ceil(value / 2) * 2
+}
+
+// Export singleton instance
+export const sceneVideoEncoder = new SceneVideoEncoder()
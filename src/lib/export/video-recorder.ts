@@ -1,6 +1,4 @@
-// Video and GIF Recording Utilities for Typographer animations
-import GIF from 'gif.js'
-import html2canvas from 'html2canvas'
+// Real-time video recording for browsers without WebCodecs (see video-encoder.ts)
 
 export interface RecordingOptions {
   width?: number
@@ -107,295 +105,6 @@ export class VideoRecorder {
     })
   }
 
-  /**
-   * Record animation as GIF using WebRTC screen capture for better quality
-   */
-  async recordGIF(
-    animationElement: HTMLElement,
-    options: RecordingOptions = {}
-  ): Promise<VideoExportResult> {
-    try {
-      // First try the advanced capture method
-      return await this.recordGIFWithScreenCapture(animationElement, options)
-    } catch (error) {
-      console.warn('Screen capture failed, falling back to html2canvas:', error)
-      // Fallback to html2canvas method
-      return await this.recordGIFWithCanvas(animationElement, options)
-    }
-  }
-
-  /**
-   * Record GIF using screen capture API for perfect quality
-   */
-  private async recordGIFWithScreenCapture(
-    animationElement: HTMLElement,
-    options: RecordingOptions = {}
-  ): Promise<VideoExportResult> {
-    return new Promise(async (resolve, reject) => {
-      try {
-        const width = options.width || 1920
-        const height = options.height || 1080
-        const framerate = options.framerate || 30
-        const duration = options.duration || 5
-
-        console.log(`Starting GIF recording with screen capture: ${width}x${height}, ${duration}s`)
-
-        // Get the animation element's position and size
-        const rect = animationElement.getBoundingClientRect()
-        const scrollX = window.scrollX
-        const scrollY = window.scrollY
-
-        // Request screen share focusing on the animation area
-        const stream = await navigator.mediaDevices.getDisplayMedia({
-          video: {
-            mediaSource: 'screen',
-            width: { ideal: rect.width },
-            height: { ideal: rect.height },
-            frameRate: { ideal: framerate }
-          },
-          audio: false
-        })
-
-        // Create video element to display the stream
-        const video = document.createElement('video')
-        video.srcObject = stream
-        video.play()
-
-        // Wait for video to be ready
-        await new Promise(resolve => {
-          video.onloadedmetadata = resolve
-        })
-
-        // Initialize GIF encoder
-        const gif = new GIF({
-          workers: 2,
-          quality: options.quality || 10,
-          width: width,
-          height: height,
-          workerScript: '/gif.worker.js'
-        })
-
-        let currentFrame = 0
-        const totalFrames = Math.ceil(framerate * duration)
-        const frameInterval = 1000 / framerate
-
-        // Get store reference
-        const typographerStore = (window as any).__typographerStore
-        
-        // Force animation to restart and play
-        if (typographerStore) {
-          console.log('Restarting animation for GIF capture')
-          typographerStore.getState().seekTo(0)
-          typographerStore.getState().playAnimation()
-        }
-
-        // Wait for animation to start
-        await new Promise(resolve => setTimeout(resolve, 200))
-
-        const captureFrame = async () => {
-          if (currentFrame >= totalFrames) {
-            // Stop the stream
-            stream.getTracks().forEach(track => track.stop())
-            
-            // Render GIF
-            gif.on('finished', function(blob) {
-              console.log('GIF rendering complete, blob size:', blob.size)
-              const url = URL.createObjectURL(blob)
-              const filename = `typographer-animation-${Date.now()}.gif`
-              resolve({ blob, url, filename })
-            })
-
-            gif.render()
-            return
-          }
-
-          try {
-            // Sync animation time to current frame
-            const currentTime = (currentFrame / framerate)
-            if (typographerStore) {
-              typographerStore.getState().seekTo(currentTime)
-            }
-
-            // Give animation time to update
-            await new Promise(resolve => setTimeout(resolve, 50))
-
-            // Create canvas and capture video frame
-            const canvas = document.createElement('canvas')
-            const ctx = canvas.getContext('2d')
-            if (ctx) {
-              canvas.width = width
-              canvas.height = height
-              
-              // Draw the video frame to canvas
-              ctx.drawImage(video, 0, 0, width, height)
-              
-              // Add frame to GIF
-              gif.addFrame(canvas, { delay: 1000 / framerate })
-            }
-
-            console.log(`Captured frame ${currentFrame + 1}/${totalFrames} at time ${currentTime.toFixed(2)}s`)
-
-          } catch (error) {
-            console.warn('Error capturing frame:', error)
-          }
-
-          currentFrame++
-          setTimeout(captureFrame, frameInterval)
-        }
-
-        // Handle GIF errors
-        gif.on('error', function(error) {
-          stream.getTracks().forEach(track => track.stop())
-          reject(new Error(`GIF encoding failed: ${error}`))
-        })
-
-        // Start capturing frames
-        setTimeout(captureFrame, frameInterval)
-
-      } catch (error) {
-        reject(error)
-      }
-    })
-  }
-
-  /**
-   * Fallback GIF recording using html2canvas
-   */
-  private async recordGIFWithCanvas(
-    animationElement: HTMLElement,
-    options: RecordingOptions = {}
-  ): Promise<VideoExportResult> {
-    return new Promise(async (resolve, reject) => {
-      try {
-        const width = options.width || 1920
-        const height = options.height || 1080
-        const framerate = options.framerate || 30
-        const duration = options.duration || 5
-        const totalFrames = Math.ceil(framerate * duration)
-        const frameInterval = 1000 / framerate
-
-        console.log(`Starting GIF recording with canvas: ${width}x${height}, ${totalFrames} frames, ${duration}s`)
-
-        // Initialize GIF encoder
-        const gif = new GIF({
-          workers: 2,
-          quality: options.quality || 10,
-          width: width,
-          height: height,
-          workerScript: '/gif.worker.js'
-        })
-
-        let currentFrame = 0
-        let capturedFrames = 0
-
-        // Get store reference
-        const typographerStore = (window as any).__typographerStore
-        
-        // Force animation to restart and play
-        if (typographerStore) {
-          console.log('Restarting animation for GIF capture')
-          typographerStore.getState().seekTo(0)
-          typographerStore.getState().playAnimation()
-        }
-
-        // Wait for animation to start
-        await new Promise(resolve => setTimeout(resolve, 100))
-
-        const captureFrame = async () => {
-          if (currentFrame >= totalFrames) {
-            console.log(`Captured ${capturedFrames} frames, rendering GIF...`)
-            
-            gif.on('finished', function(blob) {
-              console.log('GIF rendering complete, blob size:', blob.size)
-              const url = URL.createObjectURL(blob)
-              const filename = `typographer-animation-${Date.now()}.gif`
-              resolve({ blob, url, filename })
-            })
-
-            gif.render()
-            return
-          }
-
-          try {
-            // Sync animation time to current frame
-            const currentTime = (currentFrame / framerate)
-            if (typographerStore) {
-              typographerStore.getState().seekTo(currentTime)
-            }
-
-            // Give animation time to update
-            await new Promise(resolve => setTimeout(resolve, 100))
-
-            // Get the actual rendered dimensions
-            const rect = animationElement.getBoundingClientRect()
-            
-            // Capture with better settings for transforms
-            const canvas = await html2canvas(animationElement, {
-              backgroundColor: options.backgroundColor || null,
-              scale: 1,
-              logging: false,
-              useCORS: true,
-              allowTaint: true,
-              foreignObjectRendering: false,
-              imageTimeout: 0,
-              removeContainer: true,
-              x: 0,
-              y: 0,
-              width: rect.width,
-              height: rect.height,
-              scrollX: 0,
-              scrollY: 0
-            })
-
-            // Resize to target dimensions
-            const resizedCanvas = document.createElement('canvas')
-            const ctx = resizedCanvas.getContext('2d')
-            if (ctx) {
-              resizedCanvas.width = width
-              resizedCanvas.height = height
-              
-              // Fill background if specified
-              if (options.backgroundColor && options.backgroundColor !== 'transparent') {
-                ctx.fillStyle = options.backgroundColor
-                ctx.fillRect(0, 0, width, height)
-              }
-              
-              // Draw the captured content centered
-              const scale = Math.min(width / canvas.width, height / canvas.height)
-              const scaledWidth = canvas.width * scale
-              const scaledHeight = canvas.height * scale
-              const x = (width - scaledWidth) / 2
-              const y = (height - scaledHeight) / 2
-              
-              ctx.drawImage(canvas, x, y, scaledWidth, scaledHeight)
-              gif.addFrame(resizedCanvas, { delay: 1000 / framerate })
-            }
-
-            capturedFrames++
-            console.log(`Captured frame ${currentFrame + 1}/${totalFrames} at time ${currentTime.toFixed(2)}s`)
-
-          } catch (error) {
-            console.warn('Error capturing frame:', error)
-          }
-
-          currentFrame++
-          setTimeout(captureFrame, frameInterval)
-        }
-
-        gif.on('error', function(error) {
-          console.error('GIF encoding error:', error)
-          reject(new Error(`GIF encoding failed: ${error}`))
-        })
-
-        setTimeout(captureFrame, frameInterval)
-
-      } catch (error) {
-        console.error('GIF recording failed:', error)
-        reject(new Error(`GIF recording failed: ${error}`))
-      }
-    })
-  }
-
   /**
    * Capture animation frames to canvas
    */
@@ -550,41 +259,6 @@ export class VideoRecorder {
     }
   }
 
-  /**
-   * Debug method to test html2canvas capture
-   */
-  async debugCapture(element: HTMLElement): Promise<void> {
-    try {
-      console.log('Testing html2canvas capture...')
-      const canvas = await html2canvas(element, {
-        backgroundColor: null,
-        scale: 1,
-        logging: true,
-        useCORS: true,
-        allowTaint: true
-      })
-      
-      console.log('Captured canvas:', canvas.width, 'x', canvas.height)
-      
-      // Convert to blob and create download link for testing
-      canvas.toBlob((blob) => {
-        if (blob) {
-          const url = URL.createObjectURL(blob)
-          const a = document.createElement('a')
-          a.href = url
-          a.download = 'debug-capture.png'
-          document.body.appendChild(a)
-          a.click()
-          document.body.removeChild(a)
-          URL.revokeObjectURL(url)
-          console.log('Debug capture saved as debug-capture.png')
-        }
-      })
-    } catch (error) {
-      console.error('Debug capture failed:', error)
-    }
-  }
-
   /**
    * Clean up resources
    */
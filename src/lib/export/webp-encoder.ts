@@ -0,0 +1,152 @@
+// Animated WebP export: each frame is encoded by the browser's WebP encoder (canvas.toBlob),
+// then the frames are wrapped in an animated RIFF container written here
+
+import { WordData } from '@/types/typographer'
+import { TypographySettings } from '@/types/typography'
+import { MotionSettings } from '@/types/motion'
+import { VideoExportResult } from './video-recorder'
+import { renderFrameSequence, getFrameDelay, FrameSequenceOptions } from './frame-renderer'
+
+export interface SceneWebpOptions extends FrameSequenceOptions {
+  quality?: number // 0-1, passed to the browser's encoder
+  loopCount?: number // How many times the animation plays: 0 loops forever
+}
+
+// Chunks that make up one frame's image; everything else in a still WebP is file-level metadata
+const FRAME_CHUNKS = new Set(['ALPH', 'VP8 ', 'VP8L'])
+const VP8X_ALPHA = 0x10
+const VP8X_ANIMATION = 0x02
+const ANMF_NO_BLEND = 0x02 // Frames replace the canvas, alpha included, rather than compositing over it
+const MAX_FRAME_DURATION = 0xffffff // ms, 24-bit field
+
+export class SceneWebpEncoder {
+  private supported: boolean | undefined
+
+  /**
+   * Whether the browser's canvas can encode WebP (Safari falls back to PNG)
+   */
+  isSupported(): boolean {
+    if (this.supported === undefined) {
+      this.supported = typeof document !== 'undefined'
+        && document.createElement('canvas').toDataURL('image/webp').startsWith('data:image/webp')
+    }
+    return this.supported
+  }
+
+  /**
+   * Render every frame at exact timeline steps and write them into an animated WebP
+   */
+  async encode(
+    words: WordData[],
+    typography: TypographySettings,
+    motionSettings: MotionSettings,
+    options: SceneWebpOptions = {}
+  ): Promise<VideoExportResult> {
+    if (!this.isSupported()) {
+      throw new Error('WebP export is not supported in this browser')
+    }
+
+    const width = Math.round(options.width || 800)
+    const height = Math.round(options.height || 600)
+    const framerate = options.framerate || 25
+    const quality = options.quality ?? 0.9
+    const frames: Uint8Array[] = []
+
+    await renderFrameSequence(words, typography, motionSettings, { ...options, width, height, framerate }, async ({ canvas, index }) => {
+      const still = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', quality))
+      if (!still || still.type !== 'image/webp') {
+        throw new Error('The browser could not encode a WebP frame')
+      }
+      frames.push(createFrameChunk(extractFrameChunks(new Uint8Array(await still.arrayBuffer())), width, height, getFrameDelay(index, framerate)))
+    })
+
+    const features = new Uint8Array(10)
+    features[0] = VP8X_ALPHA | VP8X_ANIMATION
+    writeUint24(features, 4, width - 1)
+    writeUint24(features, 7, height - 1)
+
+    const animation = new Uint8Array(6) // Background colour (BGRA) stays fully transparent
+    new DataView(animation.buffer).setUint16(4, Math.max(0, options.loopCount ?? 0), true)
+
+    const body = [encodeFourCC('WEBP'), createChunk('VP8X', features), createChunk('ANIM', animation), ...frames]
+    const size = body.reduce((total, part) => total + part.length, 0)
+    const header = new Uint8Array(8)
+    header.set(encodeFourCC('RIFF'))
+    new DataView(header.buffer).setUint32(4, size, true)
+
+    const blob = new Blob([header, ...body] as BlobPart[], { type: 'image/webp' })
+    return {
+      blob,
+      url: URL.createObjectURL(blob),
+      filename: `typographer-animation-${Date.now()}.webp`
+    }
+  }
+}
+
+/**
+ * Pull the image chunks (alpha and bitstream) out of a still WebP file
+ */
+function extractFrameChunks(file: Uint8Array): Uint8Array[] {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength)
+  if (decodeFourCC(file, 0) !== 'RIFF' || decodeFourCC(file, 8) !== 'WEBP') {
+    throw new Error('The browser produced an invalid WebP frame')
+  }
+
+  const chunks: Uint8Array[] = []
+  let offset = 12
+  while (offset + 8 <= file.length) {
+    const type = decodeFourCC(file, offset)
+    const size = view.getUint32(offset + 4, true)
+    const end = offset + 8 + size + (size % 2) // Chunks are padded to an even length
+    if (FRAME_CHUNKS.has(type)) {
+      chunks.push(file.subarray(offset, end))
+    }
+    offset = end
+  }
+  return chunks
+}
+
+/**
+ * ANMF chunk: full-canvas frame at the origin with its duration and the frame's image chunks
+ */
+function createFrameChunk(imageChunks: Uint8Array[], width: number, height: number, duration: number): Uint8Array {
+  const header = new Uint8Array(16) // X and Y offsets stay 0
+  writeUint24(header, 6, width - 1)
+  writeUint24(header, 9, height - 1)
+  writeUint24(header, 12, Math.min(duration, MAX_FRAME_DURATION))
+  header[15] = ANMF_NO_BLEND
+
+  const payload = new Uint8Array(header.length + imageChunks.reduce((total, chunk) => total + chunk.length, 0))
+  payload.set(header)
+  let offset = header.length
+  imageChunks.forEach(chunk => {
+    payload.set(chunk, offset)
+    offset += chunk.length
+  })
+  return createChunk('ANMF', payload)
+}
+
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2))
+  chunk.set(encodeFourCC(type))
+  new DataView(chunk.buffer).setUint32(4, data.length, true)
+  chunk.set(data, 8)
+  return chunk
+}
+
+function writeUint24(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value & 0xff
+  bytes[offset + 1] = (value >> 8) & 0xff
+  bytes[offset + 2] = (value >> 16) & 0xff
+}
+
+function encodeFourCC(type: string): Uint8Array {
+  return Uint8Array.from(type, character => character.charCodeAt(0))
+}
+
+function decodeFourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4))
+}
+
+// Export singleton instance
+export const sceneWebpEncoder = new SceneWebpEncoder()
@@ -0,0 +1,107 @@
+// Minimal ZIP archive writer. Entries are stored uncompressed, which suits files that are
+// already compressed (PNG) and keeps archives readable by every unzip tool.
+
+import { crc32 } from '@/lib/utils/crc32'
+
+interface ZipEntry {
+  name: Uint8Array
+  crc: number
+  size: number
+  offset: number // Position of the entry's local header
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50
+const VERSION = 20 // 2.0: the minimum that understands folders and stored entries
+const UTF8_NAMES = 0x0800
+const MAX_ENTRIES = 0xffff // Without ZIP64 extensions
+
+export class ZipWriter {
+  private parts: Uint8Array[] = []
+  private entries: ZipEntry[] = []
+  private offset = 0
+  private readonly time: number
+  private readonly date: number
+
+  constructor(modified: Date = new Date()) {
+    // MS-DOS timestamps: two-second precision, years from 1980
+    this.time = (modified.getHours() << 11) | (modified.getMinutes() << 5) | Math.floor(modified.getSeconds() / 2)
+    this.date = ((Math.max(1980, modified.getFullYear()) - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate()
+  }
+
+  /**
+   * Add a file; text is stored as UTF-8
+   */
+  addFile(name: string, content: Uint8Array | string): void {
+    if (this.entries.length >= MAX_ENTRIES) {
+      throw new Error(`A ZIP archive can hold at most ${MAX_ENTRIES} files`)
+    }
+
+    const encoder = new TextEncoder()
+    const data = typeof content === 'string' ? encoder.encode(content) : content
+    const entry: ZipEntry = { name: encoder.encode(name), crc: crc32(data), size: data.length, offset: this.offset }
+
+    const header = new Uint8Array(30 + entry.name.length)
+    const view = new DataView(header.buffer)
+    view.setUint32(0, LOCAL_HEADER_SIGNATURE, true)
+    view.setUint16(4, VERSION, true)
+    this.writeEntryFields(view, 6, entry)
+    view.setUint16(26, entry.name.length, true)
+    view.setUint16(28, 0, true) // Extra field length
+    header.set(entry.name, 30)
+
+    this.push(header)
+    this.push(data)
+    this.entries.push(entry)
+  }
+
+  /**
+   * Write the central directory and return the finished archive
+   */
+  toBlob(): Blob {
+    const directoryOffset = this.offset
+    const directory = this.entries.map(entry => {
+      const header = new Uint8Array(46 + entry.name.length)
+      const view = new DataView(header.buffer)
+      view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true)
+      view.setUint16(4, VERSION, true) // Version made by
+      view.setUint16(6, VERSION, true) // Version needed to extract
+      this.writeEntryFields(view, 8, entry)
+      view.setUint16(28, entry.name.length, true)
+      // Extra field, comment, disk number and attributes stay 0
+      view.setUint32(42, entry.offset, true)
+      header.set(entry.name, 46)
+      return header
+    })
+    const directorySize = directory.reduce((total, header) => total + header.length, 0)
+
+    const end = new Uint8Array(22)
+    const view = new DataView(end.buffer)
+    view.setUint32(0, END_OF_DIRECTORY_SIGNATURE, true)
+    view.setUint16(8, this.entries.length, true) // Entries on this disk
+    view.setUint16(10, this.entries.length, true) // Entries in total
+    view.setUint32(12, directorySize, true)
+    view.setUint32(16, directoryOffset, true)
+
+    return new Blob([...this.parts, ...directory, end] as BlobPart[], { type: 'application/zip' })
+  }
+
+  /**
+   * Fields shared by local and central headers: flags, method, timestamp, CRC and sizes
+   */
+  private writeEntryFields(view: DataView, offset: number, entry: ZipEntry): void {
+    view.setUint16(offset, UTF8_NAMES, true)
+    view.setUint16(offset + 2, 0, true) // Stored, no compression
+    view.setUint16(offset + 4, this.time, true)
+    view.setUint16(offset + 6, this.date, true)
+    view.setUint32(offset + 8, entry.crc, true)
+    view.setUint32(offset + 12, entry.size, true) // Compressed size
+    view.setUint32(offset + 16, entry.size, true) // Uncompressed size
+  }
+
+  private push(bytes: Uint8Array): void {
+    this.parts.push(bytes)
+    this.offset += bytes.length
+  }
+}
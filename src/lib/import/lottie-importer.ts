@@ -0,0 +1,757 @@
+// Lottie Animation Importer - Rebuild motion-language text and typography from Lottie JSON.
+// Text layers, and the glyph layers Typographer exports, become tagged word groups; anything
+// that has no motion-language equivalent is listed in the import report.
+
+import { AnimationUnit, DiagnosticSeverity, MotionConfig, MotionDirection, ZoomType } from '@/types/typographer'
+import { TypographySettings } from '@/types/typography'
+import { BUILT_IN_EASING_CURVES, DEFAULT_MOTION_SETTINGS, EasingCurve } from '@/types/motion'
+import { serializeMotionTag } from '@/lib/utils/motion-parser'
+import { splitGraphemes } from '@/lib/utils/segmenter'
+
+export interface LottieImportIssue {
+  severity: DiagnosticSeverity
+  layer?: string // Name of the layer the issue is about
+  message: string
+}
+
+export interface LottieImportResult {
+  name: string
+  textContent: string // Motion-language text, one tagged group per layer
+  typography: Partial<TypographySettings> // Only the settings the file defines
+  wordGap: number // Gap between words that reproduces the file's timing best
+  report: LottieImportIssue[]
+}
+
+export interface LottieImportOptions {
+  easingCurves?: EasingCurve[] // Curves to match keyframe easing against; defaults to the built-in ones
+}
+
+type Bezier = [number, number, number, number]
+
+interface Keyframe {
+  frame: number // Composition frame
+  value: number[]
+  easing: Bezier // Towards the next keyframe
+  hold: boolean
+}
+
+// Offsets from the rest pose, in px on the 800px stage
+interface PoseDelta {
+  x: number
+  y: number
+  scale: number // Ratio to the rest scale
+  rotate: number
+  opacity: number // 0-1, absolute
+}
+
+interface ImportedPhase {
+  start: number // Seconds
+  duration: number
+  delta: PoseDelta
+  easing: Bezier
+}
+
+interface ImportedWord {
+  layer: string
+  text: string // Lines separated by \n
+  start: number
+  end: number
+  entry?: ImportedPhase
+  exit?: ImportedPhase
+  unit?: AnimationUnit
+  stagger?: number
+}
+
+// Minimal shape of the Lottie JSON this importer reads
+interface LottieJson {
+  nm?: string
+  fr?: number
+  w?: number
+  h?: number
+  fonts?: { list?: Array<{ fName?: string, fFamily?: string, fStyle?: string, fWeight?: string | number }> }
+  layers?: LottieLayerJson[]
+}
+
+interface LottieLayerJson {
+  nm?: string
+  ty?: number
+  ip?: number
+  op?: number
+  st?: number
+  hd?: boolean
+  ddd?: number
+  parent?: number
+  hasMask?: boolean
+  ef?: unknown[]
+  tm?: unknown
+  sc?: string
+  sw?: number
+  sh?: number
+  ks?: Record<string, LottiePropertyJson | undefined>
+  t?: { d?: { k?: Array<{ s?: TextDocumentJson }> }, a?: TextAnimatorJson[] }
+  shapes?: ShapeJson[]
+}
+
+interface LottiePropertyJson {
+  a?: number
+  k?: unknown // Static value or keyframes
+  s?: boolean // Position split into separate X and Y properties
+}
+
+interface KeyframeJson {
+  t: number
+  s?: number | number[]
+  e?: number | number[]
+  i?: { x?: number | number[], y?: number | number[] }
+  o?: { x?: number | number[], y?: number | number[] }
+  h?: number
+}
+
+interface TextDocumentJson {
+  t?: string
+  f?: string
+  s?: number
+  lh?: number
+  tr?: number
+  fc?: number[]
+  j?: number
+  ls?: number
+}
+
+interface TextAnimatorJson {
+  nm?: string
+  s?: { b?: number, r?: number, sh?: number, s?: LottiePropertyJson, e?: LottiePropertyJson, o?: LottiePropertyJson }
+  a?: Record<string, LottiePropertyJson | undefined>
+}
+
+interface ShapeJson {
+  ty?: string
+  it?: ShapeJson[]
+  c?: LottiePropertyJson
+}
+
+const STAGE_WIDTH = 800 // Preview width that typography sizes and motion offsets are relative to
+const ROOT_FONT_SIZE = 16 // px per rem
+const MIN_SECONDS = 0.01 // Motion tags need positive times
+const START_TOLERANCE = 0.05 // Largest difference in seconds from the follow-on start left without an anchor
+const EASING_TOLERANCE = 0.1 // Largest control-point distance still reported as an exact match
+const GLYPH_LAYER_NAME = /^Word (\d+): (.*?)(?: \((character|line) (\d+)\))?$/
+const JUSTIFICATIONS: Record<number, TypographySettings['textAlign']> = { 0: 'left', 1: 'right', 2: 'center' }
+const LAYER_TYPES: Record<number, string> = { 0: 'Precomposition', 1: 'Solid', 2: 'Image', 3: 'Null', 4: 'Shape', 5: 'Text' }
+
+class LottieImporter {
+  /**
+   * Rebuild a project's motion-language text and typography from a Lottie animation
+   */
+  importLottie(source: string | object, options: LottieImportOptions = {}): LottieImportResult {
+    let lottie: LottieJson
+    try {
+      lottie = typeof source === 'string' ? JSON.parse(source) : source as LottieJson
+    } catch {
+      throw new Error('Invalid Lottie file: not valid JSON')
+    }
+    if (!lottie || !Array.isArray(lottie.layers)) {
+      throw new Error('Invalid Lottie file: no layers found')
+    }
+
+    const report: LottieImportIssue[] = []
+    const framerate = lottie.fr || 30
+    const stageScale = (lottie.w || STAGE_WIDTH) / STAGE_WIDTH
+    const center: [number, number] = [(lottie.w || STAGE_WIDTH) / 2, (lottie.h || 600) / 2]
+    const easingCurves = options.easingCurves ?? BUILT_IN_EASING_CURVES
+    const context = { framerate, stageScale, center, report }
+
+    const typography: Partial<TypographySettings> = {}
+    const words: ImportedWord[] = []
+    const glyphGroups = new Map<number, Array<{ layer: LottieLayerJson, text: string, unit?: AnimationUnit, piece: number }>>()
+
+    lottie.layers.forEach(layer => {
+      const name = layer.nm || 'Unnamed layer'
+      if (layer.hd) {
+        report.push({ severity: 'info', layer: name, message: 'Hidden layer skipped' })
+        return
+      }
+
+      if (layer.ty === 5) {
+        this.reportUnsupportedFeatures(layer, report)
+        const word = this.importTextLayer(layer, lottie, typography, context)
+        if (word) words.push(word)
+        return
+      }
+
+      const glyphName = layer.ty === 4 ? GLYPH_LAYER_NAME.exec(name) : null
+      if (glyphName) {
+        // Glyph outlines exported by Typographer: one layer per word, or per character or line
+        const [, wordNumber, text, unit, piece] = glyphName
+        const group = glyphGroups.get(Number(wordNumber)) ?? []
+        group.push({ layer, text, unit: unit as AnimationUnit | undefined, piece: Number(piece ?? 1) })
+        glyphGroups.set(Number(wordNumber), group)
+        return
+      }
+
+      if (layer.ty === 1 && layer.sc && (layer.sw ?? 0) >= (lottie.w ?? 0) && (layer.sh ?? 0) >= (lottie.h ?? 0)) {
+        typography.backgroundColor = layer.sc
+        return
+      }
+
+      report.push({
+        severity: 'warning',
+        layer: name,
+        message: `${LAYER_TYPES[layer.ty ?? -1] ?? 'Unknown'} layer skipped: only text layers can be imported`
+      })
+    })
+
+    glyphGroups.forEach(group => {
+      const word = this.importGlyphLayers(group, typography, context)
+      if (word) words.push(word)
+    })
+
+    if (glyphGroups.size > 0 && !typography.fontFamily) {
+      report.push({ severity: 'warning', message: 'Text drawn as glyph outlines has no font information; font family and size keep their defaults' })
+    }
+    if (words.length === 0) {
+      report.push({ severity: 'warning', message: 'No text layers found' })
+    }
+
+    words.sort((a, b) => a.start - b.start)
+    const wordGap = this.chooseWordGap(words)
+    const textContent = this.writeMotionText(words, wordGap, easingCurves, report)
+
+    return {
+      name: lottie.nm || 'Imported Lottie',
+      textContent,
+      typography,
+      wordGap,
+      report
+    }
+  }
+
+  /**
+   * Read a text layer's text, typography and motion
+   */
+  private importTextLayer(
+    layer: LottieLayerJson,
+    lottie: LottieJson,
+    typography: Partial<TypographySettings>,
+    context: ImportContext
+  ): ImportedWord | null {
+    const name = layer.nm || 'Unnamed layer'
+    const documents = layer.t?.d?.k ?? []
+    const document = documents[0]?.s
+    if (!document || typeof document.t !== 'string' || !document.t.trim()) {
+      context.report.push({ severity: 'warning', layer: name, message: 'Text layer has no text' })
+      return null
+    }
+    if (documents.length > 1) {
+      context.report.push({ severity: 'warning', layer: name, message: 'Text that changes over time is not supported; the first text is used' })
+    }
+
+    this.readTypography(name, document, lottie, typography, context)
+
+    const text = document.t.replace(/\r\n?|\u0003/g, '\n')
+    const word = this.readLayerMotion(layer, text, context)
+
+    const animators = layer.t?.a ?? []
+    if (animators.length > 0) {
+      this.readUnitAnimators(name, animators, word, context)
+    }
+
+    return word
+  }
+
+  /**
+   * Rebuild a word from the glyph layers of one exported word; the first piece carries the timeline
+   */
+  private importGlyphLayers(
+    group: Array<{ layer: LottieLayerJson, text: string, unit?: AnimationUnit, piece: number }>,
+    typography: Partial<TypographySettings>,
+    context: ImportContext
+  ): ImportedWord | null {
+    group.sort((a, b) => a.piece - b.piece)
+    const [first, second] = group
+    // Pieces rest beside the word centre, so only whole words have their position checked
+    const word = this.readLayerMotion(first.layer, first.text, context, !first.unit)
+
+    const fill = (first.layer.shapes ?? []).flatMap(shape => shape.it ?? []).find(item => item.ty === 'fl')
+    if (!typography.textColor && Array.isArray(fill?.c?.k)) {
+      typography.textColor = toHexColor(fill.c.k)
+    }
+
+    if (first.unit) {
+      word.unit = first.unit
+      const firstStart = this.getFirstKeyframe(first.layer.ks, first.layer.st ?? 0)
+      const secondStart = second ? this.getFirstKeyframe(second.layer.ks, second.layer.st ?? 0) : null
+      if (firstStart !== null && secondStart !== null && second.piece > first.piece) {
+        word.stagger = roundSeconds((secondStart - firstStart) / context.framerate / (second.piece - first.piece))
+      }
+    }
+
+    return word
+  }
+
+  /**
+   * Read timing and the entry/exit phases of a layer's transform
+   */
+  private readLayerMotion(layer: LottieLayerJson, text: string, context: ImportContext, checkPosition = true): ImportedWord {
+    const name = layer.nm || 'Unnamed layer'
+    const { framerate, stageScale, report } = context
+    const transform = layer.ks ?? {}
+
+    if (transform.p?.s) {
+      report.push({ severity: 'warning', layer: name, message: 'Separate X and Y position keyframes are not supported; position motion is ignored' })
+    }
+    if (isAnimated(transform.a) || isAnimated(transform.sk)) {
+      report.push({ severity: 'warning', layer: name, message: 'Animated anchor point or skew has no motion-language equivalent and is ignored' })
+    }
+
+    const word: ImportedWord = {
+      layer: name,
+      text,
+      start: (layer.ip ?? 0) / framerate,
+      end: (layer.op ?? layer.ip ?? 0) / framerate
+    }
+
+    const rest = this.readPhases(name, transform, layer.st ?? 0, word, context)
+
+    // The rest pose should sit at the comp centre; the layout places words itself
+    const offCentre = rest && (Math.abs(rest.p[0] - context.center[0]) > stageScale * 2 || Math.abs(rest.p[1] - context.center[1]) > stageScale * 2)
+    if (checkPosition && offCentre) {
+      report.push({ severity: 'info', layer: name, message: 'Layer position is not imported; words are placed by the automatic layout' })
+    }
+
+    return word
+  }
+
+  /**
+   * Read the entry and exit phases of position, scale, rotation and opacity keyframes into
+   * the word; returns the rest pose, or null when nothing moves
+   */
+  private readPhases(
+    name: string,
+    properties: Record<string, LottiePropertyJson | undefined>,
+    offset: number,
+    word: ImportedWord,
+    { framerate, stageScale, report }: ImportContext
+  ): { p: number[], s: number, r: number, o: number } | null {
+    const tracks = {
+      p: properties.p?.s ? null : readKeyframes(properties.p, offset),
+      s: readKeyframes(properties.s, offset),
+      r: readKeyframes(properties.r, offset),
+      o: readKeyframes(properties.o, offset)
+    }
+    const poseAt = (frame: number) => ({
+      p: valueAt(tracks.p, properties.p?.k, frame, [0, 0]),
+      s: valueAt(tracks.s, properties.s?.k, frame, [100, 100])[0],
+      r: valueAt(tracks.r, properties.r?.k, frame, [0])[0],
+      o: valueAt(tracks.o, properties.o?.k, frame, [100])[0]
+    })
+
+    const intervals = getMotionIntervals(Object.values(tracks))
+    if (intervals.length > 2) {
+      report.push({ severity: 'warning', layer: name, message: `Only the first and last of ${intervals.length} movements are kept; motion tags have one entry and one exit` })
+    }
+    if (intervals.length === 0) return null
+
+    const easingAt = (frame: number): Bezier => {
+      // The most visible property that moves at this frame sets the easing
+      const track = [tracks.p, tracks.s, tracks.o, tracks.r].find(keyframes => keyframes?.some((keyframe, index) =>
+        keyframe.frame === frame && index < keyframes.length - 1 && !sameValue(keyframe.value, keyframes[index + 1].value)
+      ))
+      return track?.find(keyframe => keyframe.frame === frame)?.easing ?? DEFAULT_BEZIER
+    }
+    const createPhase = ([from, to]: [number, number], rest: ReturnType<typeof poseAt>, moving: ReturnType<typeof poseAt>): ImportedPhase => ({
+      start: from / framerate,
+      duration: (to - from) / framerate,
+      easing: easingAt(from),
+      delta: {
+        x: (moving.p[0] - rest.p[0]) / stageScale,
+        y: (moving.p[1] - rest.p[1]) / stageScale,
+        scale: rest.s !== 0 ? moving.s / rest.s : 1,
+        rotate: moving.r - rest.r,
+        opacity: Math.max(0, Math.min(1, moving.o / 100))
+      }
+    })
+
+    const first = intervals[0]
+    const last = intervals[intervals.length - 1]
+    // A single movement is an entry when the layer becomes more visible over it
+    const isEntry = intervals.length > 1 || poseAt(first[0]).o < poseAt(first[1]).o
+
+    if (isEntry) {
+      word.entry = createPhase(first, poseAt(first[1]), poseAt(first[0]))
+    }
+    if (intervals.length > 1 || !isEntry) {
+      word.exit = createPhase(last, poseAt(last[0]), poseAt(last[1]))
+    }
+
+    return poseAt(isEntry ? first[1] : first[0])
+  }
+
+  /**
+   * Read text animators that each select one character or line by index, as Typographer
+   * exports them. The first unit carries the timeline; the next one gives the stagger.
+   */
+  private readUnitAnimators(name: string, animators: TextAnimatorJson[], word: ImportedWord, context: ImportContext): void {
+    const units = animators.filter(animator => {
+      const selector = animator.s ?? {}
+      const supported = (selector.b === 1 || selector.b === 4) && selector.r === 2 &&
+        !isAnimated(selector.s) && !isAnimated(selector.e) && !isAnimated(selector.o)
+      if (!supported) {
+        context.report.push({ severity: 'warning', layer: name, message: `Text animator '${animator.nm ?? 'Animator'}' is not supported and is ignored` })
+      }
+      return supported
+    })
+    if (units.length === 0) return
+
+    const selectedFrom = (animator: TextAnimatorJson) => staticValue(animator.s?.s, [0])[0]
+    units.sort((a, b) => selectedFrom(a) - selectedFrom(b))
+    const [first, second] = units
+
+    word.unit = first.s?.b === 4 ? 'line' : 'character'
+    this.readPhases(name, first.a ?? {}, 0, word, context)
+
+    const firstStart = this.getFirstKeyframe(first.a, 0)
+    const secondStart = second ? this.getFirstKeyframe(second.a, 0) : null
+    if (firstStart !== null && secondStart !== null) {
+      word.stagger = roundSeconds((secondStart - firstStart) / context.framerate)
+    }
+  }
+
+  /**
+   * Typography from a text document; the project has one typography, so differences are reported
+   */
+  private readTypography(
+    layer: string,
+    document: TextDocumentJson,
+    lottie: LottieJson,
+    typography: Partial<TypographySettings>,
+    { stageScale, report }: ImportContext
+  ): void {
+    const font = lottie.fonts?.list?.find(entry => entry.fName === document.f)
+    const fontSize = typeof document.s === 'number' ? document.s : undefined
+    const weight = Number(font?.fWeight) || (/bold/i.test(font?.fStyle ?? '') ? 700 : undefined)
+
+    const read: Partial<TypographySettings> = {
+      fontFamily: font?.fFamily || document.f,
+      fontWeight: weight,
+      fontSize: fontSize !== undefined ? round(fontSize / stageScale / ROOT_FONT_SIZE) : undefined,
+      lineHeight: fontSize && typeof document.lh === 'number' ? round(document.lh / fontSize) : undefined,
+      letterSpacing: typeof document.tr === 'number' ? round(document.tr / 1000, 3) : undefined,
+      textColor: Array.isArray(document.fc) ? toHexColor(document.fc) : undefined,
+      textAlign: JUSTIFICATIONS[document.j ?? 0]
+    }
+    if ((document.j ?? 0) > 2) {
+      report.push({ severity: 'warning', layer, message: 'Justified text is imported as left-aligned' })
+      read.textAlign = 'left'
+    }
+    if (document.ls) {
+      report.push({ severity: 'info', layer, message: 'Baseline shift is not supported' })
+    }
+
+    for (const key of Object.keys(read) as Array<keyof TypographySettings>) {
+      const value = read[key]
+      if (value === undefined) continue
+      if (typography[key] === undefined) {
+        (typography as Record<string, unknown>)[key] = value
+      } else if (typography[key] !== value) {
+        report.push({ severity: 'warning', layer, message: `Uses a different ${key} (${value}); the project uses ${typography[key]} for all text` })
+      }
+    }
+  }
+
+  private reportUnsupportedFeatures(layer: LottieLayerJson, report: LottieImportIssue[]): void {
+    const layerName = layer.nm || 'Unnamed layer'
+    const unsupported = [
+      layer.ddd && '3D transforms',
+      layer.parent !== undefined && 'parenting',
+      layer.hasMask && 'masks',
+      layer.ef?.length && 'effects',
+      layer.tm && 'time remapping'
+    ].filter(Boolean)
+
+    if (unsupported.length > 0) {
+      report.push({ severity: 'warning', layer: layerName, message: `Ignored: ${unsupported.join(', ')}` })
+    }
+  }
+
+  private getFirstKeyframe(properties: Record<string, LottiePropertyJson | undefined> | undefined, offset: number): number | null {
+    const frames = ['p', 's', 'r', 'o']
+      .map(key => readKeyframes(properties?.[key], offset)?.[0]?.frame)
+      .filter((frame): frame is number => frame !== undefined)
+    return frames.length > 0 ? Math.min(...frames) : null
+  }
+
+  /**
+   * Motion language plays words one after another; use the most common gap between them.
+   * Overlapping words are left to anchors, so the gap is never negative.
+   */
+  private chooseWordGap(words: ImportedWord[]): number {
+    const gaps = words.slice(1)
+      .map((word, index) => roundSeconds(word.start - words[index].end))
+      .filter(gap => gap >= 0)
+    if (gaps.length === 0) return 0
+
+    const counts = new Map<number, number>()
+    gaps.forEach(gap => counts.set(gap, (counts.get(gap) ?? 0) + 1))
+    return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0])[0][0]
+  }
+
+  /**
+   * Write each word with its tag; words that do not start where the previous one leaves off
+   * get an anchor to their start
+   */
+  private writeMotionText(
+    words: ImportedWord[],
+    wordGap: number,
+    easingCurves: EasingCurve[],
+    report: LottieImportIssue[]
+  ): string {
+    let followOn = 0 // Where the next word starts without an anchor
+    let previous: { start: number, end: number } | null = null
+
+    const groups = words.map(word => {
+      // Staggered pieces finish later than the first one, and the next word waits for them
+      const staggerSpan = word.unit && word.unit !== 'word' && word.stagger
+        ? ((word.unit === 'line' ? word.text.split('\n') : splitGraphemes(word.text.replace(/\n/g, ''))).length - 1) * word.stagger
+        : 0
+      const config = this.createMotionConfig(word, staggerSpan, easingCurves, report)
+
+      // Anchors are relative to the previous word where they can be, so they survive retiming it
+      let start = followOn
+      if (Math.abs(word.start - followOn) > START_TOLERANCE) {
+        if (!previous) {
+          start = roundSeconds(word.start)
+          config.anchor = { type: 'absolute', time: start }
+        } else if (Math.abs(word.start - previous.start) <= START_TOLERANCE) {
+          start = previous.start
+          config.anchor = { type: 'with-previous' }
+        } else {
+          const offset = roundSeconds(word.start - previous.end)
+          start = previous.end + offset
+          config.anchor = { type: 'offset', offset }
+        }
+      }
+      // The tag keeps hundredths, so the next start follows from the rounded times
+      const duration = roundSeconds(config.entrySpeed ?? 0) + roundSeconds(config.displayDuration) + roundSeconds(config.exitSpeed ?? 0) + staggerSpan
+      previous = { start, end: start + duration }
+      followOn = previous.end + wordGap
+
+      if (/[<>]/.test(word.text)) {
+        report.push({ severity: 'warning', layer: word.layer, message: 'Angle brackets are reserved for motion tags and were removed from the text' })
+      }
+      const text = word.text.replace(/[<>]/g, '').split('\n').map(line => line.trim().replace(/\s+/g, ' ')).join('\n')
+
+      return `${text} ${serializeMotionTag(config)}`
+    })
+
+    return groups.join(' ')
+  }
+
+  private createMotionConfig(
+    word: ImportedWord,
+    staggerSpan: number,
+    easingCurves: EasingCurve[],
+    report: LottieImportIssue[]
+  ): MotionConfig {
+    const { entry, exit } = word
+    if (!entry && !exit) {
+      report.push({ severity: 'info', layer: word.layer, message: 'No animation: the text cuts in and out' })
+    } else if (!entry) {
+      report.push({ severity: 'info', layer: word.layer, message: 'No entry animation: the text cuts in' })
+    } else if (!exit) {
+      report.push({ severity: 'info', layer: word.layer, message: 'No exit animation: the text cuts out' })
+    }
+
+    const entryStart = entry?.start ?? word.start
+    const entrySpeed = entry ? Math.max(entry.duration, MIN_SECONDS) : MIN_SECONDS
+    const exitSpeed = exit ? Math.max(exit.duration, MIN_SECONDS) : MIN_SECONDS
+    const exitStart = exit?.start ?? word.end - exitSpeed - staggerSpan
+    const entryMotion = this.describeMotion(word.layer, 'entry', entry?.delta, report)
+    const exitMotion = this.describeMotion(word.layer, 'exit', exit?.delta, report)
+    const matchedEntry = entry && this.matchEasing(word.layer, entry.easing, easingCurves, report)
+    const matchedExit = exit && this.matchEasing(word.layer, exit.easing, easingCurves, report)
+    // A cut has no easing of its own; it follows the other phase
+    const entryEasing = matchedEntry ?? matchedExit
+    const exitEasing = matchedExit ?? matchedEntry
+
+    return {
+      entryDirection: entryMotion.direction,
+      speed: 50, // Legacy field, not used in new format
+      displayDuration: Math.max(exitStart - entryStart - entrySpeed, MIN_SECONDS),
+      zoomType: ZoomType.ZOOM_IN,
+      exitDirection: exitMotion.direction,
+      entrySpeed,
+      exitSpeed,
+      entryRotate: entryMotion.rotate,
+      exitRotate: exitMotion.rotate,
+      // Curves that match the project default are left out of the tag
+      entryEasing: entryEasing !== DEFAULT_MOTION_SETTINGS.defaultEasing || exitEasing !== entryEasing ? entryEasing : undefined,
+      exitEasing: exitEasing !== DEFAULT_MOTION_SETTINGS.defaultEasing || exitEasing !== entryEasing ? exitEasing : undefined,
+      unit: word.unit,
+      stagger: word.stagger
+    }
+  }
+
+  /**
+   * The direction code closest to an offset from the rest pose. Distances, scales and angles
+   * are project-wide settings in motion language, so only their direction is kept.
+   */
+  private describeMotion(
+    layer: string,
+    phase: 'entry' | 'exit',
+    delta: PoseDelta | undefined,
+    report: LottieImportIssue[]
+  ): { direction: MotionDirection, rotate: boolean } {
+    if (!delta) return { direction: MotionDirection.FRONT, rotate: false }
+
+    const horizontal = delta.x < -1 ? 'L' : delta.x > 1 ? 'R' : ''
+    const vertical = delta.y < -1 ? 'U' : delta.y > 1 ? 'D' : ''
+    const rotate = Math.abs(delta.rotate) > 0.5
+    let direction = (vertical + horizontal) as MotionDirection
+
+    if (!direction) {
+      if (delta.scale < 0.99) {
+        direction = MotionDirection.FRONT
+      } else if (delta.scale > 1.01) {
+        direction = MotionDirection.BACK
+      } else {
+        direction = MotionDirection.FRONT
+        report.push({ severity: 'info', layer, message: `The ${phase} only fades; it is imported as a front (F) zoom` })
+      }
+    } else if (Math.abs(delta.scale - 1) > 0.01) {
+      report.push({ severity: 'info', layer, message: `The ${phase} both moves and scales; only the movement is kept` })
+    }
+    if (delta.opacity > 0.01) {
+      report.push({ severity: 'info', layer, message: `The ${phase} does not fade fully; motion tags always fade from or to transparent` })
+    }
+
+    return { direction, rotate }
+  }
+
+  /**
+   * Closest easing curve to a keyframe's bezier
+   */
+  private matchEasing(layer: string, bezier: Bezier, easingCurves: EasingCurve[], report: LottieImportIssue[]): string {
+    const distance = (curve: EasingCurve) => Math.hypot(...curve.cubicBezier.map((value, index) => value - bezier[index]))
+    const [closest] = [...easingCurves].sort((a, b) => distance(a) - distance(b))
+    if (!closest) return DEFAULT_MOTION_SETTINGS.defaultEasing
+
+    if (distance(closest) > EASING_TOLERANCE) {
+      report.push({
+        severity: 'info',
+        layer,
+        message: `Easing cubic-bezier(${bezier.map(value => round(value, 3)).join(', ')}) is approximated by ${closest.name}`
+      })
+    }
+    return closest.id
+  }
+}
+
+interface ImportContext {
+  framerate: number
+  stageScale: number
+  center: [number, number]
+  report: LottieImportIssue[]
+}
+
+const DEFAULT_BEZIER: Bezier = [0.25, 0.46, 0.45, 0.94] // easeOutCubic, the default curve
+
+function isAnimated(property: LottiePropertyJson | undefined): property is LottiePropertyJson & { k: KeyframeJson[] } {
+  const first = Array.isArray(property?.k) ? property.k[0] : undefined
+  return typeof first === 'object' && first !== null && 't' in first
+}
+
+/**
+ * Keyframes of an animated property in composition frames; null for static properties.
+ * Older files store the end value on the previous keyframe ('e') instead of a final 's'.
+ */
+function readKeyframes(property: LottiePropertyJson | undefined, offset: number): Keyframe[] | null {
+  if (!isAnimated(property)) return null
+
+  const raw = property.k
+  return raw.map((keyframe, index) => {
+    const value = keyframe.s ?? raw[index - 1]?.e ?? raw[index - 1]?.s ?? [0]
+    const first = (tangent: KeyframeJson['i'], axis: 'x' | 'y', fallback: number) => {
+      const component = tangent?.[axis]
+      return Array.isArray(component) ? component[0] ?? fallback : typeof component === 'number' ? component : fallback
+    }
+    return {
+      frame: keyframe.t + offset,
+      value: Array.isArray(value) ? value : [value],
+      easing: [first(keyframe.o, 'x', 0), first(keyframe.o, 'y', 0), first(keyframe.i, 'x', 1), first(keyframe.i, 'y', 1)] as Bezier,
+      hold: keyframe.h === 1
+    }
+  })
+}
+
+function staticValue(property: LottiePropertyJson | undefined, fallback: number[]): number[] {
+  return valueAt(null, property?.k, 0, fallback)
+}
+
+/**
+ * Value at a frame, interpolated linearly between keyframes (exact at the keyframes themselves)
+ */
+function valueAt(keyframes: Keyframe[] | null, staticValue: unknown, frame: number, fallback: number[]): number[] {
+  if (!keyframes) {
+    if (Array.isArray(staticValue)) return staticValue as number[]
+    return typeof staticValue === 'number' ? [staticValue] : fallback
+  }
+
+  const nextIndex = keyframes.findIndex(keyframe => keyframe.frame > frame)
+  if (nextIndex === 0) return keyframes[0].value
+  if (nextIndex === -1) return keyframes[keyframes.length - 1].value
+
+  const previous = keyframes[nextIndex - 1]
+  const next = keyframes[nextIndex]
+  if (previous.hold) return previous.value
+  const amount = (frame - previous.frame) / (next.frame - previous.frame)
+  return previous.value.map((value, index) => value + ((next.value[index] ?? value) - value) * amount)
+}
+
+/**
+ * Frame ranges in which any property changes, with touching ranges merged
+ */
+function getMotionIntervals(tracks: Array<Keyframe[] | null>): Array<[number, number]> {
+  const segments: Array<[number, number]> = []
+  tracks.forEach(keyframes => {
+    keyframes?.slice(0, -1).forEach((keyframe, index) => {
+      const next = keyframes[index + 1]
+      if (!keyframe.hold && !sameValue(keyframe.value, next.value)) {
+        segments.push([keyframe.frame, next.frame])
+      }
+    })
+  })
+
+  segments.sort((a, b) => a[0] - b[0])
+  return segments.reduce<Array<[number, number]>>((intervals, [start, end]) => {
+    const last = intervals[intervals.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end)
+    } else {
+      intervals.push([start, end])
+    }
+    return intervals
+  }, [])
+}
+
+function sameValue(a: number[], b: number[]): boolean {
+  return a.every((value, index) => Math.abs(value - (b[index] ?? value)) < 1e-3)
+}
+
+function toHexColor(rgb: number[]): string {
+  // Colours are 0-1, though some exporters write 0-255
+  const scale = rgb.slice(0, 3).some(channel => channel > 1) ? 1 : 255
+  return `#${rgb.slice(0, 3).map(channel => Math.round(Math.max(0, Math.min(255, channel * scale))).toString(16).padStart(2, '0')).join('')}`
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+function roundSeconds(value: number): number {
+  return round(value, 2)
+}
+
+// Export singleton instance
+export const lottieImporter = new LottieImporter()
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_MOTION_SETTINGS } from '@/types/motion'
+import { calculateMotionTiming, parseMotionLanguage } from '@/lib/utils/motion-parser'
+import { subtitleImporter } from './subtitle-importer'
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+Hello there
+
+2
+00:00:04,250 --> 00:00:06,000
+<i>Second</i> cue
+on two lines
+
+3
+00:01:02,500 --> 00:01:02,540
+Blink
+`
+
+const VTT = `WEBVTT
+
+NOTE a comment
+
+intro
+00:02.000 --> 00:04.000
+First
+
+00:00:05.500 --> 00:00:07.000 align:start
+Second
+`
+
+describe('subtitleImporter', () => {
+  it.each([
+    ['SRT', SRT, [1, 4.25, 62.5]],
+    ['WebVTT', VTT, [2, 5.5]]
+  ])('writes %s cues as text that plays at the cue starts', (_, source, starts) => {
+    const { words, textContent } = subtitleImporter.importSubtitles(source)
+    const parsed = calculateMotionTiming(parseMotionLanguage(textContent).words, 0, DEFAULT_MOTION_SETTINGS)
+
+    expect(words.map(word => word.startTime)).toEqual(starts)
+    expect(parsed.map(word => word.startTime)).toEqual(starts)
+    parsed.forEach((word, index) => expect(word.duration).toBeCloseTo(words[index].duration, 5))
+  })
+
+  it('reports cues too short for their entry, display and exit', () => {
+    const { words, report } = subtitleImporter.importSubtitles(SRT)
+
+    expect(words[2].duration).toBeGreaterThan(0.04)
+    expect(report).toEqual([
+      expect.objectContaining({ severity: 'warning', cue: 3, message: expect.stringMatching(/shorter than a tag allows/) })
+    ])
+  })
+})
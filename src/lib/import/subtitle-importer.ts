@@ -0,0 +1,178 @@
+// Subtitle Importer - Turn SRT and WebVTT cues into timed word groups. Each cue becomes one
+// tagged group pinned to the cue's start time, so the text edits like any motion-language text.
+
+import { AnimationType, DiagnosticSeverity, MotionConfig, MotionDirection, WordData, ZoomType } from '@/types/typographer'
+import { serializeMotionTag } from '@/lib/utils/motion-parser'
+
+export type SubtitleFormat = 'srt' | 'vtt'
+
+export interface SubtitleImportIssue {
+  severity: DiagnosticSeverity
+  cue?: number // 1-based position of the cue in the file
+  message: string
+}
+
+export interface SubtitleImportResult {
+  format: SubtitleFormat
+  words: WordData[] // One group per cue, with absolute start times and durations
+  textContent: string // Motion-language text, one tagged group per cue
+  report: SubtitleImportIssue[]
+}
+
+export interface SubtitleImportOptions {
+  entryDirection?: MotionDirection
+  exitDirection?: MotionDirection
+  transitionDuration?: number // Seconds for each cue's entry and exit
+}
+
+interface Cue {
+  number: number // 1-based position in the file, for the report
+  start: number
+  end: number
+  text: string // Lines separated by \n
+}
+
+const DEFAULT_TRANSITION = 0.3
+const MIN_TRANSITION = 0.01 // A zero entry or exit speed in a tag means the default speed
+const MIN_DISPLAY = 0.1 // Shortest display duration a tag accepts
+const MAX_DISPLAY = 30 // Longest display duration a tag accepts
+// hh:mm:ss,mmm in SRT; WebVTT uses a dot and may leave out the hours
+const TIMING_PATTERN = /^\s*((?:\d+:)?\d{1,2}:\d{1,2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{1,2}[.,]\d{1,3})/
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+export class SubtitleImporter {
+  /**
+   * Parse an SRT or WebVTT file; the format is detected from the WEBVTT header
+   */
+  importSubtitles(source: string, options: SubtitleImportOptions = {}): SubtitleImportResult {
+    const text = source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+    const format: SubtitleFormat = /^WEBVTT(?:[ \t].*)?(?:\n|$)/.test(text) ? 'vtt' : 'srt'
+    const report: SubtitleImportIssue[] = []
+    const cues = this.parseCues(text, format, report)
+
+    if (cues.length === 0) {
+      throw new Error(`No cues found. Check that the file is ${format === 'vtt' ? 'WebVTT' : 'SRT'} with timings like 00:00:01,000 --> 00:00:04,000`)
+    }
+
+    const words = cues.map((cue, index) => this.createWord(cue, index, options, report))
+    const textContent = words.map(word => this.toMotionText(word)).join('\n')
+
+    return { format, words, textContent, report }
+  }
+
+  private parseCues(text: string, format: SubtitleFormat, report: SubtitleImportIssue[]): Cue[] {
+    const cues: Cue[] = []
+    const blocks = text.split(/\n\s*\n/).map(block => block.split('\n').filter(line => line.trim() !== ''))
+    let number = 0
+
+    blocks.forEach(lines => {
+      // WebVTT header, comments, styles and regions carry no cues
+      if (lines.length === 0 || (format === 'vtt' && /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0]))) return
+      number++
+
+      // A cue may start with its number (SRT) or identifier (WebVTT)
+      const timingIndex = lines.findIndex(line => line.includes('-->'))
+      const timing = timingIndex >= 0 ? TIMING_PATTERN.exec(lines[timingIndex]) : null
+      if (!timing || timingIndex > 1) {
+        report.push({ severity: 'warning', cue: number, message: `Skipped a block without a valid timing line: "${lines[0].slice(0, 40)}"` })
+        return
+      }
+
+      const start = this.parseTimestamp(timing[1])
+      const end = this.parseTimestamp(timing[2])
+      const cueText = lines.slice(timingIndex + 1).map(line => this.cleanLine(line)).filter(Boolean).join('\n')
+      if (!cueText) {
+        report.push({ severity: 'info', cue: number, message: 'Skipped a cue without text' })
+        return
+      }
+      if (end <= start) {
+        report.push({ severity: 'warning', cue: number, message: 'Skipped a cue that ends before it starts' })
+        return
+      }
+
+      cues.push({ number, start, end, text: cueText })
+    })
+
+    return cues
+  }
+
+  private createWord(cue: Cue, index: number, options: SubtitleImportOptions, report: SubtitleImportIssue[]): WordData {
+    // Tags keep hundredths of a second, so round here to make the text reproduce these words exactly
+    const duration = cue.end - cue.start
+    const transition = Math.max(MIN_TRANSITION, roundTime(Math.min(options.transitionDuration ?? DEFAULT_TRANSITION, duration / 4)))
+    const displayDuration = roundTime(Math.min(MAX_DISPLAY, Math.max(MIN_DISPLAY, duration - transition * 2)))
+    const length = roundTime(transition * 2 + displayDuration)
+    if (duration - transition * 2 > MAX_DISPLAY) {
+      report.push({ severity: 'warning', cue: cue.number, message: `Cue is longer than a tag allows; it now shows for ${MAX_DISPLAY}s` })
+    } else if (length > roundTime(duration)) {
+      report.push({ severity: 'warning', cue: cue.number, message: `Cue is shorter than a tag allows; it now lasts ${length}s and may overlap the next cue` })
+    }
+
+    // A '<' in the text would open a motion tag
+    const text = cue.text.replace(/</g, '‹')
+    if (text !== cue.text) {
+      report.push({ severity: 'info', cue: cue.number, message: "Replaced '<' with '‹' so it is not read as a motion tag" })
+    }
+
+    const motionConfig: MotionConfig = {
+      entryDirection: options.entryDirection ?? MotionDirection.FRONT,
+      speed: 50, // Legacy field, not used in new format
+      displayDuration,
+      zoomType: ZoomType.ZOOM_IN,
+      exitDirection: options.exitDirection ?? MotionDirection.FRONT,
+      entrySpeed: transition,
+      exitSpeed: transition,
+      anchor: { type: 'absolute', time: roundTime(cue.start) }
+    }
+    const lines = text.split('\n')
+
+    return {
+      id: `word-${index}-${Date.now()}`,
+      text: lines.join(' '),
+      animation: AnimationType.MOTION_LANGUAGE,
+      motionConfig,
+      startTime: roundTime(cue.start),
+      duration: transition * 2 + displayDuration,
+      easing: 'easeOut',
+      position: { x: 0, y: 0 },
+      index,
+      ...(lines.length > 1 && { lines })
+    }
+  }
+
+  /**
+   * The group as written in the editor: its lines followed by its tag
+   */
+  private toMotionText(word: WordData): string {
+    const text = (word.lines ?? [word.text]).join('\n')
+    return word.motionConfig ? `${text} ${serializeMotionTag(word.motionConfig)}` : text
+  }
+
+  /**
+   * Seconds from hh:mm:ss,mmm (SRT) or [hh:]mm:ss.mmm (WebVTT)
+   */
+  private parseTimestamp(timestamp: string): number {
+    const [clock, fraction] = timestamp.split(/[.,]/)
+    const seconds = clock.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0)
+    return seconds + parseInt(fraction.padEnd(3, '0'), 10) / 1000
+  }
+
+  /**
+   * Strip markup (<i>, <c.class>, <v Speaker>, inline timestamps, {\an8}) and decode entities
+   */
+  private cleanLine(line: string): string {
+    return line
+      .replace(/<[^>]*>/g, '')
+      .replace(/\{\\[^}]*\}/g, '')
+      .replace(/&(amp|lt|gt|quot|apos|nbsp);/g, (_, name: string) => ENTITIES[name])
+      .replace(/\s+/g, ' ')
+      .trim()
+  }
+}
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 100) / 100
+}
+
+// Export singleton instance
+export const subtitleImporter = new SubtitleImporter()
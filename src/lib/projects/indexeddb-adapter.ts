@@ -0,0 +1,279 @@
+// IndexedDB backend: one record per project, with a one-time import of localStorage data
+
+import { ProjectData, ProjectLoadResult, QuarantinedProject } from '@/types/project'
+import { ProjectStorage, STORAGE_KEYS } from './storage'
+import { StorageAdapter } from './storage-adapter'
+import { LocalStorageAdapter } from './local-storage-adapter'
+
+const DB_NAME = 'typographer'
+const DB_VERSION = 2
+
+const STORES = {
+  PROJECTS: 'projects',
+  QUARANTINE: 'quarantine',
+  AUDIO: 'audio', // Audio files keyed by project ID
+  META: 'meta'
+} as const
+
+const META_KEYS = {
+  CURRENT_PROJECT: 'currentProjectId',
+  LEGACY_MIGRATED: 'legacyMigrated'
+} as const
+
+type StoreName = typeof STORES[keyof typeof STORES]
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export class IndexedDBAdapter implements StorageAdapter {
+  readonly type = 'indexeddb' as const
+
+  private constructor(private readonly db: IDBDatabase) {}
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined'
+  }
+
+  /**
+   * Open the database and import any projects still kept in localStorage
+   */
+  static async open(): Promise<IndexedDBAdapter> {
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const database = request.result
+        if (!database.objectStoreNames.contains(STORES.PROJECTS)) {
+          database.createObjectStore(STORES.PROJECTS, { keyPath: 'id' })
+        }
+        if (!database.objectStoreNames.contains(STORES.QUARANTINE)) {
+          database.createObjectStore(STORES.QUARANTINE, { autoIncrement: true })
+        }
+        if (!database.objectStoreNames.contains(STORES.AUDIO)) {
+          database.createObjectStore(STORES.AUDIO)
+        }
+        if (!database.objectStoreNames.contains(STORES.META)) {
+          database.createObjectStore(STORES.META)
+        }
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+      request.onblocked = () => reject(new Error('Project database is blocked by another open tab'))
+    })
+
+    const adapter = new IndexedDBAdapter(db)
+    await adapter.migrateFromLocalStorage()
+    return adapter
+  }
+
+  async loadProjects(): Promise<ProjectLoadResult> {
+    const records = await this.run(STORES.PROJECTS, 'readonly', store => store.getAll())
+
+    const projects: ProjectData[] = []
+    const quarantined: QuarantinedProject[] = []
+    const upgraded: ProjectData[] = []
+
+    records.forEach(record => {
+      try {
+        const { project, migrated } = ProjectStorage.decodeRecord(record)
+        projects.push(project)
+        if (migrated) upgraded.push(project)
+      } catch (error) {
+        quarantined.push(ProjectStorage.createQuarantineEntry(record, error))
+      }
+    })
+
+    if (upgraded.length > 0 || quarantined.length > 0) {
+      await this.transaction([STORES.PROJECTS, STORES.QUARANTINE], 'readwrite', tx => {
+        // Persist upgraded records so migrations only run once
+        upgraded.forEach(project => tx.objectStore(STORES.PROJECTS).put(ProjectStorage.toRecord(project)))
+        quarantined.forEach(entry => {
+          if (entry.id) tx.objectStore(STORES.PROJECTS).delete(entry.id)
+          tx.objectStore(STORES.QUARANTINE).add(entry)
+        })
+      })
+    }
+
+    return { projects, quarantined }
+  }
+
+  async saveProject(project: ProjectData): Promise<void> {
+    try {
+      await this.run(STORES.PROJECTS, 'readwrite', store => store.put(ProjectStorage.toRecord(project)))
+    } catch (error) {
+      console.error('Failed to save project:', error)
+      throw new Error('Failed to save project to storage')
+    }
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    try {
+      await this.transaction([STORES.PROJECTS, STORES.AUDIO], 'readwrite', tx => {
+        tx.objectStore(STORES.PROJECTS).delete(id)
+        tx.objectStore(STORES.AUDIO).delete(id)
+      })
+    } catch (error) {
+      console.error('Failed to delete project:', error)
+      throw new Error('Failed to delete project from storage')
+    }
+  }
+
+  async loadAudio(projectId: string): Promise<Blob | null> {
+    try {
+      const audio = await this.run(STORES.AUDIO, 'readonly', store => store.get(projectId))
+      return audio instanceof Blob ? audio : null
+    } catch (error) {
+      console.error('Failed to load project audio:', error)
+      return null
+    }
+  }
+
+  async saveAudio(projectId: string, audio: Blob): Promise<void> {
+    try {
+      await this.run(STORES.AUDIO, 'readwrite', store => store.put(audio, projectId))
+    } catch (error) {
+      console.error('Failed to save project audio:', error)
+      throw new Error('Failed to save audio to storage')
+    }
+  }
+
+  async deleteAudio(projectId: string): Promise<void> {
+    try {
+      await this.run(STORES.AUDIO, 'readwrite', store => store.delete(projectId))
+    } catch (error) {
+      console.error('Failed to delete project audio:', error)
+    }
+  }
+
+  async loadCurrentProjectId(): Promise<string | null> {
+    try {
+      const id = await this.run(STORES.META, 'readonly', store => store.get(META_KEYS.CURRENT_PROJECT))
+      return typeof id === 'string' ? id : null
+    } catch (error) {
+      console.error('Failed to load current project ID:', error)
+      return null
+    }
+  }
+
+  async saveCurrentProjectId(projectId: string | null): Promise<void> {
+    try {
+      await this.transaction([STORES.META], 'readwrite', tx => {
+        const meta = tx.objectStore(STORES.META)
+        if (projectId) {
+          meta.put(projectId, META_KEYS.CURRENT_PROJECT)
+        } else {
+          meta.delete(META_KEYS.CURRENT_PROJECT)
+        }
+      })
+    } catch (error) {
+      console.error('Failed to save current project ID:', error)
+    }
+  }
+
+  async loadQuarantine(): Promise<QuarantinedProject[]> {
+    try {
+      return await this.run(STORES.QUARANTINE, 'readonly', store => store.getAll())
+    } catch (error) {
+      console.error('Failed to load quarantined projects:', error)
+      return []
+    }
+  }
+
+  async clearQuarantine(): Promise<void> {
+    try {
+      await this.run(STORES.QUARANTINE, 'readwrite', store => store.clear())
+    } catch (error) {
+      console.error('Failed to clear quarantined projects:', error)
+    }
+  }
+
+  /**
+   * Copy projects, quarantine and the current project ID out of localStorage once,
+   * then free the localStorage keys. Records are copied raw and upgraded on load.
+   */
+  private async migrateFromLocalStorage(): Promise<void> {
+    const done = await this.run(STORES.META, 'readonly', store => store.get(META_KEYS.LEGACY_MIGRATED))
+    if (done) return
+
+    const legacy = new LocalStorageAdapter()
+    let records: Array<{ id: string; record: unknown }> = []
+    let quarantine: QuarantinedProject[] = []
+    let currentProjectId: string | null = null
+
+    try {
+      records = legacy.readRecords()
+      quarantine = legacy.readQuarantine()
+      currentProjectId = await legacy.loadCurrentProjectId()
+    } catch (error) {
+      console.error('Failed to read projects from localStorage:', error)
+    }
+
+    await this.transaction([STORES.PROJECTS, STORES.QUARANTINE, STORES.META], 'readwrite', tx => {
+      const projects = tx.objectStore(STORES.PROJECTS)
+      records.forEach(({ id, record }) => {
+        const fields = record && typeof record === 'object' ? record as Record<string, unknown> : {}
+        projects.put({ ...fields, id: typeof fields.id === 'string' ? fields.id : id })
+      })
+
+      quarantine.forEach(entry => tx.objectStore(STORES.QUARANTINE).add(entry))
+
+      const meta = tx.objectStore(STORES.META)
+      if (currentProjectId) meta.put(currentProjectId, META_KEYS.CURRENT_PROJECT)
+      meta.put(true, META_KEYS.LEGACY_MIGRATED)
+    })
+
+    // Only drop the old data once the copy has committed
+    try {
+      legacy.clearProjects()
+      localStorage.removeItem(STORAGE_KEYS.QUARANTINE)
+      localStorage.removeItem(STORAGE_KEYS.CURRENT_PROJECT)
+    } catch (error) {
+      console.error('Failed to clear migrated localStorage data:', error)
+    }
+  }
+
+  /**
+   * Run a single request against one store and resolve with its result
+   */
+  private async run<T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const tx = this.db.transaction(storeName, mode)
+    const [result] = await Promise.all([
+      promisifyRequest(operation(tx.objectStore(storeName))),
+      this.complete(tx)
+    ])
+    return result
+  }
+
+  /**
+   * Run several operations in one transaction and resolve once it commits
+   */
+  private transaction(
+    storeNames: StoreName[],
+    mode: IDBTransactionMode,
+    operations: (tx: IDBTransaction) => void
+  ): Promise<void> {
+    const tx = this.db.transaction(storeNames, mode)
+    operations(tx)
+    return this.complete(tx)
+  }
+
+  private complete(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'))
+    })
+  }
+}
@@ -0,0 +1,244 @@
+// localStorage backend: one key per project plus an index of project IDs
+
+import { ProjectData, ProjectLoadResult, QuarantinedProject } from '@/types/project'
+import { ProjectStorage, STORAGE_KEYS } from './storage'
+import { StorageAdapter } from './storage-adapter'
+
+/**
+ * Read a Blob into a data URL
+ */
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly type = 'localStorage' as const
+
+  /**
+   * Load projects, splitting the legacy single-array store into records on first run
+   */
+  async loadProjects(): Promise<ProjectLoadResult> {
+    this.migrateLegacyArray()
+
+    const projects: ProjectData[] = []
+    const quarantined: QuarantinedProject[] = []
+
+    this.readRecords().forEach(({ id, record }) => {
+      try {
+        const { project, migrated } = ProjectStorage.decodeRecord(record)
+        projects.push(project)
+
+        // Persist upgraded records so migrations only run once
+        if (migrated) {
+          this.writeRecord(project)
+        }
+      } catch (error) {
+        quarantined.push(ProjectStorage.createQuarantineEntry(record, error))
+        this.removeRecord(id)
+      }
+    })
+
+    if (quarantined.length > 0) {
+      this.appendQuarantine(quarantined)
+    }
+
+    return { projects, quarantined }
+  }
+
+  async saveProject(project: ProjectData): Promise<void> {
+    try {
+      this.writeRecord(project)
+    } catch (error) {
+      console.error('Failed to save project:', error)
+      throw new Error('Failed to save project to storage. Local storage may be full.')
+    }
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    this.removeRecord(id)
+    await this.deleteAudio(id)
+  }
+
+  async loadAudio(projectId: string): Promise<Blob | null> {
+    try {
+      const dataUrl = localStorage.getItem(`${STORAGE_KEYS.AUDIO_PREFIX}${projectId}`)
+      return dataUrl ? await (await fetch(dataUrl)).blob() : null
+    } catch (error) {
+      console.error('Failed to load project audio:', error)
+      return null
+    }
+  }
+
+  /**
+   * Store the file as a data URL; most audio files need more than the few megabytes
+   * localStorage allows, so this can fail where IndexedDB would not
+   */
+  async saveAudio(projectId: string, audio: Blob): Promise<void> {
+    try {
+      localStorage.setItem(`${STORAGE_KEYS.AUDIO_PREFIX}${projectId}`, await readAsDataUrl(audio))
+    } catch (error) {
+      console.error('Failed to save project audio:', error)
+      throw new Error('Failed to save audio to storage. Local storage may be full.')
+    }
+  }
+
+  async deleteAudio(projectId: string): Promise<void> {
+    try {
+      localStorage.removeItem(`${STORAGE_KEYS.AUDIO_PREFIX}${projectId}`)
+    } catch (error) {
+      console.error('Failed to delete project audio:', error)
+    }
+  }
+
+  async loadCurrentProjectId(): Promise<string | null> {
+    try {
+      return localStorage.getItem(STORAGE_KEYS.CURRENT_PROJECT)
+    } catch (error) {
+      console.error('Failed to load current project ID:', error)
+      return null
+    }
+  }
+
+  async saveCurrentProjectId(projectId: string | null): Promise<void> {
+    try {
+      if (projectId) {
+        localStorage.setItem(STORAGE_KEYS.CURRENT_PROJECT, projectId)
+      } else {
+        localStorage.removeItem(STORAGE_KEYS.CURRENT_PROJECT)
+      }
+    } catch (error) {
+      console.error('Failed to save current project ID:', error)
+    }
+  }
+
+  async loadQuarantine(): Promise<QuarantinedProject[]> {
+    return this.readQuarantine()
+  }
+
+  async clearQuarantine(): Promise<void> {
+    try {
+      localStorage.removeItem(STORAGE_KEYS.QUARANTINE)
+    } catch (error) {
+      console.error('Failed to clear quarantined projects:', error)
+    }
+  }
+
+  /**
+   * Read every raw project record, including ones still in the legacy array
+   */
+  readRecords(): Array<{ id: string; record: unknown }> {
+    const records = this.readIndex().flatMap(id => {
+      try {
+        const stored = localStorage.getItem(`${STORAGE_KEYS.PROJECT_PREFIX}${id}`)
+        return stored ? [{ id, record: ProjectStorage.deserialize<unknown>(stored) }] : []
+      } catch (error) {
+        // Unreadable JSON is still reported through quarantine
+        return [{ id, record: { id, parseError: String(error) } }]
+      }
+    })
+
+    return [...records, ...this.readLegacyArray()]
+  }
+
+  /**
+   * Read quarantined records without touching the project index
+   */
+  readQuarantine(): QuarantinedProject[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.QUARANTINE)
+      return stored ? ProjectStorage.deserialize<QuarantinedProject[]>(stored) : []
+    } catch (error) {
+      console.error('Failed to load quarantined projects:', error)
+      return []
+    }
+  }
+
+  /**
+   * Remove all project records and the project index
+   */
+  clearProjects(): void {
+    this.readIndex().forEach(id => localStorage.removeItem(`${STORAGE_KEYS.PROJECT_PREFIX}${id}`))
+    localStorage.removeItem(STORAGE_KEYS.PROJECT_INDEX)
+    localStorage.removeItem(STORAGE_KEYS.PROJECTS)
+  }
+
+  /**
+   * Move projects from the legacy 'typographer-projects' array into per-record keys
+   */
+  private migrateLegacyArray(): void {
+    const records = this.readLegacyArray()
+    if (records.length === 0) return
+
+    const ids = new Set(this.readIndex())
+    records.forEach(({ id, record }) => {
+      localStorage.setItem(`${STORAGE_KEYS.PROJECT_PREFIX}${id}`, ProjectStorage.serialize(record))
+      ids.add(id)
+    })
+
+    localStorage.setItem(STORAGE_KEYS.PROJECT_INDEX, JSON.stringify([...ids]))
+    localStorage.removeItem(STORAGE_KEYS.PROJECTS)
+  }
+
+  private readLegacyArray(): Array<{ id: string; record: unknown }> {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.PROJECTS)
+      const parsed = stored ? ProjectStorage.deserialize<unknown>(stored) : []
+      if (!Array.isArray(parsed)) return []
+
+      return parsed.map((record, index) => {
+        const fields = record && typeof record === 'object' ? record as Record<string, unknown> : {}
+        return { id: typeof fields.id === 'string' ? fields.id : `legacy_${index}`, record }
+      })
+    } catch (error) {
+      console.error('Failed to read legacy projects:', error)
+      return []
+    }
+  }
+
+  private readIndex(): string[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.PROJECT_INDEX)
+      const parsed = stored ? JSON.parse(stored) : []
+      return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : []
+    } catch {
+      return []
+    }
+  }
+
+  private writeRecord(project: ProjectData): void {
+    localStorage.setItem(
+      `${STORAGE_KEYS.PROJECT_PREFIX}${project.id}`,
+      ProjectStorage.serialize(ProjectStorage.toRecord(project))
+    )
+
+    const ids = this.readIndex()
+    if (!ids.includes(project.id)) {
+      localStorage.setItem(STORAGE_KEYS.PROJECT_INDEX, JSON.stringify([...ids, project.id]))
+    }
+  }
+
+  private removeRecord(id: string): void {
+    try {
+      localStorage.removeItem(`${STORAGE_KEYS.PROJECT_PREFIX}${id}`)
+      const ids = this.readIndex().filter(existing => existing !== id)
+      localStorage.setItem(STORAGE_KEYS.PROJECT_INDEX, JSON.stringify(ids))
+    } catch (error) {
+      console.error('Failed to delete project:', error)
+      throw new Error('Failed to delete project from storage')
+    }
+  }
+
+  private appendQuarantine(entries: QuarantinedProject[]): void {
+    try {
+      const serialized = ProjectStorage.serialize([...this.readQuarantine(), ...entries])
+      localStorage.setItem(STORAGE_KEYS.QUARANTINE, serialized)
+    } catch (error) {
+      console.error('Failed to quarantine projects:', error)
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_MOTION_SETTINGS } from '@/types/motion'
+import { CURRENT_SCHEMA_VERSION, ProjectRecord, ProjectVersionError, getSchemaVersion, migrateProjectRecord } from './migrations'
+import { LocalStorageAdapter } from './local-storage-adapter'
+
+const LEGACY_PROJECT: ProjectRecord = {
+  id: 'proj_legacy',
+  name: 'Legacy',
+  textContent: 'Hello <0.3F1.2R0.9>',
+  typography: { fontFamily: 'Inter', fontSize: 4 },
+  wordGap: 0.3,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-02T00:00:00.000Z'
+}
+
+/**
+ * Minimal localStorage for the storage layer
+ */
+function createMemoryStorage(): Storage {
+  const items = new Map<string, string>()
+  return {
+    get length() { return items.size },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => [...items.keys()][index] ?? null,
+    removeItem: key => { items.delete(key) },
+    setItem: (key, value) => { items.set(key, String(value)) }
+  }
+}
+
+describe('getSchemaVersion', () => {
+  it.each([
+    ['no version', {}, 1],
+    ["the legacy '1.0' export stamp", { version: '1.0' }, 1],
+    ['a schema version', { schemaVersion: 2 }, 2],
+    ['a malformed version', { schemaVersion: 'soon' }, 1]
+  ])('reads %s', (_, record, version) => {
+    expect(getSchemaVersion(record)).toBe(version)
+  })
+})
+
+describe('migrateProjectRecord', () => {
+  it.each([
+    ["a legacy '1.0' export", { ...LEGACY_PROJECT, version: '1.0' }, {}],
+    ['an unversioned record with partial motion settings', {
+      ...LEGACY_PROJECT,
+      motionSettings: { speedMultiplier: 2, globalInitialPosition: { left: -50 } }
+    }, { speedMultiplier: 2, globalInitialPosition: { ...DEFAULT_MOTION_SETTINGS.globalInitialPosition, left: -50 } }]
+  ])('upgrades %s to the current schema', (_, record, motionOverrides) => {
+    const { record: upgraded, migrated } = migrateProjectRecord(record)
+
+    expect(migrated).toBe(true)
+    expect(upgraded).toEqual({
+      ...LEGACY_PROJECT,
+      motionSettings: { ...DEFAULT_MOTION_SETTINGS, ...motionOverrides },
+      easingCurves: [],
+      audio: null,
+      schemaVersion: CURRENT_SCHEMA_VERSION
+    })
+    expect(upgraded).not.toHaveProperty('version')
+  })
+
+  it('leaves current records as they are', () => {
+    const record = { ...LEGACY_PROJECT, motionSettings: DEFAULT_MOTION_SETTINGS, easingCurves: [], audio: null, schemaVersion: CURRENT_SCHEMA_VERSION }
+    expect(migrateProjectRecord(record)).toEqual({ record, migrated: false })
+  })
+
+  it('rejects records from a newer version', () => {
+    const newer = CURRENT_SCHEMA_VERSION + 1
+    const migrate = () => migrateProjectRecord({ ...LEGACY_PROJECT, schemaVersion: newer })
+    expect(migrate).toThrow(ProjectVersionError)
+    expect(migrate).toThrow(`schema v${newer}`)
+  })
+})
+
+describe('loading stored projects', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createMemoryStorage())
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('quarantines invalid records instead of dropping them', async () => {
+    const broken = { id: 'proj_broken', name: 'Broken', schemaVersion: CURRENT_SCHEMA_VERSION }
+    localStorage.setItem('typographer-projects', JSON.stringify([LEGACY_PROJECT, broken]))
+    const adapter = new LocalStorageAdapter()
+
+    const { projects, quarantined } = await adapter.loadProjects()
+
+    expect(projects.map(project => project.id)).toEqual(['proj_legacy'])
+    expect(quarantined).toHaveLength(1)
+    expect(quarantined[0]).toMatchObject({ id: 'proj_broken', name: 'Broken', record: broken })
+    expect(quarantined[0].reason).toMatch(/missing fields/)
+
+    // The record is set aside, so it survives the next load
+    expect(await adapter.loadQuarantine()).toMatchObject([{ id: 'proj_broken', record: broken }])
+    expect((await adapter.loadProjects()).projects.map(project => project.id)).toEqual(['proj_legacy'])
+  })
+
+  it('keeps records from a newer version in quarantine', async () => {
+    const newer = { ...LEGACY_PROJECT, id: 'proj_newer', schemaVersion: CURRENT_SCHEMA_VERSION + 1 }
+    localStorage.setItem('typographer-projects', JSON.stringify([newer]))
+
+    const { projects, quarantined } = await new LocalStorageAdapter().loadProjects()
+
+    expect(projects).toEqual([])
+    expect(quarantined[0]).toMatchObject({ id: 'proj_newer', record: newer })
+    expect(quarantined[0].reason).toMatch(/newer version/)
+  })
+})
@@ -0,0 +1,126 @@
+// Project schema versioning and step-by-step migrations for stored and imported projects
+
+import { DEFAULT_MOTION_SETTINGS } from '@/types/motion'
+
+/**
+ * Schema version written into every stored record and exported file.
+ * Bump this and append a migration whenever ProjectData changes shape.
+ */
+export const CURRENT_SCHEMA_VERSION = 5
+
+export type ProjectRecord = Record<string, unknown>
+
+interface ProjectMigration {
+  version: number // Schema version produced by this migration
+  description: string
+  migrate: (record: ProjectRecord) => ProjectRecord
+}
+
+/**
+ * Thrown when a record was written by a newer version of the app
+ */
+export class ProjectVersionError extends Error {
+  constructor(public readonly schemaVersion: number) {
+    super(
+      `This project was created with a newer version of Typographer (schema v${schemaVersion}). ` +
+      `Update the app to open it; this version supports up to schema v${CURRENT_SCHEMA_VERSION}.`
+    )
+    this.name = 'ProjectVersionError'
+  }
+}
+
+const migrations: ProjectMigration[] = [
+  {
+    version: 2,
+    description: 'Snapshot motion settings and custom easing curves per project',
+    migrate: (record) => {
+      const motionSettings = (record.motionSettings ?? {}) as Partial<typeof DEFAULT_MOTION_SETTINGS>
+      return {
+        ...record,
+        motionSettings: {
+          ...DEFAULT_MOTION_SETTINGS,
+          ...motionSettings,
+          globalInitialPosition: {
+            ...DEFAULT_MOTION_SETTINGS.globalInitialPosition,
+            ...motionSettings.globalInitialPosition
+          }
+        },
+        easingCurves: Array.isArray(record.easingCurves) ? record.easingCurves : []
+      }
+    }
+  },
+  {
+    version: 3,
+    description: 'Add vertical offsets and rotation to the global initial positions',
+    migrate: (record) => {
+      const motionSettings = record.motionSettings as typeof DEFAULT_MOTION_SETTINGS
+      return {
+        ...record,
+        motionSettings: {
+          ...motionSettings,
+          globalInitialPosition: {
+            ...DEFAULT_MOTION_SETTINGS.globalInitialPosition,
+            ...motionSettings.globalInitialPosition
+          }
+        }
+      }
+    }
+  },
+  {
+    version: 4,
+    description: 'Add the default animation unit and stagger to motion settings',
+    migrate: (record) => {
+      const motionSettings = record.motionSettings as typeof DEFAULT_MOTION_SETTINGS
+      return {
+        ...record,
+        motionSettings: {
+          ...motionSettings,
+          animationUnit: motionSettings.animationUnit ?? DEFAULT_MOTION_SETTINGS.animationUnit,
+          stagger: motionSettings.stagger ?? DEFAULT_MOTION_SETTINGS.stagger
+        }
+      }
+    }
+  },
+  {
+    version: 5,
+    description: 'Add the soundtrack reference; older projects have none',
+    migrate: (record) => ({ ...record, audio: null })
+  }
+]
+
+/**
+ * Read the schema version of a record. Records written before versioning
+ * existed carry no version (or the legacy '1.0' export stamp) and count as v1.
+ */
+export function getSchemaVersion(record: ProjectRecord): number {
+  const raw = record.schemaVersion ?? record.version
+  if (raw === undefined || raw === null) return 1
+
+  const version = typeof raw === 'number' ? raw : parseFloat(String(raw))
+  return Number.isFinite(version) && version >= 1 ? Math.floor(version) : 1
+}
+
+/**
+ * Upgrade a record to the current schema by applying each pending migration in order
+ */
+export function migrateProjectRecord(record: ProjectRecord): { record: ProjectRecord; migrated: boolean } {
+  const fromVersion = getSchemaVersion(record)
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new ProjectVersionError(fromVersion)
+  }
+
+  const upgraded = migrations
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, migration) => migration.migrate(current), record)
+
+  // The legacy export stamp is superseded by schemaVersion
+  const result: ProjectRecord = { ...upgraded, schemaVersion: CURRENT_SCHEMA_VERSION }
+  delete result.version
+
+  return {
+    record: result,
+    migrated: fromVersion < CURRENT_SCHEMA_VERSION
+  }
+}
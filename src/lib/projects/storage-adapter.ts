@@ -0,0 +1,59 @@
+// Pluggable persistence backends for projects
+
+import { ProjectData, ProjectLoadResult, QuarantinedProject } from '@/types/project'
+import { LocalStorageAdapter } from './local-storage-adapter'
+import { IndexedDBAdapter } from './indexeddb-adapter'
+
+export type StorageAdapterType = 'indexeddb' | 'localStorage'
+
+/**
+ * A storage backend that persists projects one record at a time
+ */
+export interface StorageAdapter {
+  readonly type: StorageAdapterType
+
+  /**
+   * Load every project, upgrading old records and quarantining invalid ones
+   */
+  loadProjects(): Promise<ProjectLoadResult>
+
+  /**
+   * Insert or replace a single project record
+   */
+  saveProject(project: ProjectData): Promise<void>
+
+  /**
+   * Remove a single project record along with its audio
+   */
+  deleteProject(id: string): Promise<void>
+
+  /**
+   * Load, store or remove a project's audio file, kept apart from its record
+   */
+  loadAudio(projectId: string): Promise<Blob | null>
+  saveAudio(projectId: string, audio: Blob): Promise<void>
+  deleteAudio(projectId: string): Promise<void>
+
+  loadCurrentProjectId(): Promise<string | null>
+  saveCurrentProjectId(projectId: string | null): Promise<void>
+
+  loadQuarantine(): Promise<QuarantinedProject[]>
+  clearQuarantine(): Promise<void>
+}
+
+/**
+ * Pick the best available backend. IndexedDB is preferred for its much larger
+ * quota; localStorage is used when IndexedDB is missing or cannot be opened
+ * (for example in some private browsing modes).
+ */
+export async function createStorageAdapter(preferred: StorageAdapterType = 'indexeddb'): Promise<StorageAdapter> {
+  if (preferred === 'indexeddb' && IndexedDBAdapter.isSupported()) {
+    try {
+      return await IndexedDBAdapter.open()
+    } catch (error) {
+      console.warn('IndexedDB unavailable, falling back to localStorage:', error)
+    }
+  }
+
+  return new LocalStorageAdapter()
+}
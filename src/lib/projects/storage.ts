@@ -1,68 +1,61 @@
-// Project storage utilities for localStorage and future cloud sync
+// Project storage utilities: record encoding, import/export and templates.
+// Persisting projects is delegated to a StorageAdapter (see storage-adapter.ts).
 
-import { ProjectData, ProjectTemplate } from '@/types/project'
+import { ProjectData, ProjectTemplate, QuarantinedProject } from '@/types/project'
+import { CURRENT_SCHEMA_VERSION, ProjectRecord, ProjectVersionError, migrateProjectRecord } from './migrations'
 
-const STORAGE_KEYS = {
-  PROJECTS: 'typographer-projects',
+export const STORAGE_KEYS = {
+  PROJECTS: 'typographer-projects', // Legacy single-array store, migrated into per-record storage
+  PROJECT_PREFIX: 'typographer-project:',
+  PROJECT_INDEX: 'typographer-project-index',
+  AUDIO_PREFIX: 'typographer-project-audio:',
   CURRENT_PROJECT: 'typographer-current-project',
-  TEMPLATES: 'typographer-templates'
+  TEMPLATES: 'typographer-templates',
+  QUARANTINE: 'typographer-projects-quarantine'
 } as const
 
 export class ProjectStorage {
   /**
-   * Save projects to localStorage
+   * Stamp a project with the current schema version before it is persisted
    */
-  static saveProjects(projects: ProjectData[]): void {
-    try {
-      const serialized = JSON.stringify(projects, this.dateReplacer)
-      localStorage.setItem(STORAGE_KEYS.PROJECTS, serialized)
-    } catch (error) {
-      console.error('Failed to save projects:', error)
-      throw new Error('Failed to save projects to storage')
-    }
+  static toRecord(project: ProjectData): ProjectData {
+    return { ...project, schemaVersion: CURRENT_SCHEMA_VERSION }
   }
 
   /**
-   * Load projects from localStorage
+   * Upgrade and validate a stored record, reporting whether a migration ran
    */
-  static loadProjects(): ProjectData[] {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEYS.PROJECTS)
-      if (!stored) return []
-      
-      const projects = JSON.parse(stored, this.dateReviver) as ProjectData[]
-      return this.validateProjects(projects)
-    } catch (error) {
-      console.error('Failed to load projects:', error)
-      return []
-    }
+  static decodeRecord(record: unknown): { project: ProjectData; migrated: boolean } {
+    const { record: upgraded, migrated } = migrateProjectRecord(record as ProjectRecord)
+    return { project: this.validateProject(upgraded), migrated }
   }
 
   /**
-   * Save current project ID to localStorage
+   * Describe a record that could not be loaded
    */
-  static saveCurrentProjectId(projectId: string | null): void {
-    try {
-      if (projectId) {
-        localStorage.setItem(STORAGE_KEYS.CURRENT_PROJECT, projectId)
-      } else {
-        localStorage.removeItem(STORAGE_KEYS.CURRENT_PROJECT)
-      }
-    } catch (error) {
-      console.error('Failed to save current project ID:', error)
+  static createQuarantineEntry(record: unknown, error: unknown): QuarantinedProject {
+    const fields = record && typeof record === 'object' ? record as ProjectRecord : {}
+    return {
+      id: typeof fields.id === 'string' ? fields.id : undefined,
+      name: typeof fields.name === 'string' ? fields.name : undefined,
+      reason: error instanceof Error ? error.message : 'Unknown validation error',
+      quarantinedAt: new Date(),
+      record
     }
   }
 
   /**
-   * Load current project ID from localStorage
+   * Serialize a value to JSON, preserving Date objects
    */
-  static loadCurrentProjectId(): string | null {
-    try {
-      return localStorage.getItem(STORAGE_KEYS.CURRENT_PROJECT)
-    } catch (error) {
-      console.error('Failed to load current project ID:', error)
-      return null
-    }
+  static serialize(value: unknown): string {
+    return JSON.stringify(value, this.dateReplacer)
+  }
+
+  /**
+   * Parse JSON written by serialize, restoring Date objects
+   */
+  static deserialize<T>(json: string): T {
+    return JSON.parse(json, this.dateReviver) as T
   }
 
   /**
@@ -93,11 +86,15 @@ export class ProjectStorage {
   }
 
   /**
-   * Clear all project data (for reset/logout)
+   * Clear all project data kept in localStorage (for reset/logout)
    */
   static clearAll(): void {
     try {
-      Object.values(STORAGE_KEYS).forEach(key => {
+      const prefixes: string[] = [STORAGE_KEYS.PROJECT_PREFIX, STORAGE_KEYS.AUDIO_PREFIX]
+      const recordKeys = Object.keys(localStorage).filter(key => prefixes.some(prefix => key.startsWith(prefix)))
+      const fixedKeys = Object.values(STORAGE_KEYS).filter(key => !prefixes.includes(key))
+      const keys = [...recordKeys, ...fixedKeys]
+      keys.forEach(key => {
         localStorage.removeItem(key)
       })
     } catch (error) {
@@ -112,34 +109,38 @@ export class ProjectStorage {
     return JSON.stringify({
       ...project,
       exportedAt: new Date().toISOString(),
-      version: '1.0'
+      schemaVersion: CURRENT_SCHEMA_VERSION
     }, null, 2)
   }
 
   /**
-   * Import project data from JSON string
+   * Import project data from JSON string, migrating files from older versions
    */
   static importProject(jsonString: string): ProjectData {
+    let data: ProjectRecord
     try {
-      const data = JSON.parse(jsonString, this.dateReviver)
-      
-      // Validate required fields
-      if (!data.name || !data.textContent) {
-        throw new Error('Invalid project data: missing required fields')
-      }
+      data = JSON.parse(jsonString, this.dateReviver)
+    } catch (error) {
+      console.error('Failed to import project:', error)
+      throw new Error('Invalid project file format')
+    }
+
+    try {
+      // Files from a newer app version surface their own error message
+      const { record } = migrateProjectRecord(data)
 
-      // Generate new ID for imported project
-      const project: ProjectData = {
-        ...data,
+      // Generate new ID for imported project; exported files carry no audio
+      return this.validateProject({
+        ...record,
+        audio: null,
         id: this.generateId(),
         createdAt: new Date(),
         updatedAt: new Date()
-      }
-
-      return this.validateProject(project)
+      })
     } catch (error) {
       console.error('Failed to import project:', error)
-      throw new Error('Invalid project file format')
+      if (error instanceof ProjectVersionError) throw error
+      throw new Error(`Invalid project file format: ${error instanceof Error ? error.message : 'unknown error'}`)
     }
   }
 
@@ -151,37 +152,36 @@ export class ProjectStorage {
   }
 
   /**
-   * Validate project data structure
+   * Validate project data structure (expects a record already migrated to the current schema)
    */
-  private static validateProject(project: any): ProjectData {
-    const required = ['id', 'name', 'textContent', 'typography', 'wordGap']
+  private static validateProject(project: ProjectRecord): ProjectData {
+    const required = ['id', 'name', 'textContent', 'typography', 'wordGap', 'motionSettings', 'easingCurves']
     const missing = required.filter(field => !(field in project))
     
     if (missing.length > 0) {
       throw new Error(`Invalid project: missing fields ${missing.join(', ')}`)
     }
 
-    return {
-      ...project,
-      createdAt: project.createdAt instanceof Date ? project.createdAt : new Date(project.createdAt),
-      updatedAt: project.updatedAt instanceof Date ? project.updatedAt : new Date(project.updatedAt)
+    if (typeof project.name !== 'string' || typeof project.textContent !== 'string') {
+      throw new Error('Invalid project: name and textContent must be text')
     }
-  }
 
-  /**
-   * Validate array of projects
-   */
-  private static validateProjects(projects: any[]): ProjectData[] {
-    return projects
-      .filter(project => {
-        try {
-          this.validateProject(project)
-          return true
-        } catch {
-          return false
-        }
-      })
-      .map(project => this.validateProject(project))
+    if (!project.typography || typeof project.typography !== 'object') {
+      throw new Error('Invalid project: typography settings are malformed')
+    }
+
+    const createdAt = project.createdAt instanceof Date ? project.createdAt : new Date(project.createdAt as string)
+    const updatedAt = project.updatedAt instanceof Date ? project.updatedAt : new Date(project.updatedAt as string)
+
+    if (isNaN(createdAt.getTime()) || isNaN(updatedAt.getTime())) {
+      throw new Error('Invalid project: timestamps are malformed')
+    }
+
+    return {
+      ...project,
+      createdAt,
+      updatedAt
+    } as unknown as ProjectData
   }
 
   /**
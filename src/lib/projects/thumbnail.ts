@@ -0,0 +1,101 @@
+// Project thumbnails: render a representative frame of a project's animation to a small image
+
+import { ProjectData, TypographySettings } from '@/types/project'
+import { MotionSettings, EasingCurve } from '@/types/motion'
+import { WordData } from '@/types/typographer'
+import { parseMotionLanguage, calculateMotionTiming } from '@/lib/utils/motion-parser'
+import { evaluateScene, getWordTimeline, REST_POSE } from '@/lib/animations/scene'
+import { drawScene, drawSceneText, loadSceneFont } from '@/lib/animations/scene-renderer'
+
+export interface ThumbnailOptions {
+  width?: number
+  height?: number
+  time?: number // Seconds into the animation; defaults to project.thumbnailTime, then the peak-visibility frame
+  mimeType?: 'image/webp' | 'image/png'
+  quality?: number
+}
+
+const DEFAULT_THUMBNAIL_OPTIONS: Required<Omit<ThumbnailOptions, 'time'>> = {
+  width: 320,
+  height: 240,
+  mimeType: 'image/webp',
+  quality: 0.85
+}
+
+/**
+ * Parse and time a project's text the same way the editor does
+ */
+export function getProjectWords(project: ProjectData): WordData[] {
+  const { words } = parseMotionLanguage(project.textContent)
+  return calculateMotionTiming(words, project.wordGap, project.motionSettings, project.typography)
+}
+
+/**
+ * Find the moment where the most text is fully visible. Each word's settled
+ * window contributes a candidate at its midpoint; ties go to the earliest.
+ */
+export function findPeakVisibilityTime(
+  words: WordData[],
+  typography: TypographySettings,
+  motionSettings: MotionSettings,
+  easingCurves: EasingCurve[] = []
+): number {
+  const candidates = words.map(word => {
+    const { phases, pieces, stagger } = getWordTimeline(word, motionSettings, easingCurves)
+    const [entry, exit] = phases
+    const settled = Math.min(entry.start + entry.duration + (pieces.length - 1) * stagger, word.duration)
+    const leaving = exit ? exit.start : word.duration
+    return word.startTime + (settled + Math.max(settled, leaving)) / 2
+  })
+
+  let bestTime = 0
+  let bestScore = -1
+  candidates.forEach(time => {
+    const score = evaluateScene(words, typography, motionSettings, time, easingCurves).words.reduce(
+      (total, { pieces }) => total + pieces.reduce((sum, piece) => sum + piece.opacity * piece.text.length, 0),
+      0
+    )
+    if (score > bestScore) {
+      bestScore = score
+      bestTime = time
+    }
+  })
+
+  return bestTime
+}
+
+/**
+ * Render a project frame to a data URL. Works from stored project data alone,
+ * so projects that are not open in the editor can be rendered too.
+ */
+export async function renderProjectThumbnail(project: ProjectData, options: ThumbnailOptions = {}): Promise<string> {
+  if (typeof document === 'undefined') {
+    throw new Error('Thumbnails can only be rendered in the browser')
+  }
+
+  const { width, height, mimeType, quality } = { ...DEFAULT_THUMBNAIL_OPTIONS, ...options }
+  const { typography, motionSettings } = project
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available')
+  }
+
+  await loadSceneFont(typography, width)
+
+  const words = getProjectWords(project)
+  const renderOptions = { width, height, fitToCanvas: true } // The preview lets long words overflow, which reads badly at this size
+
+  if (words.length === 0) {
+    // Nothing written yet
+    drawSceneText(ctx, project.name, { ...REST_POSE, opacity: 0.5, scale: 0.5 }, typography, renderOptions)
+  } else {
+    const time = options.time ?? project.thumbnailTime ?? findPeakVisibilityTime(words, typography, motionSettings, project.easingCurves)
+    drawScene(ctx, evaluateScene(words, typography, motionSettings, time, project.easingCurves), typography, renderOptions)
+  }
+
+  return canvas.toDataURL(mimeType, quality)
+}
@@ -0,0 +1,98 @@
+// Soundtrack store using Zustand. The project store saves the track with the open project
+// and restores it here; the decoded samples drive the waveform, beat detection and video export.
+
+import { create } from 'zustand'
+import { devtools } from 'zustand/middleware'
+import { computePeaks, detectBeats } from '@/lib/audio/audio-analysis'
+
+export interface AudioTrack {
+  name: string
+  url: string // Object URL the player streams from
+  buffer: AudioBuffer // Decoded samples at DECODE_SAMPLE_RATE
+  duration: number // Seconds
+  peaks: number[] // Loudest sample per waveform bucket, 0-1
+  beats: number[] // Detected onset times in seconds
+}
+
+interface AudioStore {
+  track: AudioTrack | null
+  isLoading: boolean
+  error: string | null
+
+  // Actions
+  loadAudio: (file: File) => Promise<void>
+  removeAudio: () => void
+}
+
+const DECODE_SAMPLE_RATE = 48000 // Matches the rate video exports encode audio at
+const PEAK_COUNT = 2000 // Waveform resolution across the whole track
+
+let audioElement: HTMLAudioElement | null = null
+let loadGeneration = 0 // Bumped by every load and removal, so a slow decode cannot bring back an older track
+
+/**
+ * The element that plays the current track, or null without one
+ */
+export function getAudioElement(): HTMLAudioElement | null {
+  return audioElement
+}
+
+export const useAudioStore = create<AudioStore>()(
+  devtools(
+    (set, get) => ({
+      track: null,
+      isLoading: false,
+      error: null,
+
+      loadAudio: async (file: File) => {
+        const generation = ++loadGeneration
+        set({ isLoading: true, error: null })
+
+        try {
+          // decodeAudioData resamples to the context's rate
+          const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE)
+          const buffer = await context.decodeAudioData(await file.arrayBuffer())
+          const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) => buffer.getChannelData(index))
+          if (generation !== loadGeneration) return
+
+          get().removeAudio()
+          const url = URL.createObjectURL(file)
+          audioElement = new Audio(url)
+          audioElement.preload = 'auto'
+
+          set({
+            track: {
+              name: file.name,
+              url,
+              buffer,
+              duration: buffer.duration,
+              peaks: computePeaks(channels, PEAK_COUNT),
+              beats: detectBeats(channels, buffer.sampleRate)
+            },
+            isLoading: false
+          })
+        } catch (error) {
+          if (generation !== loadGeneration) return
+          const message = error instanceof Error ? error.message : String(error)
+          set({ error: `Could not read ${file.name} as audio: ${message}`, isLoading: false })
+        }
+      },
+
+      removeAudio: () => {
+        loadGeneration++
+        const { track } = get()
+        if (audioElement) {
+          audioElement.pause()
+          audioElement = null
+        }
+        if (track) {
+          URL.revokeObjectURL(track.url)
+        }
+        set({ track: null, isLoading: false, error: null })
+      }
+    }),
+    {
+      name: 'audio-store'
+    }
+  )
+)
@@ -19,6 +19,18 @@ export const setSyncGapCallback = (callback: (gap: number) => void) => {
   syncGapWithTypographer = callback
 }
 
+/**
+ * Fill settings and position fields added since the settings were persisted
+ */
+const withDefaultSettings = (settings: MotionSettings): MotionSettings => ({
+  ...DEFAULT_MOTION_SETTINGS,
+  ...settings,
+  globalInitialPosition: {
+    ...DEFAULT_MOTION_SETTINGS.globalInitialPosition,
+    ...settings.globalInitialPosition
+  }
+})
+
 export const useMotionStore = create<MotionStore>()(
   persist(
     (set, get) => ({
@@ -81,6 +93,26 @@ export const useMotionStore = create<MotionStore>()(
         })
       },
 
+      restoreMotion: (settings: MotionSettings, curves: EasingCurve[] = []) => {
+        const { customEasingCurves } = get()
+        
+        // Project curves replace local curves with the same ID so the project renders identically
+        const incomingIds = new Set(curves.map(curve => curve.id))
+        const mergedCurves = [
+          ...customEasingCurves.filter(curve => !incomingIds.has(curve.id)),
+          ...curves.map(curve => ({ ...curve, type: 'custom' as const }))
+        ]
+        
+        if (syncGapWithTypographer) {
+          syncGapWithTypographer(settings.gapBetweenWords)
+        }
+        
+        set({ 
+          settings: { ...settings },
+          customEasingCurves: mergedCurves
+        })
+      },
+
       // Easing Curves Actions
       createEasingCurve: (curve: Omit<EasingCurve, 'id'>) => {
         const { customEasingCurves } = get()
@@ -164,12 +196,25 @@ export const useMotionStore = create<MotionStore>()(
     }),
     {
       name: 'motion-store',
+      version: 2,
       // Only persist the settings and custom data, not UI state
       partialize: (state) => ({
         settings: state.settings,
         customPresets: state.customPresets,
         customEasingCurves: state.customEasingCurves
-      })
+      }),
+      // v1 added up/down/rotation initial positions, v2 the animation unit and stagger
+      migrate: (persistedState) => {
+        const state = persistedState as Pick<MotionStore, 'settings' | 'customPresets' | 'customEasingCurves'>
+        return {
+          ...state,
+          settings: withDefaultSettings(state.settings ?? DEFAULT_MOTION_SETTINGS),
+          customPresets: (state.customPresets ?? []).map(preset => ({
+            ...preset,
+            settings: withDefaultSettings(preset.settings)
+          }))
+        } as MotionStore
+      }
     }
   )
 )
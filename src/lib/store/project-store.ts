@@ -12,6 +12,96 @@ import {
   defaultTypographySettings
 } from '@/types/project'
 import { ProjectStorage } from '@/lib/projects/storage'
+import { StorageAdapter, createStorageAdapter } from '@/lib/projects/storage-adapter'
+import { useMotionStore } from '@/lib/store/motion-store'
+import { useAudioStore } from '@/lib/store/audio-store'
+import { getReferencedEasingCurves } from '@/lib/utils/motion-utils'
+import { renderProjectThumbnail } from '@/lib/projects/thumbnail'
+import { parseMotionLanguage } from '@/lib/utils/motion-parser'
+
+/**
+ * Snapshot the active motion settings and the custom curves they or the text's tags reference
+ */
+function snapshotMotion(textContent: string): Pick<ProjectData, 'motionSettings' | 'easingCurves'> {
+  const { settings, customEasingCurves } = useMotionStore.getState()
+  const { words } = parseMotionLanguage(textContent)
+  return {
+    motionSettings: {
+      ...settings,
+      globalInitialPosition: { ...settings.globalInitialPosition }
+    },
+    easingCurves: getReferencedEasingCurves(settings, customEasingCurves, words)
+  }
+}
+
+let storagePromise: Promise<StorageAdapter> | null = null
+
+/**
+ * Resolve the storage backend, picking one on first use
+ */
+function getStorage(): Promise<StorageAdapter> {
+  if (!storagePromise) {
+    storagePromise = createStorageAdapter()
+  }
+  return storagePromise
+}
+
+/**
+ * Override the storage backend (call before projects are loaded)
+ */
+export function setProjectStorageAdapter(adapter: StorageAdapter): void {
+  storagePromise = Promise.resolve(adapter)
+}
+
+/**
+ * Placeholder shown when a thumbnail cannot be rendered (e.g. no canvas support)
+ */
+function createPlaceholderThumbnail(name: string): string {
+  return `data:image/svg+xml,${encodeURIComponent(`
+    <svg width="200" height="150" xmlns="http://www.w3.org/2000/svg">
+      <rect width="100%" height="100%" fill="#f1f5f9"/>
+      <text x="50%" y="50%" text-anchor="middle" dy=".3em" 
+            font-family="Arial" font-size="14" fill="#64748b">
+        ${name.replace(/[<>&"]/g, '')}
+      </text>
+    </svg>
+  `)}`
+}
+
+/**
+ * Render thumbnails for stored projects that were saved without one
+ */
+async function backfillThumbnails(): Promise<void> {
+  const { projects, generateThumbnail } = useProjectStore.getState()
+  const storage = await getStorage()
+
+  for (const project of projects.filter(p => !p.thumbnail)) {
+    const thumbnail = await generateThumbnail(project)
+    // Re-read so edits made while rendering are not overwritten
+    const latest = useProjectStore.getState().projects.find(p => p.id === project.id)
+    if (!latest || latest.thumbnail) continue
+
+    const updatedProject = { ...latest, thumbnail }
+    await storage.saveProject(updatedProject)
+    useProjectStore.setState(state => ({
+      projects: state.projects.map(p => p.id === updatedProject.id ? updatedProject : p),
+      currentProject: state.currentProject?.id === updatedProject.id ? updatedProject : state.currentProject
+    }))
+  }
+}
+
+/**
+ * Load the project's soundtrack into the audio store, or clear the store when it has none
+ */
+async function restoreProjectAudio(project: ProjectData | null): Promise<void> {
+  useAudioStore.getState().removeAudio()
+  if (!project?.audio) return
+
+  const audio = await (await getStorage()).loadAudio(project.id)
+  // Another project may have been opened while the file was read
+  if (!audio || useProjectStore.getState().currentProject?.id !== project.id) return
+  await useAudioStore.getState().loadAudio(new File([audio], project.audio.name, { type: project.audio.type }))
+}
 
 export const useProjectStore = create<ProjectStore>()(
   devtools(
@@ -22,6 +112,7 @@ export const useProjectStore = create<ProjectStore>()(
       templates: [],
       isLoading: false,
       error: null,
+      quarantinedProjects: [],
       filter: defaultProjectFilter,
       viewMode: defaultViewMode,
       showLeftSidebar: true, // Open by default
@@ -38,23 +129,28 @@ export const useProjectStore = create<ProjectStore>()(
             textContent: '',
             typography: { ...defaultTypographySettings },
             wordGap: 0,
+            ...snapshotMotion(''),
             createdAt: new Date(),
             updatedAt: new Date(),
-            thumbnail: ''
+            thumbnail: '',
+            audio: null
           }
+          newProject.thumbnail = await get().generateThumbnail(newProject)
 
           const state = get()
           const updatedProjects = [...state.projects, newProject]
           
           // Save to storage
-          ProjectStorage.saveProjects(updatedProjects)
-          ProjectStorage.saveCurrentProjectId(newProject.id)
+          const storage = await getStorage()
+          await storage.saveProject(newProject)
+          await storage.saveCurrentProjectId(newProject.id)
 
           set({
             projects: updatedProjects,
             currentProject: newProject,
             isLoading: false
           })
+          await restoreProjectAudio(newProject)
 
           return newProject
         } catch (error) {
@@ -75,17 +171,20 @@ export const useProjectStore = create<ProjectStore>()(
             throw new Error('No project to save')
           }
 
+          // Saving the open project captures the motion settings currently in use
           const updatedProject = {
             ...projectToSave,
+            ...(project ? {} : snapshotMotion(projectToSave.textContent)),
             updatedAt: new Date()
           }
+          updatedProject.thumbnail = await get().generateThumbnail(updatedProject)
 
           const updatedProjects = state.projects.map(p => 
             p.id === updatedProject.id ? updatedProject : p
           )
 
           // Save to storage
-          ProjectStorage.saveProjects(updatedProjects)
+          await (await getStorage()).saveProject(updatedProject)
 
           set({
             projects: updatedProjects,
@@ -110,12 +209,18 @@ export const useProjectStore = create<ProjectStore>()(
             throw new Error('Project not found')
           }
 
-          ProjectStorage.saveCurrentProjectId(id)
+          await (await getStorage()).saveCurrentProjectId(id)
+          useMotionStore.getState().restoreMotion(project.motionSettings, project.easingCurves)
           
           set({
             currentProject: project,
             isLoading: false
           })
+
+          // The player keeps working while a long track decodes
+          restoreProjectAudio(project).catch(error => {
+            console.warn('Failed to restore project audio:', error)
+          })
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Failed to load project'
           set({ error: errorMessage, isLoading: false })
@@ -136,9 +241,10 @@ export const useProjectStore = create<ProjectStore>()(
             : state.currentProject
 
           // Save to storage
-          ProjectStorage.saveProjects(updatedProjects)
+          const storage = await getStorage()
+          await storage.deleteProject(id)
           if (updatedCurrentProject?.id !== state.currentProject?.id) {
-            ProjectStorage.saveCurrentProjectId(updatedCurrentProject?.id || null)
+            await storage.saveCurrentProjectId(updatedCurrentProject?.id || null)
           }
 
           set({
@@ -146,6 +252,9 @@ export const useProjectStore = create<ProjectStore>()(
             currentProject: updatedCurrentProject,
             isLoading: false
           })
+          if (!updatedCurrentProject) {
+            await restoreProjectAudio(null)
+          }
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Failed to delete project'
           set({ error: errorMessage, isLoading: false })
@@ -174,8 +283,13 @@ export const useProjectStore = create<ProjectStore>()(
 
           const updatedProjects = [...state.projects, duplicatedProject]
           
-          // Save to storage
-          ProjectStorage.saveProjects(updatedProjects)
+          // Save to storage, with a copy of the audio file
+          const storage = await getStorage()
+          await storage.saveProject(duplicatedProject)
+          const audio = originalProject.audio ? await storage.loadAudio(originalProject.id) : null
+          if (audio) {
+            await storage.saveAudio(duplicatedProject.id, audio)
+          }
 
           set({
             projects: updatedProjects,
@@ -190,6 +304,37 @@ export const useProjectStore = create<ProjectStore>()(
         }
       },
 
+      setProjectAudio: async (file: File | null) => {
+        const { currentProject } = get()
+        // Without an open project the track only lasts for the session
+        if (!currentProject) return
+
+        try {
+          const storage = await getStorage()
+          if (file) {
+            await storage.saveAudio(currentProject.id, file)
+          } else {
+            await storage.deleteAudio(currentProject.id)
+          }
+
+          const updatedProject: ProjectData = {
+            ...currentProject,
+            audio: file ? { name: file.name, type: file.type } : null,
+            updatedAt: new Date()
+          }
+          await storage.saveProject(updatedProject)
+
+          set(state => ({
+            projects: state.projects.map(p => p.id === updatedProject.id ? updatedProject : p),
+            currentProject: state.currentProject?.id === updatedProject.id ? updatedProject : state.currentProject
+          }))
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to save project audio'
+          set({ error: errorMessage })
+          throw error
+        }
+      },
+
       updateProject: async (id: string, updates: Partial<ProjectData>) => {
         set({ isLoading: true, error: null })
         
@@ -207,6 +352,11 @@ export const useProjectStore = create<ProjectStore>()(
             updatedAt: new Date()
           }
 
+          // Re-render the thumbnail unless the caller supplied one
+          if (!('thumbnail' in updates)) {
+            updatedProject.thumbnail = await get().generateThumbnail(updatedProject)
+          }
+
           const updatedProjects = [...state.projects]
           updatedProjects[projectIndex] = updatedProject
 
@@ -216,7 +366,7 @@ export const useProjectStore = create<ProjectStore>()(
             : state.currentProject
 
           // Save to storage
-          ProjectStorage.saveProjects(updatedProjects)
+          await (await getStorage()).saveProject(updatedProject)
 
           set({
             projects: updatedProjects,
@@ -231,17 +381,12 @@ export const useProjectStore = create<ProjectStore>()(
       },
 
       generateThumbnail: async (project: ProjectData) => {
-        // TODO: Implement thumbnail generation from animation canvas
-        // For now, return a placeholder
-        return `data:image/svg+xml,${encodeURIComponent(`
-          <svg width="200" height="150" xmlns="http://www.w3.org/2000/svg">
-            <rect width="100%" height="100%" fill="#f1f5f9"/>
-            <text x="50%" y="50%" text-anchor="middle" dy=".3em" 
-                  font-family="Arial" font-size="14" fill="#64748b">
-              ${project.name}
-            </text>
-          </svg>
-        `)}`
+        try {
+          return await renderProjectThumbnail(project)
+        } catch (error) {
+          console.warn('Failed to render project thumbnail:', error)
+          return createPlaceholderThumbnail(project.name)
+        }
       },
 
       // UI state management
@@ -265,26 +410,47 @@ export const useProjectStore = create<ProjectStore>()(
         set({ isLoading: true, error: null })
         
         try {
-          const projects = ProjectStorage.loadProjects()
+          const storage = await getStorage()
+          const { projects } = await storage.loadProjects()
+          const quarantinedProjects = await storage.loadQuarantine()
           const templates = ProjectStorage.loadTemplates()
-          const currentProjectId = ProjectStorage.loadCurrentProjectId()
+          const currentProjectId = await storage.loadCurrentProjectId()
           
           const currentProject = currentProjectId 
             ? projects.find(p => p.id === currentProjectId) || null
             : null
 
+          if (currentProject) {
+            useMotionStore.getState().restoreMotion(currentProject.motionSettings, currentProject.easingCurves)
+          }
+
           set({
             projects,
             templates,
             currentProject,
+            quarantinedProjects,
             isLoading: false
           })
+
+          restoreProjectAudio(currentProject).catch(error => {
+            console.warn('Failed to restore project audio:', error)
+          })
+
+          // Older projects were saved without thumbnails; render them in the background
+          backfillThumbnails().catch(error => {
+            console.warn('Failed to backfill project thumbnails:', error)
+          })
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Failed to load projects'
           set({ error: errorMessage, isLoading: false })
         }
       },
 
+      clearQuarantinedProjects: async () => {
+        await (await getStorage()).clearQuarantine()
+        set({ quarantinedProjects: [] })
+      },
+
       exportProject: async (id: string, format: 'json' | 'text' | 'lottie' | 'gif' | 'mp4') => {
         const state = get()
         const project = state.projects.find(p => p.id === id)
@@ -313,11 +479,14 @@ export const useProjectStore = create<ProjectStore>()(
         
         try {
           const importedProject = ProjectStorage.importProject(data)
+          if (!importedProject.thumbnail) {
+            importedProject.thumbnail = await get().generateThumbnail(importedProject)
+          }
           const state = get()
           const updatedProjects = [...state.projects, importedProject]
           
           // Save to storage
-          ProjectStorage.saveProjects(updatedProjects)
+          await (await getStorage()).saveProject(importedProject)
 
           set({
             projects: updatedProjects,
@@ -344,6 +513,7 @@ export const useCurrentProject = () => useProjectStore(state => state.currentPro
 export const useProjectTemplates = () => useProjectStore(state => state.templates)
 export const useProjectLoading = () => useProjectStore(state => state.isLoading)
 export const useProjectError = () => useProjectStore(state => state.error)
+export const useQuarantinedProjects = () => useProjectStore(state => state.quarantinedProjects)
 export const useProjectFilter = () => useProjectStore(state => state.filter)
 export const useProjectViewMode = () => useProjectStore(state => state.viewMode)
 export const useLeftSidebar = () => useProjectStore(state => state.showLeftSidebar)
\ No newline at end of file
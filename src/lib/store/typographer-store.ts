@@ -3,6 +3,9 @@ import { devtools, subscribeWithSelector } from 'zustand/middleware'
 import { AnimationType, WordData, TimelineEvent, TypographerState } from '@/types/typographer'
 import { defaultAnimation } from '@/lib/animations/presets'
 import { parseMotionLanguage, calculateMotionTiming } from '@/lib/utils/motion-parser'
+import { useMotionStore } from '@/lib/store/motion-store'
+import { useTypographyStore } from '@/lib/store/typography-store'
+import { calculateWordPositions, createLayoutConfig } from '@/lib/utils/positioning'
 
 interface TypographerStore extends TypographerState {
   // Additional state
@@ -19,6 +22,7 @@ interface TypographerStore extends TypographerState {
   selectWord: (wordId: string | null) => void
   showSelector: (show: boolean, position?: { x: number; y: number }) => void
   setCursorPosition: (position: number) => void
+  refreshLayout: () => void
 }
 
 const defaultText = 'Hello <0.3F1.2R0.9> Beautiful <0.5L1.8F0.4> World <0.8R2.0B1.2>'
@@ -29,7 +33,7 @@ export const useTypographerStore = create<TypographerStore>()(
       // Initialize with default text
       const { words } = parseMotionLanguage(defaultText)
       const defaultGap = 0 // Default gap between words
-      const wordsWithTiming = calculateMotionTiming(words, defaultGap)
+      const wordsWithTiming = calculateMotionTiming(words, defaultGap, getUnitSettings(), getTypography())
       const timeline = generateTimeline(wordsWithTiming)
       const totalDuration = Math.max(
         ...wordsWithTiming.map(word => word.startTime + word.duration),
@@ -62,7 +66,7 @@ export const useTypographerStore = create<TypographerStore>()(
         updateText: (text: string) => {
           const state = get()
           const { words } = parseMotionLanguage(text)
-          const wordsWithTiming = calculateMotionTiming(words, state.wordGap)
+          const wordsWithTiming = calculateMotionTiming(words, state.wordGap, getUnitSettings(), getTypography())
           const timeline = generateTimeline(wordsWithTiming)
           const totalDuration = Math.max(
             ...wordsWithTiming.map(word => word.startTime + word.duration),
@@ -90,7 +94,7 @@ export const useTypographerStore = create<TypographerStore>()(
               animation
             }
             
-            const wordsWithTiming = calculateMotionTiming(updatedWords, state.wordGap)
+            const wordsWithTiming = calculateMotionTiming(updatedWords, state.wordGap, getUnitSettings(), getTypography())
             const timeline = generateTimeline(wordsWithTiming)
             const totalDuration = Math.max(
               ...wordsWithTiming.map(word => word.startTime + word.duration),
@@ -130,7 +134,7 @@ export const useTypographerStore = create<TypographerStore>()(
           const state = get()
           
           // Recalculate timing with new gap (no limits)
-          const wordsWithTiming = calculateMotionTiming(state.words, gap)
+          const wordsWithTiming = calculateMotionTiming(state.words, gap, getUnitSettings(), getTypography())
           const timeline = generateTimeline(wordsWithTiming)
           const totalDuration = Math.max(
             ...wordsWithTiming.map(word => word.startTime + word.duration),
@@ -159,6 +163,13 @@ export const useTypographerStore = create<TypographerStore>()(
         
         setCursorPosition: (position: number) => {
           set({ cursorPosition: position })
+        },
+
+        // Re-flow words after typography changes without restarting playback
+        refreshLayout: () => {
+          const state = get()
+          const config = createLayoutConfig(800, 600, getTypography())
+          set({ words: calculateWordPositions(state.words, config, getUnitSettings()) })
         }
       }
     }),
@@ -170,6 +181,18 @@ export const useTypographerStore = create<TypographerStore>()(
 
 // Helper functions
 
+// Project-wide animation unit and stagger, which stretch the timing of character and line animations
+function getUnitSettings() {
+  return useMotionStore.getState().settings
+}
+
+// Typography used to measure words for the layout
+function getTypography() {
+  return useTypographyStore.getState().settings
+}
+
+// Start and end events in playback order. Anchored words can start before the words written
+// ahead of them, so events are ordered by time alone, ends first where a word ends as another starts
 function generateTimeline(words: WordData[]): TimelineEvent[] {
   const events: TimelineEvent[] = []
   
@@ -193,7 +216,7 @@ function generateTimeline(words: WordData[]): TimelineEvent[] {
     })
   })
   
-  return events.sort((a, b) => a.time - b.time)
+  return events.sort((a, b) => a.time - b.time || (a.type === b.type ? 0 : a.type === 'end' ? -1 : 1))
 }
 
 // Selectors for derived state
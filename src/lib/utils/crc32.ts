@@ -0,0 +1,29 @@
+// CRC-32 (IEEE 802.3), as used by PNG chunks and ZIP entries
+
+let crcTable: Uint32Array | null = null
+
+function getTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+  return crcTable
+}
+
+/**
+ * Checksum of a byte array as an unsigned 32-bit integer
+ */
+export function crc32(bytes: Uint8Array): number {
+  const table = getTable()
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
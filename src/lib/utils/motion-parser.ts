@@ -1,189 +1,502 @@
-import { MotionDirection, ZoomType, MotionConfig, WordData, AnimationType } from '@/types/typographer'
+import { MotionDirection, ZoomType, MotionConfig, WordData, AnimationType, AnimationUnit, MotionDiagnostic, SourceRange, TimeAnchor } from '@/types/typographer'
+import { BUILT_IN_EASING_CURVES, DEFAULT_MOTION_SETTINGS, MotionSettings } from '@/types/motion'
+import { TypographySettings } from '@/types/typography'
 import { calculateWordPositions, createLayoutConfig } from './positioning'
+import { isWordLikeText } from './segmenter'
+import { getStaggerSpan } from './motion-utils'
+
+// A direction is L, R, U, D, F, B or a diagonal (UL, UR, DL, DR); a trailing 'r' adds rotation
+const DIRECTION_PATTERN = '(UL|UR|DL|DR|[LRUDFB])(r?)'
+const NUMBER_PATTERN = '(\\d*\\.?\\d+)'
+// Optional easing override: |entry,exit or |both (curve ids)
+const EASING_PATTERN = '(?:\\|([\\w-]+)(?:,([\\w-]+))?)?'
+// Optional animation unit: /w (word group), /c (characters) or /l (lines), with an optional stagger in seconds
+const UNIT_PATTERN = '(?:/([wcl])(\\d*\\.?\\d+)?)?'
+// Optional start anchor: @2.5s (absolute), +0.3 or -0.5 (after the previous group's end) or & (with the previous group)
+const ANCHOR_PATTERN = '(?:@(\\d*\\.?\\d+)s|([+-]\\d*\\.?\\d+)|(&))?'
+
+const UNIT_CODES: Record<string, AnimationUnit> = {
+  w: 'word',
+  c: 'character',
+  l: 'line'
+}
+
+/**
+ * Matches the content of a motion tag (without the angle brackets)
+ */
+export const MOTION_TAG_PATTERN = new RegExp(
+  `^${NUMBER_PATTERN}${DIRECTION_PATTERN}${NUMBER_PATTERN}${DIRECTION_PATTERN}${NUMBER_PATTERN}${EASING_PATTERN}${UNIT_PATTERN}${ANCHOR_PATTERN}$`
+)
+
+/**
+ * Parse a single motion tag like <0.3F1.2R0.9>, <0.4Ur1.0DL0.5>, <0.3F1.2R0.9|easeOutQuart,bounce>, <0.3F1.2R0.9/c0.05>
+ * or <0.3F1.2R0.9@2.5s>, <0.3F1.2R0.9+0.3> and <0.3F1.2R0.9&>;
+ * returns null for anything else. Easing ids are not checked here (see validateMotionSyntax).
+ */
+export function parseMotionTag(tag: string): MotionConfig | null {
+  const content = tag.match(/^<(.*)>$/)?.[1]
+  const match = content?.match(MOTION_TAG_PATTERN)
+  if (!match) return null
+
+  const [, entrySpeedStr, entryDir, entryRotate, durationStr, exitDir, exitRotate, exitSpeedStr, entryEasing, exitEasing, unitCode, staggerStr, startStr, offsetStr, withPrevious] = match
+
+  return {
+    entryDirection: entryDir as MotionDirection,
+    speed: 50, // Legacy field, not used in new format
+    displayDuration: parseFloat(durationStr),
+    zoomType: ZoomType.ZOOM_IN, // Default zoom
+    exitDirection: exitDir as MotionDirection,
+    entrySpeed: parseFloat(entrySpeedStr),
+    exitSpeed: parseFloat(exitSpeedStr),
+    entryRotate: entryRotate === 'r',
+    exitRotate: exitRotate === 'r',
+    // A single curve applies to both entry and exit
+    entryEasing,
+    exitEasing: exitEasing ?? entryEasing,
+    unit: unitCode ? UNIT_CODES[unitCode] : undefined,
+    stagger: staggerStr ? parseFloat(staggerStr) : undefined,
+    anchor: parseTimeAnchor(startStr, offsetStr, withPrevious)
+  }
+}
+
+function parseTimeAnchor(startStr?: string, offsetStr?: string, withPrevious?: string): TimeAnchor | undefined {
+  if (startStr) return { type: 'absolute', time: parseFloat(startStr) }
+  if (offsetStr) return { type: 'offset', offset: parseFloat(offsetStr) }
+  if (withPrevious) return { type: 'with-previous' }
+  return undefined
+}
+
+/**
+ * Write a start anchor as it appears at the end of a tag: @2.5s, +0.3, -0.5 or &
+ */
+export function formatTimeAnchor(anchor: TimeAnchor): string {
+  const seconds = (value: number) => String(Math.round(value * 100) / 100)
+  switch (anchor.type) {
+    case 'absolute': return `@${seconds(anchor.time)}s`
+    case 'offset': {
+      // Always with a decimal point, so an offset after an easing id is not read as part of the id
+      const value = seconds(Math.abs(anchor.offset))
+      return `${anchor.offset < 0 ? '-' : '+'}${value.includes('.') ? value : `${value}.0`}`
+    }
+    case 'with-previous': return '&'
+  }
+}
+
+/**
+ * Write a motion config back as a tag, the inverse of parseMotionTag.
+ * Times are rounded to hundredths of a second.
+ */
+export function serializeMotionTag(config: MotionConfig): string {
+  const seconds = (value: number) => String(Math.round(value * 100) / 100)
+  const entrySpeed = seconds(config.entrySpeed ?? 0.8)
+  const exitSpeed = seconds(config.exitSpeed ?? 0.8)
+  const entry = `${config.entryDirection}${config.entryRotate ? 'r' : ''}`
+  const exit = `${config.exitDirection}${config.exitRotate ? 'r' : ''}`
+
+  let tag = `${entrySpeed}${entry}${seconds(config.displayDuration)}${exit}${exitSpeed}`
+  if (config.entryEasing || config.exitEasing) {
+    const entryEasing = config.entryEasing ?? DEFAULT_MOTION_SETTINGS.defaultEasing
+    const exitEasing = config.exitEasing ?? entryEasing
+    tag += exitEasing === entryEasing ? `|${entryEasing}` : `|${entryEasing},${exitEasing}`
+  }
+  if (config.unit) {
+    tag += `/${config.unit[0]}${config.stagger !== undefined ? seconds(config.stagger) : ''}`
+  }
+  if (config.anchor) {
+    tag += formatTimeAnchor(config.anchor)
+  }
+
+  return `<${tag}>`
+}
+
+/**
+ * A replacement for one motion tag, located by the tag's range in the source text
+ */
+export interface MotionTagUpdate {
+  tagRange: SourceRange
+  config: MotionConfig
+}
+
+/**
+ * Rewrite motion tags in place, leaving the rest of the text untouched. An empty range
+ * adds a new tag there, after a space. Ranges refer to the original text, so
+ * replacements are applied from the end.
+ */
+export function rewriteMotionTags(text: string, updates: MotionTagUpdate[]): string {
+  return [...updates]
+    .sort((a, b) => b.tagRange.start - a.tagRange.start)
+    .reduce((result, { tagRange, config }) => {
+      const tag = tagRange.start === tagRange.end ? ` ${serializeMotionTag(config)}` : serializeMotionTag(config)
+      return result.slice(0, tagRange.start) + tag + result.slice(tagRange.end)
+    }, text)
+}
+
+/**
+ * Options for parseMotionLanguage
+ */
+export interface ParseOptions {
+  easingIds?: string[] // Known easing curve ids (built-in and custom); defaults to the built-in curves
+}
+
+interface SourceToken {
+  value: string
+  start: number
+  end: number
+  isTag: boolean
+}
+
+const DEFAULT_EASING_IDS = BUILT_IN_EASING_CURVES.map(curve => curve.id)
+const SYNTAX_HELP = 'Use format <[EntrySpeed][EntryDir][Duration][ExitDir][ExitSpeed]> like <0.3F1.2R0.9>'
+const DIRECTION_HELP = 'L, R, U, D, F, B or a diagonal (UL, UR, DL, DR), optionally followed by r to rotate'
+const UNIT_HELP = 'Use /w (word), /c (characters) or /l (lines), optionally followed by a stagger like /c0.05'
+const ANCHOR_HELP = 'Use @2.5s to start at 2.5 seconds, +0.3 or -0.5 to start that long after the previous group ends, or & to start with it'
+
+// A tag opens with a number and closes before any whitespace; any other '<' is text ("3 < 5", "I <3 you")
+const TAG_TOKEN_PATTERN = /<[\d.][^<>\s]*>/g
+// Text that reads like the start of a tag, for a hint about the missing '>'
+const UNCLOSED_TAG_PATTERN = /^<\d*\.?\d+(UL|UR|DL|DR|[LRUDFB])/
+
+/**
+ * Split text into words and motion tags, keeping source offsets
+ */
+function tokenize(text: string): SourceToken[] {
+  const tokens: SourceToken[] = []
+  const chunkPattern = /\S+/g
+  let chunk: RegExpExecArray | null
+
+  while ((chunk = chunkPattern.exec(text)) !== null) {
+    // Tags hold no whitespace, so each one sits inside a single chunk, possibly with text around it
+    const chunkStart = chunk.index
+    let position = 0
+    for (const tag of chunk[0].matchAll(TAG_TOKEN_PATTERN)) {
+      const tagStart = tag.index ?? 0
+      if (tagStart > position) {
+        tokens.push({ value: chunk[0].slice(position, tagStart), start: chunkStart + position, end: chunkStart + tagStart, isTag: false })
+      }
+      tokens.push({ value: tag[0], start: chunkStart + tagStart, end: chunkStart + tagStart + tag[0].length, isTag: true })
+      position = tagStart + tag[0].length
+    }
+    if (position < chunk[0].length) {
+      tokens.push({ value: chunk[0].slice(position), start: chunkStart + position, end: chunkStart + chunk[0].length, isTag: false })
+    }
+  }
+
+  return tokens
+}
 
 /**
  * Parse motion language syntax: <[EntrySpeed][EntryDirection][DisplayDuration][ExitDirection][ExitSpeed]>
- * Example: Hello Beautiful <0.3F1.2F0.9> Beautiful <0.5L1.8F0.4> World <0.8R2.0B1.2>
- * Groups consecutive words without motion tags into single text layers
+ * Example: Hello Beautiful <0.3F1.2F0.9> Beautiful <0.5L1.8F0.4> World <0.8Ur2.0DR1.2>
+ * Groups consecutive words without motion tags into single text layers, keeping punctuation,
+ * accents, non-Latin scripts and emoji exactly as written
  * Motion tags apply to the word or word group that PRECEDES them
+ * Problems with tags are reported as diagnostics with offsets into the source text
  */
-export function parseMotionLanguage(text: string): {
+export function parseMotionLanguage(text: string, options: ParseOptions = {}): {
   words: WordData[]
   cleanText: string
+  diagnostics: MotionDiagnostic[]
 } {
   const words: WordData[] = []
+  const diagnostics: MotionDiagnostic[] = []
+  const easingIds = options.easingIds ?? DEFAULT_EASING_IDS
   let wordIndex = 0
 
-  // First, extract clean text by removing all motion tags
-  const cleanText = text.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim()
-  
   // Split text into tokens (words and motion tags)
-  const tokens = text.split(/(\s+|<[^>]*>)/).filter(token => token.trim())
+  const tokens = tokenize(text)
+  const isTag = (token: SourceToken) => token.isTag
+
+  // Report every malformed tag, wherever it appears
+  tokens.filter(isTag).forEach(token => {
+    diagnostics.push(...diagnoseMotionTag(token.value, token.start, easingIds))
+  })
+  // A tag missing its '>' stays in the text; point it out
+  tokens.filter(token => !token.isTag && UNCLOSED_TAG_PATTERN.test(token.value)).forEach(token => {
+    diagnostics.push({
+      start: token.start,
+      end: token.end,
+      severity: 'warning',
+      message: `This looks like a motion tag without its closing '>', so it is shown as text. ${SYNTAX_HELP}`
+    })
+  })
   
   let i = 0
   while (i < tokens.length) {
-    const token = tokens[i].trim()
+    const token = tokens[i]
+    
+    // A tag reached here has no text group in front of it
+    if (isTag(token)) {
+      if (parseMotionTag(token.value)) {
+        diagnostics.push({
+          start: token.start,
+          end: token.end,
+          severity: 'warning',
+          message: 'Motion tag is not attached to any text. Tags apply to the words right before them'
+        })
+      }
+      i++
+      continue
+    }
     
-    // Check if this token is a motion tag
-    const motionMatch = token.match(/^<(\d*\.?\d+)([LRFB])(\d*\.?\d+)([LRFB])(\d*\.?\d+)>$/)
-    if (motionMatch) {
-      // Skip motion tags - they'll be processed when we find the preceding text
+    // Punctuation written right after a tag (e.g. "Hello <0.3F1.2R0.9>!") belongs to the tagged word
+    const previousWord = words[words.length - 1]
+    if (previousWord?.tagRange?.end === token.start && !isWordLikeText(token.value)) {
+      previousWord.text += token.value
+      if (previousWord.lines) previousWord.lines[previousWord.lines.length - 1] += token.value
       i++
       continue
     }
     
-    // Check if this token is a word
-    if (/^\w+$/.test(token)) {
-      const textParts = [token]
-      let motionConfig: MotionConfig | null = null
-      let j = i + 1
+    // Group consecutive text tokens until a motion tag
+    let motionConfig: MotionConfig | null = null
+    let tagRange: SourceRange | undefined
+    let textEnd = token.end
+    let j = i + 1
+    
+    while (j < tokens.length) {
+      const nextToken = tokens[j]
       
-      // Look ahead to group consecutive words or find motion tag
-      while (j < tokens.length) {
-        const nextToken = tokens[j].trim()
-        
-        // Check if next token is a motion tag
-        const nextMotionMatch = nextToken.match(/^<(\d*\.?\d+)([LRFB])(\d*\.?\d+)([LRFB])(\d*\.?\d+)>$/)
-        if (nextMotionMatch) {
-          // Found motion tag - parse it and apply to current text group
-          const [, entrySpeedStr, entryDir, durationStr, exitDir, exitSpeedStr] = nextMotionMatch
-          
-          motionConfig = {
-            entryDirection: entryDir as MotionDirection,
-            speed: 50, // Legacy field, not used in new format
-            displayDuration: parseFloat(durationStr),
-            zoomType: ZoomType.ZOOM_IN, // Default zoom
-            exitDirection: exitDir as MotionDirection,
-            entrySpeed: parseFloat(entrySpeedStr),
-            exitSpeed: parseFloat(exitSpeedStr)
-          }
-          j++ // Move past the motion tag
-          break
-        }
-        // Check if next token is a word (continue grouping)
-        else if (/^\w+$/.test(nextToken)) {
-          textParts.push(nextToken)
-          j++
-        }
-        // If it's neither a word nor motion tag, stop grouping
-        else {
-          break
-        }
+      // Check if next token is a motion tag
+      const nextMotionConfig = parseMotionTag(nextToken.value)
+      if (nextMotionConfig) {
+        // Found motion tag - apply it to current text group
+        motionConfig = nextMotionConfig
+        tagRange = { start: nextToken.start, end: nextToken.end }
+        j++ // Move past the motion tag
+        break
       }
-      
-      // Create word data for the text group
-      const groupedText = textParts.join(' ')
-      
-      if (motionConfig) {
-        // Text group with motion language
-        words.push({
-          id: `word-${wordIndex}-${Date.now()}`,
-          text: groupedText,
-          animation: AnimationType.MOTION_LANGUAGE,
-          motionConfig,
-          startTime: 0, // Will be calculated later
-          duration: 0.6, // Default duration, will be recalculated
-          easing: 'easeOut',
-          position: { x: 0, y: 0 }, // Will be calculated later
-          index: wordIndex
-        })
-      } else {
-        // Regular text group without motion
-        words.push({
-          id: `word-${wordIndex}-${Date.now()}`,
-          text: groupedText,
-          animation: AnimationType.FADE_IN,
-          startTime: 0,
-          duration: 0.6,
-          easing: 'easeOut',
-          position: { x: 0, y: 0 },
-          index: wordIndex
+      // Malformed tags end the group but are not attached to anything
+      if (isTag(nextToken)) {
+        j++
+        break
+      }
+      textEnd = nextToken.end
+      j++
+    }
+    
+    // Keep the source text as written (punctuation, scripts without spaces), only collapsing whitespace
+    const groupedText = text.slice(token.start, textEnd).replace(/\s+/g, ' ')
+    const textRange = { start: token.start, end: textEnd }
+    const lines = text.slice(token.start, textEnd).split(/\s*\n\s*/).map(line => line.replace(/\s+/g, ' '))
+    
+    if (!motionConfig && previousWord && !isWordLikeText(groupedText)) {
+      // A lone untagged run of punctuation stays with the word before it
+      const separator = /\s/.test(text[token.start - 1] ?? '') && !previousWord.tagRange ? ' ' : ''
+      previousWord.text += separator + groupedText
+      if (previousWord.lines) previousWord.lines[previousWord.lines.length - 1] += separator + groupedText
+    } else if (motionConfig) {
+      if (words.length === 0 && tagRange && motionConfig.anchor?.type === 'with-previous') {
+        diagnostics.push({
+          start: tagRange.end - 2,
+          end: tagRange.end - 1,
+          severity: 'warning',
+          message: "'&' starts a group together with the one before it, but this is the first group, so it starts at 0s"
         })
       }
-      
-      wordIndex++
-      i = j // Move to next unprocessed token
+
+      // Text group with motion language
+      words.push({
+        id: `word-${wordIndex}-${Date.now()}`,
+        text: groupedText,
+        animation: AnimationType.MOTION_LANGUAGE,
+        motionConfig,
+        startTime: 0, // Will be calculated later
+        duration: 0.6, // Default duration, will be recalculated
+        easing: 'easeOut',
+        position: { x: 0, y: 0 }, // Will be calculated later
+        index: wordIndex++,
+        textRange,
+        tagRange,
+        ...(lines.length > 1 && { lines })
+      })
     } else {
-      // Skip non-word tokens (shouldn't happen with our regex)
-      i++
+      // Regular text group without motion
+      words.push({
+        id: `word-${wordIndex}-${Date.now()}`,
+        text: groupedText,
+        animation: AnimationType.FADE_IN,
+        startTime: 0,
+        duration: 0.6,
+        easing: 'easeOut',
+        position: { x: 0, y: 0 },
+        index: wordIndex++,
+        textRange,
+        ...(lines.length > 1 && { lines })
+      })
     }
+    
+    i = j // Move to next unprocessed token
   }
 
-  return { words, cleanText }
+  // Clean text is exactly what renders: the text of each layer in order
+  const cleanText = words.map(word => word.text).join(' ')
+
+  diagnostics.sort((a, b) => a.start - b.start)
+  return { words, cleanText, diagnostics }
+}
+
+function isMotionDirection(code: string): code is MotionDirection {
+  return (Object.values(MotionDirection) as string[]).includes(code)
 }
 
 /**
- * Validate motion language syntax: <[EntrySpeed][EntryDirection][DisplayDuration][ExitDirection][ExitSpeed]>
+ * Check a single motion tag (including its angle brackets) and report each problem
+ * with a range pointing at the offending field. `offset` is the tag's position in the source.
  */
-export function validateMotionSyntax(motionTag: string): {
-  isValid: boolean
-  error?: string
-} {
-  // Remove < and > brackets
-  const content = motionTag.replace(/[<>]/g, '')
-  
-  // Check if it matches the pattern: [number][LRFB][number][LRFB][number]
-  const match = content.match(/^(\d*\.?\d+)([LRFB])(\d*\.?\d+)([LRFB])(\d*\.?\d+)$/)
-  
-  if (!match) {
-    return {
-      isValid: false,
-      error: `Invalid motion syntax. Use format <[EntrySpeed][EntryDir][Duration][ExitDir][ExitSpeed]> like <0.3F1.2R0.9>`
-    }
+export function diagnoseMotionTag(
+  tag: string,
+  offset: number = 0,
+  easingIds: string[] = DEFAULT_EASING_IDS
+): MotionDiagnostic[] {
+  const diagnostics: MotionDiagnostic[] = []
+  const report = (start: number, end: number, message: string) => {
+    diagnostics.push({ start: offset + start, end: offset + Math.max(end, start + 1), severity: 'error', message })
   }
 
-  const [, entrySpeedStr, entryDir, durationStr, exitDir, exitSpeedStr] = match
+  const closed = tag.endsWith('>')
+  const contentEnd = tag.length - 1
+  let pos = 1 // Skip the opening '<'
+
+  if (!closed) {
+    report(0, tag.length, `Motion tag is missing its closing '>'. ${SYNTAX_HELP}`)
+    return diagnostics
+  }
 
-  // Validate entry speed
-  const entrySpeed = parseFloat(entrySpeedStr)
-  if (isNaN(entrySpeed) || entrySpeed <= 0 || entrySpeed > 10) {
-    return {
-      isValid: false,
-      error: `Invalid entry speed '${entrySpeedStr}'. Use a positive number (0.1 to 10 seconds)`
+  const describe = (at: number) => at < contentEnd ? `'${tag[at]}'` : 'the end of the tag'
+
+  const readNumber = (label: string, max: number): boolean => {
+    const match = tag.slice(pos, contentEnd).match(/^\d*\.?\d+/)
+    if (!match) {
+      report(pos, pos + 1, `Expected ${label} but found ${describe(pos)}. ${SYNTAX_HELP}`)
+      return false
+    }
+
+    const value = parseFloat(match[0])
+    if (isNaN(value) || value <= 0 || value > max) {
+      report(pos, pos + match[0].length, `Invalid ${label} '${match[0]}'. Use a positive number (0.1 to ${max} seconds)`)
     }
+    pos += match[0].length
+    return true
   }
 
-  // Validate entry direction
-  if (!['L', 'R', 'F', 'B'].includes(entryDir)) {
-    return {
-      isValid: false,
-      error: `Invalid entry direction '${entryDir}'. Use L, R, F, or B`
+  const readDirection = (label: string): boolean => {
+    const match = tag.slice(pos, contentEnd).match(/^(UL|UR|DL|DR|[A-Za-z])(r?)/)
+    if (!match || !isMotionDirection(match[1])) {
+      const found = match ? `'${match[1]}'` : describe(pos)
+      report(pos, pos + (match?.[1].length ?? 1), `Invalid ${label} ${found}. Use ${DIRECTION_HELP}`)
+      return false
     }
+    pos += match[0].length
+    return true
+  }
+
+  const complete = readNumber('entry speed', 10)
+    && readDirection('entry direction')
+    && readNumber('display duration', 30)
+    && readDirection('exit direction')
+    && readNumber('exit speed', 10)
+
+  if (!complete || pos >= contentEnd) return diagnostics
+
+  // Anything after the exit speed must be an easing override, a unit suffix and/or a start anchor
+  const suffixEnd = (from: number, marks: string) => {
+    const found = [...marks].map(mark => tag.indexOf(mark, from)).filter(index => index > from)
+    return found.length > 0 ? Math.min(...found) : contentEnd
   }
 
-  // Validate display duration
-  const duration = parseFloat(durationStr)
-  if (isNaN(duration) || duration <= 0 || duration > 30) {
-    return {
-      isValid: false,
-      error: `Invalid display duration '${durationStr}'. Use a positive number (0.1 to 30 seconds)`
+  if (tag[pos] === '|') {
+    const easingMatch = tag.slice(pos, contentEnd).match(/^\|([\w-]+)(?:,([\w-]+))?(?=[/@+&-]|$)/)
+    if (!easingMatch) {
+      const end = suffixEnd(pos, '/@+-&')
+      report(pos, end, `Invalid easing override '${tag.slice(pos, end)}'. Use |entryEasing,exitEasing like |easeOutQuart,bounce`)
+      return diagnostics
     }
+
+    const [, entryEasing, exitEasing] = easingMatch
+    const entryStart = pos + 1
+    const exitStart = entryStart + entryEasing.length + 1
+    // Easing ids may contain '-', so '|bounce-1' reads as one id; offsets need a decimal point there
+    const unknownEasing = (id: string) => {
+      const offsetHint = /^(.+)-\d+$/.exec(id)
+      return offsetHint && easingIds.includes(offsetHint[1])
+        ? `Unknown easing curve '${id}'. To start earlier than the previous group ends, write the offset with a decimal point, like ${offsetHint[1]}-1.0`
+        : `Unknown easing curve '${id}'. Use a built-in or custom curve id like easeOutQuart`
+    }
+    if (!easingIds.includes(entryEasing)) {
+      report(entryStart, entryStart + entryEasing.length, unknownEasing(entryEasing))
+    }
+    if (exitEasing && !easingIds.includes(exitEasing)) {
+      report(exitStart, exitStart + exitEasing.length, unknownEasing(exitEasing))
+    }
+    pos += easingMatch[0].length
   }
 
-  // Validate exit direction
-  if (!['L', 'R', 'F', 'B'].includes(exitDir)) {
-    return {
-      isValid: false,
-      error: `Invalid exit direction '${exitDir}'. Use L, R, F, or B`
+  if (pos < contentEnd && tag[pos] === '/') {
+    const unitMatch = tag.slice(pos, contentEnd).match(/^\/([a-zA-Z]?)(\d*\.?\d+)?(?=[@+&-]|$)/)
+    if (!unitMatch || !UNIT_CODES[unitMatch[1]]) {
+      const end = suffixEnd(pos, '@+-&')
+      report(pos, end, `Invalid animation unit '${tag.slice(pos, end)}'. ${UNIT_HELP}`)
+      return diagnostics
     }
+
+    const stagger = unitMatch[2] ? parseFloat(unitMatch[2]) : undefined
+    if (stagger !== undefined && stagger > 1) {
+      const staggerStart = pos + 1 + unitMatch[1].length
+      report(staggerStart, pos + unitMatch[0].length, `Invalid stagger '${unitMatch[2]}'. Use 0 to 1 seconds between characters or lines`)
+    }
+    pos += unitMatch[0].length
   }
 
-  // Validate exit speed
-  const exitSpeed = parseFloat(exitSpeedStr)
-  if (isNaN(exitSpeed) || exitSpeed <= 0 || exitSpeed > 10) {
-    return {
-      isValid: false,
-      error: `Invalid exit speed '${exitSpeedStr}'. Use a positive number (0.1 to 10 seconds)`
+  if (pos < contentEnd && '@+-&'.includes(tag[pos])) {
+    if (!/^(@\d*\.?\d+s|[+-]\d*\.?\d+|&)$/.test(tag.slice(pos, contentEnd))) {
+      report(pos, contentEnd, `Invalid start anchor '${tag.slice(pos, contentEnd)}'. ${ANCHOR_HELP}`)
+      return diagnostics
     }
+    pos = contentEnd
+  }
+
+  if (pos < contentEnd) {
+    report(pos, contentEnd, `Unexpected '${tag.slice(pos, contentEnd)}' after the exit speed. ${SYNTAX_HELP}`)
   }
 
-  return { isValid: true }
+  return diagnostics
 }
 
 /**
- * Calculate animation timing for motion language words with configurable gap
+ * Validate motion language syntax: <[EntrySpeed][EntryDirection][DisplayDuration][ExitDirection][ExitSpeed]|[EntryEasing],[ExitEasing]/[Unit][Stagger][Anchor]>
+ * Pass the ids of all available easing curves (built-in and custom) to check easing overrides.
+ * Returns the first problem only; use diagnoseMotionTag for all of them with ranges.
  */
-export function calculateMotionTiming(words: WordData[], gapBetweenWords: number = 0.3): WordData[] {
+export function validateMotionSyntax(
+  motionTag: string,
+  easingIds: string[] = DEFAULT_EASING_IDS
+): {
+  isValid: boolean
+  error?: string
+} {
+  // Normalise to a single bracketed tag
+  const content = motionTag.replace(/[<>]/g, '')
+  const [firstError] = diagnoseMotionTag(`<${content}>`, 0, easingIds)
+
+  return firstError
+    ? { isValid: false, error: firstError.message }
+    : { isValid: true }
+}
+
+/**
+ * Calculate animation timing for motion language words with configurable gap.
+ * A tag's anchor moves its group: @2.5s starts it at 2.5 seconds, +0.3/-0.5 start it that long
+ * after the previous group ends (instead of the gap) and & starts it with the previous group.
+ * The groups after it follow on from there; nothing starts before 0.
+ * Words animated by character or line take longer by their stagger span.
+ * Positions come from the flow layout, using the typography to measure words.
+ */
+export function calculateMotionTiming(
+  words: WordData[],
+  gapBetweenWords: number = 0.3,
+  unitSettings: Pick<MotionSettings, 'animationUnit' | 'stagger'> = DEFAULT_MOTION_SETTINGS,
+  typography: Partial<TypographySettings> = {}
+): WordData[] {
   if (words.length === 0) return []
 
   let currentTime = 0
@@ -191,12 +504,15 @@ export function calculateMotionTiming(words: WordData[], gapBetweenWords: number
 
   // First pass: calculate timing
   words.forEach((word, index) => {
+    const previous = calculatedWords[calculatedWords.length - 1]
+    currentTime = Math.max(0, getAnchoredStart(word.motionConfig?.anchor, previous, currentTime))
+
     if (word.motionConfig) {
       // For motion language words, use the specified speeds and duration
       const entryDuration = word.motionConfig.entrySpeed || 0.8 // Use specified or default
       const displayDuration = word.motionConfig.displayDuration
       const exitDuration = word.motionConfig.exitSpeed || 0.8 // Use specified or default
-      const totalDuration = entryDuration + displayDuration + exitDuration
+      const totalDuration = entryDuration + displayDuration + exitDuration + getStaggerSpan(word, unitSettings)
 
       calculatedWords.push({
         ...word,
@@ -209,7 +525,7 @@ export function calculateMotionTiming(words: WordData[], gapBetweenWords: number
       currentTime += totalDuration + gapBetweenWords
     } else {
       // Default animation timing for non-motion words
-      const defaultDuration = 2.0 // Longer duration for fade-in words
+      const defaultDuration = 2.0 + getStaggerSpan(word, unitSettings) // Longer duration for fade-in words
       
       calculatedWords.push({
         ...word,
@@ -222,9 +538,21 @@ export function calculateMotionTiming(words: WordData[], gapBetweenWords: number
     }
   })
 
-  // Second pass: calculate positions using the positioning system
-  const config = createLayoutConfig(800, 600) // Default canvas size
-  return calculateWordPositions(calculatedWords, config)
+  // Second pass: lay out words that share the screen
+  const config = createLayoutConfig(800, 600, typography) // Preview stage size
+  return calculateWordPositions(calculatedWords, config, unitSettings)
+}
+
+/**
+ * Start time of a group with an anchor; `followOn` is where it starts without one
+ */
+function getAnchoredStart(anchor: TimeAnchor | undefined, previous: WordData | undefined, followOn: number): number {
+  switch (anchor?.type) {
+    case 'absolute': return anchor.time
+    case 'offset': return previous ? previous.startTime + previous.duration + anchor.offset : anchor.offset
+    case 'with-previous': return previous?.startTime ?? 0
+    default: return followOn
+  }
 }
 
 /**
@@ -252,5 +580,13 @@ export const motionExamples = [
   { tag: '<0.3F1.2R0.9>', description: 'Front entry (0.3s), display 1.2s, exit right (0.9s)' },
   { tag: '<0.5L1.8B0.4>', description: 'Left entry (0.5s), display 1.8s, exit back (0.4s)' },
   { tag: '<0.8R2.0F1.2>', description: 'Right entry (0.8s), display 2.0s, exit front (1.2s)' },
-  { tag: '<0.2B0.5L0.6>', description: 'Back entry (0.2s), display 0.5s, exit left (0.6s)' }
+  { tag: '<0.2B0.5L0.6>', description: 'Back entry (0.2s), display 0.5s, exit left (0.6s)' },
+  { tag: '<0.4U1.0D0.4>', description: 'Drop in from above (0.4s), display 1.0s, exit down (0.4s)' },
+  { tag: '<0.6Fr1.5DRr0.8>', description: 'Spin in from front (0.6s), display 1.5s, spin out down-right (0.8s)' },
+  { tag: '<0.3F1.2R0.9|easeOutQuart,bounce>', description: 'Front entry with easeOutQuart, exit right with bounce' },
+  { tag: '<0.4U1.5D0.4/c0.05>', description: 'Letters drop in one by one, 0.05s apart' },
+  { tag: '<0.5L2.0R0.5/l0.3>', description: 'Each line slides in from the left, 0.3s apart' },
+  { tag: '<0.3F1.2R0.9@2.5s>', description: 'Starts at exactly 2.5s instead of after the previous word' },
+  { tag: '<0.5L1.8F0.4-0.5>', description: 'Starts 0.5s before the previous word ends, overlapping it' },
+  { tag: '<0.4U1.0D0.4&>', description: 'Starts together with the previous word' }
 ]
\ No newline at end of file
@@ -1,6 +1,8 @@
 // Motion utilities for easing curve validation and conversion
 
-import { EasingCurve } from '@/types/motion'
+import { EasingCurve, MotionSettings, BUILT_IN_EASING_CURVES, DEFAULT_MOTION_SETTINGS } from '@/types/motion'
+import { AnimationUnit, WordData } from '@/types/typographer'
+import { splitGraphemes } from './segmenter'
 
 /**
  * Convert an EasingCurve to a CSS cubic-bezier string
@@ -112,6 +114,12 @@ export const applyMotionSettings = (
       case 'R':
         initial.x = (initial.x || 0) + globalInitialPosition.right
         break
+      case 'U':
+        initial.y = (initial.y || 0) + globalInitialPosition.up
+        break
+      case 'D':
+        initial.y = (initial.y || 0) + globalInitialPosition.down
+        break
       case 'F':
         initial.scale = (initial.scale || 1) * globalInitialPosition.front
         break
@@ -131,6 +139,91 @@ export const applySpeedMultiplier = (baseDuration: number, speedMultiplier: numb
   return baseDuration / speedMultiplier
 }
 
+/**
+ * Evaluate a CSS cubic-bezier timing function at linear progress (0-1)
+ */
+export const evaluateCubicBezier = (
+  [x1, y1, x2, y2]: [number, number, number, number],
+  progress: number
+): number => {
+  if (progress <= 0) return 0
+  if (progress >= 1) return 1
+
+  const sample = (a1: number, a2: number, t: number) =>
+    3 * a1 * t * (1 - t) * (1 - t) + 3 * a2 * t * t * (1 - t) + t * t * t
+
+  // Solve x(t) = progress by bisection; x is monotonic for valid curves
+  let low = 0
+  let high = 1
+  let t = progress
+  for (let i = 0; i < 30; i++) {
+    const x = sample(x1, x2, t)
+    if (Math.abs(x - progress) < 1e-5) break
+    if (x < progress) low = t
+    else high = t
+    t = (low + high) / 2
+  }
+
+  return sample(y1, y2, t)
+}
+
+/**
+ * Resolve the start/end transform for a motion direction from the global initial positions.
+ * Diagonals (UL, UR, DL, DR) combine the vertical and horizontal offsets.
+ */
+export const getDirectionTransform = (
+  direction: string,
+  globalInitialPosition: MotionSettings['globalInitialPosition'],
+  rotate = false
+): { x: number; y: number; scale: number; rotate: number } => {
+  const { left, right, up, down, front, back, rotation } = globalInitialPosition
+  const code = direction.toUpperCase()
+
+  return {
+    x: code.includes('L') ? left : code.includes('R') ? right : 0,
+    y: code.includes('U') ? up : code.includes('D') ? down : 0,
+    scale: code === 'F' ? front : code === 'B' ? back : 1,
+    rotate: rotate ? rotation : 0
+  }
+}
+
+/**
+ * Resolve the unit a word animates by and the stagger between units;
+ * a tag's /w, /c or /l suffix wins over the project setting
+ */
+export const resolveAnimationUnit = (
+  word: WordData,
+  settings: Pick<MotionSettings, 'animationUnit' | 'stagger'> = DEFAULT_MOTION_SETTINGS
+): { unit: AnimationUnit; stagger: number } => ({
+  unit: word.motionConfig?.unit ?? settings.animationUnit ?? DEFAULT_MOTION_SETTINGS.animationUnit,
+  stagger: word.motionConfig?.stagger ?? settings.stagger ?? DEFAULT_MOTION_SETTINGS.stagger
+})
+
+/**
+ * Split a word into the pieces that animate separately (the whole group, its characters or its lines)
+ */
+export const getAnimationUnits = (word: WordData, unit: AnimationUnit): string[] => {
+  switch (unit) {
+    case 'character':
+      return splitGraphemes(word.text)
+    case 'line':
+      return word.lines ?? [word.text]
+    default:
+      return [word.text]
+  }
+}
+
+/**
+ * Extra time a word needs so its last staggered unit can finish
+ */
+export const getStaggerSpan = (
+  word: WordData,
+  settings: Pick<MotionSettings, 'animationUnit' | 'stagger'> = DEFAULT_MOTION_SETTINGS
+): number => {
+  const { unit, stagger } = resolveAnimationUnit(word, settings)
+  return Math.max(0, getAnimationUnits(word, unit).length - 1) * stagger
+}
+
 /**
  * Get easing curve by ID from available curves
  */
@@ -141,21 +234,51 @@ export const getEasingCurveById = (
   return allCurves.find(curve => curve.id === id)
 }
 
+/**
+ * Resolve an easing id to cubic-bezier values, preferring custom curves over built-ins
+ */
+export const resolveEasingBezier = (
+  id: string | undefined,
+  customCurves: EasingCurve[] = []
+): [number, number, number, number] | undefined => {
+  if (!id) return undefined
+  return getEasingCurveById(id, [...customCurves, ...BUILT_IN_EASING_CURVES])?.cubicBezier
+}
+
+/**
+ * Collect the custom easing curves that motion settings and per-tag easing overrides depend on
+ */
+export const getReferencedEasingCurves = (
+  settings: MotionSettings,
+  customCurves: EasingCurve[],
+  words: WordData[] = []
+): EasingCurve[] => {
+  const referencedIds = new Set([settings.defaultEasing])
+  words.forEach(word => {
+    if (word.motionConfig?.entryEasing) referencedIds.add(word.motionConfig.entryEasing)
+    if (word.motionConfig?.exitEasing) referencedIds.add(word.motionConfig.exitEasing)
+  })
+  return customCurves.filter(curve => referencedIds.has(curve.id))
+}
+
 /**
  * Validate motion settings values (basic type checking only)
  */
 export const validateMotionSettings = (settings: Partial<MotionSettings>): boolean => {
   if (!settings || typeof settings !== 'object') return false
   
-  const { globalInitialPosition, speedMultiplier, gapBetweenWords } = settings
+  const { globalInitialPosition, speedMultiplier, gapBetweenWords, animationUnit, stagger } = settings
   
   // Basic type validation only - no value limits
   if (globalInitialPosition) {
-    const { left, right, front, back } = globalInitialPosition
+    const { left, right, up, down, front, back, rotation } = globalInitialPosition
     if (typeof left !== 'number' || isNaN(left)) return false
     if (typeof right !== 'number' || isNaN(right)) return false
+    if (typeof up !== 'number' || isNaN(up)) return false
+    if (typeof down !== 'number' || isNaN(down)) return false
     if (typeof front !== 'number' || isNaN(front)) return false
     if (typeof back !== 'number' || isNaN(back)) return false
+    if (typeof rotation !== 'number' || isNaN(rotation)) return false
   }
   
   if (speedMultiplier !== undefined) {
@@ -165,6 +288,14 @@ export const validateMotionSettings = (settings: Partial<MotionSettings>): boole
   if (gapBetweenWords !== undefined) {
     if (typeof gapBetweenWords !== 'number' || isNaN(gapBetweenWords)) return false
   }
+
+  if (animationUnit !== undefined) {
+    if (!['word', 'character', 'line'].includes(animationUnit)) return false
+  }
+
+  if (stagger !== undefined) {
+    if (typeof stagger !== 'number' || isNaN(stagger)) return false
+  }
   
   return true
 }
\ No newline at end of file
@@ -1,15 +1,24 @@
-// Word positioning system with collision detection
+// Word positioning: words that are on screen at the same time flow into lines like a paragraph
 
-import { WordData, AnimationType } from '@/types/typographer'
-import { PositionCalculation, CollisionBounds } from '@/lib/animations/types'
+import { WordData } from '@/types/typographer'
+import { MotionSettings, DEFAULT_MOTION_SETTINGS } from '@/types/motion'
+import { TypographySettings } from '@/types/typography'
+import { PositionCalculation } from '@/lib/animations/types'
+import { countGraphemes } from './segmenter'
+import { applyTextTransform } from './text-parser'
+import { resolveAnimationUnit, getAnimationUnits } from './motion-utils'
 
 export interface LayoutConfig {
   canvasWidth: number
   canvasHeight: number
   margin: number
-  minWordSpacing: number
-  lineHeight: number
-  centerBias: number // 0-1, how much to bias towards center
+  fontSize: number // px
+  fontFamily: string
+  fontWeight: number
+  letterSpacing: number // em
+  lineHeight: number // multiple of fontSize
+  textAlign: TypographySettings['textAlign']
+  textTransform: TypographySettings['textTransform']
 }
 
 export interface WordDimensions {
@@ -18,251 +27,187 @@ export interface WordDimensions {
   fontSize: number
 }
 
+interface LayoutLine {
+  words: Array<{ word: WordData; dimensions: WordDimensions; x: number }>
+  width: number
+  height: number
+}
+
+const STAGE_WIDTH = 800 // Preview width that positions are relative to
+const STAGE_HEIGHT = 600
+const ROOT_FONT_SIZE = 16 // px per rem
+
 /**
- * Calculate optimal positions for all words with collision detection
+ * Position every word. Words whose on-screen time overlaps form a cluster that is
+ * laid out as one paragraph, wrapped to the canvas width and aligned with textAlign.
+ * Positions are the offset of each word's centre from the canvas centre, in px.
  */
 export function calculateWordPositions(
-  words: WordData[], 
-  config: LayoutConfig
+  words: WordData[],
+  config: LayoutConfig,
+  unitSettings: Pick<MotionSettings, 'animationUnit' | 'stagger'> = DEFAULT_MOTION_SETTINGS
 ): WordData[] {
   if (words.length === 0) return []
 
-  // Get estimated dimensions for each word
-  const wordsWithDimensions = words.map(word => ({
-    word,
-    dimensions: estimateWordDimensions(word.text, config)
-  }))
+  const positions = new Map<string, PositionCalculation>()
+
+  groupByVisibility(words).forEach(cluster => {
+    const wordsWithDimensions = cluster.map(word => ({
+      word,
+      dimensions: estimateWordDimensions(word, config, unitSettings)
+    }))
 
-  // Calculate positions using different strategies
-  const positionedWords = layoutWords(wordsWithDimensions, config)
+    layoutWords(wordsWithDimensions, config).forEach(({ word, position }) => {
+      positions.set(word.id, position)
+    })
+  })
 
-  return positionedWords.map(({ word, position }) => ({
+  return words.map(word => ({
     ...word,
-    position
+    position: positions.get(word.id) ?? { x: 0, y: 0 }
   }))
 }
 
 /**
- * Layout words using multiple strategies
+ * Split words into clusters that share the screen; a word joins the current
+ * cluster when it starts before every word in it has finished
  */
-function layoutWords(
-  wordsWithDimensions: Array<{ word: WordData; dimensions: WordDimensions }>,
-  config: LayoutConfig
-): Array<{ word: WordData; position: PositionCalculation }> {
-  const positioned: Array<{ word: WordData; position: PositionCalculation }> = []
-  const occupiedAreas: CollisionBounds[] = []
-
-  for (const { word, dimensions } of wordsWithDimensions) {
-    let position: PositionCalculation
-
-    // Try different positioning strategies
-    if (word.animation === AnimationType.MOTION_LANGUAGE && word.motionConfig) {
-      // Motion language words use entrance direction for initial positioning
-      position = calculateMotionLanguagePosition(word, dimensions, config)
+function groupByVisibility(words: WordData[]): WordData[][] {
+  const sorted = [...words].sort((a, b) => a.startTime - b.startTime || a.index - b.index)
+  const clusters: WordData[][] = []
+  let clusterEnd = -Infinity
+
+  sorted.forEach(word => {
+    const end = word.startTime + word.duration
+    // Words that start exactly as the previous ones finish are not on screen together
+    if (clusters.length > 0 && word.startTime < clusterEnd - 1e-6) {
+      clusters[clusters.length - 1].push(word)
+      clusterEnd = Math.max(clusterEnd, end)
     } else {
-      // Standard animations use flow-based positioning
-      position = calculateFlowPosition(word, dimensions, config, occupiedAreas)
+      clusters.push([word])
+      clusterEnd = end
     }
+  })
 
-    // Ensure position is within canvas bounds
-    position = constrainToCanvas(position, dimensions, config)
-
-    // Add collision bounds for future words
-    const bounds = createCollisionBounds(position, dimensions, config.minWordSpacing)
-    occupiedAreas.push(bounds)
-
-    positioned.push({ word, position })
-  }
-
-  return positioned
+  // Keep reading order within each cluster
+  return clusters.map(cluster => cluster.sort((a, b) => a.index - b.index))
 }
 
 /**
- * Calculate position for motion language words based on entrance direction
+ * Flow a cluster of words into lines and centre the block on the canvas
  */
-function calculateMotionLanguagePosition(
-  word: WordData,
-  dimensions: WordDimensions,
+function layoutWords(
+  wordsWithDimensions: Array<{ word: WordData; dimensions: WordDimensions }>,
   config: LayoutConfig
-): PositionCalculation {
-  const { canvasWidth, canvasHeight } = config
-  const centerX = canvasWidth / 2
-  const centerY = canvasHeight / 2
-
-  // Base position near center with some randomization
-  const offsetRange = Math.min(canvasWidth, canvasHeight) * 0.1
-  const randomX = (Math.random() - 0.5) * offsetRange
-  const randomY = (Math.random() - 0.5) * offsetRange
-
-  return {
-    x: centerX + randomX - dimensions.width / 2,
-    y: centerY + randomY - dimensions.height / 2
-  }
-}
-
-/**
- * Calculate position using flow-based layout
- */
-function calculateFlowPosition(
-  word: WordData,
-  dimensions: WordDimensions,
-  config: LayoutConfig,
-  occupiedAreas: CollisionBounds[]
-): PositionCalculation {
-  const { canvasWidth, canvasHeight, margin, centerBias, lineHeight } = config
-
-  // Start from center and spiral outward
-  const centerX = canvasWidth / 2
-  const centerY = canvasHeight / 2
+): Array<{ word: WordData; position: PositionCalculation }> {
+  const maxWidth = config.canvasWidth - config.margin * 2
+  const spaceWidth = measureTextWidth(' ', config)
+  const lineHeight = config.fontSize * config.lineHeight
+  const lines: LayoutLine[] = []
 
-  // Try positions in expanding spiral
-  for (let radius = 0; radius < Math.min(canvasWidth, canvasHeight) / 2; radius += 20) {
-    const positions = generateSpiralPositions(centerX, centerY, radius, 8)
-    
-    for (const pos of positions) {
-      const candidate: PositionCalculation = {
-        x: pos.x - dimensions.width / 2,
-        y: pos.y - dimensions.height / 2
-      }
+  for (const { word, dimensions } of wordsWithDimensions) {
+    const line = lines[lines.length - 1]
+    const x = line && line.words.length > 0 ? line.width + spaceWidth : 0
 
-      // Check if position is valid
-      if (isPositionValid(candidate, dimensions, config, occupiedAreas)) {
-        return candidate
-      }
+    // Wrap before a word that would overflow, unless it is alone on its line
+    if (!line || (line.words.length > 0 && x + dimensions.width > maxWidth)) {
+      lines.push({ words: [{ word, dimensions, x: 0 }], width: dimensions.width, height: Math.max(lineHeight, dimensions.height) })
+    } else {
+      line.words.push({ word, dimensions, x })
+      line.width = x + dimensions.width
+      line.height = Math.max(line.height, dimensions.height)
     }
   }
 
-  // Fallback: place at center even if it overlaps
-  return {
-    x: centerX - dimensions.width / 2,
-    y: centerY - dimensions.height / 2
-  }
-}
-
-/**
- * Generate positions in a spiral pattern
- */
-function generateSpiralPositions(
-  centerX: number, 
-  centerY: number, 
-  radius: number, 
-  numPoints: number
-): Array<{ x: number; y: number }> {
-  const positions: Array<{ x: number; y: number }> = []
-  
-  for (let i = 0; i < numPoints; i++) {
-    const angle = (i / numPoints) * 2 * Math.PI
-    const x = centerX + Math.cos(angle) * radius
-    const y = centerY + Math.sin(angle) * radius
-    positions.push({ x, y })
-  }
+  // A single word group wider than the canvas overflows on its own line, centred
+  const blockWidth = Math.min(Math.max(...lines.map(line => line.width)), maxWidth)
+  const blockHeight = lines.reduce((total, line) => total + line.height, 0)
+  const positioned: Array<{ word: WordData; position: PositionCalculation }> = []
+  let top = -blockHeight / 2
+
+  lines.forEach(line => {
+    // Align each line within the block; the block itself stays centred
+    const lineLeft = line.width > blockWidth ? -line.width / 2 : -blockWidth / 2 + (
+      config.textAlign === 'left' ? 0
+        : config.textAlign === 'right' ? blockWidth - line.width
+        : (blockWidth - line.width) / 2
+    )
+
+    line.words.forEach(({ word, dimensions, x }) => {
+      positioned.push({
+        word,
+        position: {
+          x: lineLeft + x + dimensions.width / 2,
+          y: top + line.height / 2
+        }
+      })
+    })
+    top += line.height
+  })
 
-  return positions
+  return positioned
 }
 
-/**
- * Check if a position is valid (no collisions, within bounds)
- */
-function isPositionValid(
-  position: PositionCalculation,
-  dimensions: WordDimensions,
-  config: LayoutConfig,
-  occupiedAreas: CollisionBounds[]
-): boolean {
-  // Check canvas bounds
-  if (position.x < config.margin || 
-      position.y < config.margin ||
-      position.x + dimensions.width > config.canvasWidth - config.margin ||
-      position.y + dimensions.height > config.canvasHeight - config.margin) {
-    return false
-  }
-
-  // Check collisions with existing words
-  const bounds = createCollisionBounds(position, dimensions, config.minWordSpacing)
-  
-  for (const occupied of occupiedAreas) {
-    if (boundsOverlap(bounds, occupied)) {
-      return false
-    }
-  }
-
-  return true
-}
+let measureContext: CanvasRenderingContext2D | null | undefined
 
 /**
- * Create collision bounds for a word
+ * Measure text with a canvas when one is available, otherwise estimate from the character count
  */
-function createCollisionBounds(
-  position: PositionCalculation,
-  dimensions: WordDimensions,
-  spacing: number
-): CollisionBounds {
-  return {
-    left: position.x - spacing,
-    top: position.y - spacing,
-    right: position.x + dimensions.width + spacing,
-    bottom: position.y + dimensions.height + spacing
+export function measureTextWidth(text: string, config: LayoutConfig): number {
+  if (measureContext === undefined) {
+    measureContext = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null
   }
-}
 
-/**
- * Check if two bounds overlap
- */
-function boundsOverlap(a: CollisionBounds, b: CollisionBounds): boolean {
-  return !(a.right < b.left || 
-           a.left > b.right || 
-           a.bottom < b.top || 
-           a.top > b.bottom)
-}
+  const transformed = applyTextTransform(text, config.textTransform)
+  const characters = countGraphemes(transformed)
+  const spacing = config.letterSpacing * config.fontSize * characters
 
-/**
- * Constrain position to canvas bounds
- */
-function constrainToCanvas(
-  position: PositionCalculation,
-  dimensions: WordDimensions,
-  config: LayoutConfig
-): PositionCalculation {
-  return {
-    x: Math.max(config.margin, 
-        Math.min(position.x, config.canvasWidth - dimensions.width - config.margin)),
-    y: Math.max(config.margin, 
-        Math.min(position.y, config.canvasHeight - dimensions.height - config.margin))
+  if (measureContext) {
+    measureContext.font = `${config.fontWeight} ${config.fontSize}px ${config.fontFamily}`
+    return measureContext.measureText(transformed).width + spacing
   }
+
+  return characters * config.fontSize * 0.6 + spacing
 }
 
 /**
- * Estimate word dimensions based on text and font size
+ * Measure a word's box; words animated line by line stack their lines
  */
-function estimateWordDimensions(text: string, config: LayoutConfig): WordDimensions {
-  // Rough estimation based on character count and font size
-  // In a real implementation, you might want to use canvas measureText
-  const fontSize = 32 // Default font size for animations
-  const charWidth = fontSize * 0.6 // Average character width
-  const width = text.length * charWidth
-  const height = fontSize * 1.2 // Include line height
+function estimateWordDimensions(
+  word: WordData,
+  config: LayoutConfig,
+  unitSettings: Pick<MotionSettings, 'animationUnit' | 'stagger'>
+): WordDimensions {
+  const { unit } = resolveAnimationUnit(word, unitSettings)
+  const lines = unit === 'line' ? getAnimationUnits(word, unit) : [word.text]
+  const lineHeight = config.fontSize * config.lineHeight
 
   return {
-    width,
-    height,
-    fontSize
+    width: Math.max(...lines.map(line => measureTextWidth(line, config))),
+    height: lines.length * lineHeight,
+    fontSize: config.fontSize
   }
 }
 
 /**
- * Create responsive layout configuration
+ * Create responsive layout configuration from typography settings
  */
 export function createLayoutConfig(
-  canvasWidth: number,
-  canvasHeight: number
+  canvasWidth: number = STAGE_WIDTH,
+  canvasHeight: number = STAGE_HEIGHT,
+  typography: Partial<TypographySettings> = {}
 ): LayoutConfig {
   return {
     canvasWidth,
     canvasHeight,
     margin: Math.min(canvasWidth, canvasHeight) * 0.05,
-    minWordSpacing: 20,
-    lineHeight: 40,
-    centerBias: 0.7
+    fontSize: (typography.fontSize ?? 2) * ROOT_FONT_SIZE,
+    fontFamily: typography.fontFamily ?? 'sans-serif',
+    fontWeight: typography.fontWeight ?? 400,
+    letterSpacing: typography.letterSpacing ?? 0,
+    lineHeight: typography.lineHeight ?? 1.2,
+    textAlign: typography.textAlign ?? 'center',
+    textTransform: typography.textTransform ?? 'none'
   }
 }
 
@@ -286,14 +231,3 @@ export function updatePositionsForResize(
     }
   }))
 }
-
-/**
- * Optimize positions for better visual balance
- */
-export function optimizePositions(words: WordData[], config: LayoutConfig): WordData[] {
-  // Group words by animation timing for better visual flow
-  const sortedWords = [...words].sort((a, b) => a.startTime - b.startTime)
-  
-  // Apply position optimizations
-  return calculateWordPositions(sortedWords, config)
-}
\ No newline at end of file
@@ -0,0 +1,82 @@
+// Unicode-aware text segmentation built on Intl.Segmenter, with a regex fallback for older runtimes
+
+export interface TextSegment {
+  text: string
+  start: number // Offset into the source text (inclusive)
+  end: number // Offset into the source text (exclusive)
+  isWordLike: boolean // Letters, numbers or emoji, as opposed to punctuation and whitespace
+}
+
+// Built with the RegExp constructor because property escapes need an ES2018 target
+const WORD_CHARACTER = new RegExp('[\\p{L}\\p{N}\\p{M}]', 'u')
+const PICTOGRAPHIC = new RegExp('\\p{Extended_Pictographic}|\\p{Regional_Indicator}', 'u')
+// Fallback word pattern: letter/number runs joined by apostrophes or periods (don't, 3.14), single emoji, or any other character
+const FALLBACK_SEGMENT = new RegExp(
+  "[\\p{L}\\p{N}\\p{M}]+(?:['’.·][\\p{L}\\p{N}\\p{M}]+)*|\\p{Extended_Pictographic}(?:\\u200D\\p{Extended_Pictographic}|[\\uFE0F\\p{M}])*|\\s+|.",
+  'gsu'
+)
+
+let wordSegmenter: Intl.Segmenter | null | undefined
+let graphemeSegmenter: Intl.Segmenter | null | undefined
+
+function getSegmenter(granularity: 'word' | 'grapheme'): Intl.Segmenter | null {
+  const cached = granularity === 'word' ? wordSegmenter : graphemeSegmenter
+  if (cached !== undefined) return cached
+
+  const segmenter = typeof Intl !== 'undefined' && typeof Intl.Segmenter === 'function'
+    ? new Intl.Segmenter(undefined, { granularity })
+    : null
+
+  if (granularity === 'word') wordSegmenter = segmenter
+  else graphemeSegmenter = segmenter
+  return segmenter
+}
+
+/**
+ * Split text into word, punctuation and whitespace segments with source offsets.
+ * Emoji count as word-like so they animate like any other word.
+ */
+export function segmentWords(text: string): TextSegment[] {
+  const segmenter = getSegmenter('word')
+
+  if (segmenter) {
+    return Array.from(segmenter.segment(text), ({ segment, index, isWordLike }) => ({
+      text: segment,
+      start: index,
+      end: index + segment.length,
+      isWordLike: Boolean(isWordLike) || PICTOGRAPHIC.test(segment)
+    }))
+  }
+
+  return Array.from(text.matchAll(FALLBACK_SEGMENT), match => ({
+    text: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    isWordLike: WORD_CHARACTER.test(match[0]) || PICTOGRAPHIC.test(match[0])
+  }))
+}
+
+/**
+ * Split text into user-perceived characters (combining marks, emoji sequences and flags stay whole)
+ */
+export function splitGraphemes(text: string): string[] {
+  const segmenter = getSegmenter('grapheme')
+  if (segmenter) {
+    return Array.from(segmenter.segment(text), ({ segment }) => segment)
+  }
+  return Array.from(text)
+}
+
+/**
+ * Number of visible characters, for layout estimates that would otherwise count UTF-16 units
+ */
+export function countGraphemes(text: string): number {
+  return splitGraphemes(text).length
+}
+
+/**
+ * Whether text contains anything besides punctuation and whitespace
+ */
+export function isWordLikeText(text: string): boolean {
+  return segmentWords(text).some(segment => segment.isWordLike)
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_MOTION_SETTINGS } from '@/types/motion'
+import { calculateMotionTiming, parseMotionLanguage } from './motion-parser'
+import { applyTapTimes } from './tap-timing'
+
+function time(text: string, gap: number) {
+  return calculateMotionTiming(parseMotionLanguage(text).words, gap, DEFAULT_MOTION_SETTINGS)
+}
+
+describe('applyTapTimes', () => {
+  it.each([
+    ['taps that leave room to follow on', 'One <0.3F1R0.3> two <0.5L1.2R0.4|easeOutCubic> three <0.4U1D0.4>', [0, 2.5, 6.25], 0.2],
+    ['a late first tap', 'One <0.3F1R0.3> two <0.5L1.2R0.4>', [1.5, 4], 0.3],
+    ['taps closer than entry and exit', 'One <0.3F1R0.3> two <0.5L1.2R0.4> three <0.4U1D0.4>', [0, 0.4, 0.6], 0],
+    ['staggered characters', 'Letters <0.4U1.5D0.4/c0.05> drop <0.5F1F0.5>', [0.25, 3.1], 0.3],
+    ['an untagged group', 'One two <0.3F1R0.3> three', [0, 1], 0.2]
+  ])('rewrites tags so groups start at the taps for %s', (_, text, taps, gap) => {
+    const rewritten = applyTapTimes(text, time(text, gap), taps, gap, DEFAULT_MOTION_SETTINGS)
+    const starts = time(rewritten, gap).slice(0, taps.length).map(word => word.startTime)
+
+    taps.forEach((tap, index) => expect(starts[index]).toBeCloseTo(tap, 2))
+  })
+
+  it('anchors only the groups that cannot follow on', () => {
+    const text = 'One <0.3F1R0.3> two <0.5L1.2R0.4> three <0.4U1D0.4>'
+    const rewritten = applyTapTimes(text, time(text, 0), [0.5, 3, 3.2], 0, DEFAULT_MOTION_SETTINGS)
+
+    expect(rewritten).toBe('One <0.3F1.9R0.3@0.5s> two <0.5L0.1R0.4> three <0.4U1D0.4-0.8>')
+  })
+
+  it('keeps the tags of groups after the last tap', () => {
+    const text = 'One <0.3F1R0.3> two <0.5L1.2R0.4> three <0.4U1D0.4>'
+    const rewritten = applyTapTimes(text, time(text, 0.2), [0, 3], 0.2, DEFAULT_MOTION_SETTINGS)
+
+    expect(rewritten.endsWith('three <0.4U1D0.4>')).toBe(true)
+  })
+})
@@ -0,0 +1,80 @@
+import { MotionConfig, MotionDirection, TimeAnchor, WordData, ZoomType } from '@/types/typographer'
+import { DEFAULT_MOTION_SETTINGS, MotionSettings } from '@/types/motion'
+import { rewriteMotionTags, MotionTagUpdate } from './motion-parser'
+import { getStaggerSpan } from './motion-utils'
+
+const MIN_DISPLAY = 0.1 // Shortest display duration a tag accepts
+const MAX_DISPLAY = 30 // Longest display duration a tag accepts
+const TOLERANCE = 0.005 // Tags keep hundredths, so closer than this is on time
+const TAPPED_TRANSITION = 0.3 // Entry and exit of groups that had no tag
+const TAPPED_DISPLAY = 1 // Display duration of an untagged last group
+
+/**
+ * Rewrite the text so each group starts at its tap time. Each tapped group's display
+ * duration is stretched to last until the next tap, so groups keep following on from one
+ * another; an anchor is added only where that is impossible (taps closer than the group's
+ * entry and exit) or for the first group. Untagged groups gain a tag; groups after the
+ * last tap keep theirs.
+ * `words` must be timed by calculateMotionTiming with the same gap and unit settings.
+ */
+export function applyTapTimes(
+  text: string,
+  words: WordData[],
+  taps: number[],
+  gapBetweenWords: number,
+  unitSettings: Pick<MotionSettings, 'animationUnit' | 'stagger'> = DEFAULT_MOTION_SETTINGS
+): string {
+  const updates: MotionTagUpdate[] = []
+  let followOn = 0 // Where the next group starts without an anchor
+  let previousEnd: number | null = null
+
+  words.slice(0, taps.length).forEach((word, index) => {
+    const base: MotionConfig = word.motionConfig ?? {
+      entryDirection: MotionDirection.FRONT,
+      speed: 50, // Legacy field, not used in new format
+      displayDuration: TAPPED_DISPLAY,
+      zoomType: ZoomType.ZOOM_IN,
+      exitDirection: MotionDirection.FRONT,
+      entrySpeed: TAPPED_TRANSITION,
+      exitSpeed: TAPPED_TRANSITION
+    }
+    const tap = roundTime(Math.max(0, taps[index]))
+
+    // Start where the taps say, anchoring only when following on would be late or early
+    let anchor: TimeAnchor | undefined
+    let start = followOn
+    if (Math.abs(tap - followOn) >= TOLERANCE) {
+      anchor = previousEnd === null
+        ? { type: 'absolute', time: tap }
+        : { type: 'offset', offset: roundTime(tap - previousEnd) }
+      start = tap
+    }
+
+    // Stay on screen until the next tap, less the gap the next group follows on after
+    const transitions = (base.entrySpeed || 0.8) + (base.exitSpeed || 0.8) + getStaggerSpan(word, unitSettings)
+    const next = taps[index + 1]
+    const displayDuration = next === undefined
+      ? base.displayDuration
+      : clamp(roundTime(roundTime(next) - start - gapBetweenWords - transitions), MIN_DISPLAY, MAX_DISPLAY)
+
+    const config: MotionConfig = { ...base, displayDuration, anchor }
+    updates.push({
+      config,
+      // Untagged groups get a new tag right after their text
+      tagRange: word.tagRange ?? { start: word.textRange?.end ?? text.length, end: word.textRange?.end ?? text.length }
+    })
+
+    previousEnd = start + transitions + displayDuration
+    followOn = previousEnd + gapBetweenWords
+  })
+
+  return rewriteMotionTags(text, updates)
+}
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 100) / 100
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
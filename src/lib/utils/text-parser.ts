@@ -1,4 +1,6 @@
 import { ParsedText } from '@/types/typographer'
+import { TypographySettings } from '@/types/typography'
+import { segmentWords, splitGraphemes, isWordLikeText } from './segmenter'
 
 /**
  * Parse text into words and punctuation for animation processing
@@ -11,47 +13,32 @@ export function parseText(text: string): ParsedText {
   const words: ParsedText['words'] = []
   const punctuation: ParsedText['punctuation'] = []
   
-  // Split text while preserving positions
-  const regex = /(\S+)/g
-  let match
-  let wordIndex = 0
-  
-  while ((match = regex.exec(text)) !== null) {
-    const fullMatch = match[1]
-    const start = match.index
-    const end = start + fullMatch.length
-    
-    // Separate word from punctuation
-    const wordMatch = fullMatch.match(/^([a-zA-Z0-9]+)(.*)$/)
-    
-    if (wordMatch) {
-      const [, wordPart, punctuationPart] = wordMatch
-      
-      // Add the word
+  // Segment with Intl.Segmenter so accented letters, CJK, Arabic, apostrophes and emoji are handled
+  segmentWords(text).forEach(segment => {
+    if (segment.isWordLike) {
       words.push({
-        text: wordPart,
-        index: wordIndex++,
-        start,
-        end: start + wordPart.length
+        text: segment.text,
+        index: words.length,
+        start: segment.start,
+        end: segment.end
       })
-      
-      // Add punctuation if exists
-      if (punctuationPart) {
-        punctuation.push({
-          text: punctuationPart,
-          index: punctuation.length,
-          position: start + wordPart.length
-        })
-      }
+      return
+    }
+
+    if (!segment.text.trim()) return
+
+    // Merge runs of punctuation (e.g. "...") into one entry
+    const last = punctuation[punctuation.length - 1]
+    if (last && last.position + last.text.length === segment.start) {
+      last.text += segment.text
     } else {
-      // If no word pattern matched, treat entire match as punctuation
       punctuation.push({
-        text: fullMatch,
+        text: segment.text,
         index: punctuation.length,
-        position: start
+        position: segment.start
       })
     }
-  }
+  })
   
   return { words, punctuation }
 }
@@ -117,13 +104,14 @@ export function findWordBeforePosition(text: string, position: number): {
 export function isPositionAfterWord(text: string, position: number): boolean {
   if (position === 0) return false
   
-  const charBefore = text[position - 1]
+  const graphemesBefore = splitGraphemes(text.slice(0, position))
+  const charBefore = graphemesBefore[graphemesBefore.length - 1]
   const charAt = text[position] || ' '
   
   // Position is after a word if:
-  // - Previous character is alphanumeric
+  // - Previous character is a letter, number or emoji (in any script)
   // - Current character is whitespace or end of string
-  return /[a-zA-Z0-9]/.test(charBefore) && /\s/.test(charAt)
+  return isWordLikeText(charBefore) && /\s/.test(charAt)
 }
 
 /**
@@ -167,6 +155,18 @@ export function calculateReadingTime(text: string, wordsPerMinute: number = 180)
   return (wordCount / wordsPerMinute) * 60
 }
 
+/**
+ * Apply a CSS text-transform for measuring or drawing outside the DOM
+ */
+export function applyTextTransform(text: string, transform: TypographySettings['textTransform']): string {
+  switch (transform) {
+    case 'uppercase': return text.toUpperCase()
+    case 'lowercase': return text.toLowerCase()
+    case 'capitalize': return text.replace(/\b\w/g, char => char.toUpperCase())
+    default: return text
+  }
+}
+
 /**
  * Normalize text for processing (remove extra whitespace, etc.)
  */
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_MOTION_SETTINGS } from '@/types/motion'
+import { calculateMotionTiming, parseMotionLanguage } from './motion-parser'
+import { applyTimelineDrag, getTimingSegments, moveWordGroup } from './timeline-editing'
+
+const GAP = 0.2
+const TEXT = 'One <0.3F1R0.3> two <0.5L1.2R0.4> three <0.4U1D0.4@6s> four <0.2B0.5F0.2>'
+
+function time(text: string) {
+  return calculateMotionTiming(parseMotionLanguage(text).words, GAP, DEFAULT_MOTION_SETTINGS)
+}
+
+describe('applyTimelineDrag', () => {
+  it.each([
+    ['moves a word later', 1, 'move', 0.75, [0, 2.55, 6, 8]],
+    ['moves a word earlier, overlapping the previous one', 1, 'move', -1, [0, 0.8, 6, 8]],
+    ['leaves a word that is not moved following on', 1, 'move', 0, [0, 1.8, 6, 8]],
+    ['moves a word with an absolute anchor', 2, 'move', -1.5, [0, 1.8, 4.5, 6.5]],
+    ['lengthens the entry, keeping its end in place', 1, 'entry', -0.3, [0, 1.5, 6, 8]],
+    ['stretches the display', 0, 'display', 0.5, [0, 2.3, 6, 8]],
+    ['stretches the exit', 3, 'exit', 0.3, [0, 1.8, 6, 8]]
+  ] as const)('%s', (_, index, mode, delta, starts) => {
+    const words = time(TEXT)
+    const rewritten = applyTimelineDrag(TEXT, words, index, mode, delta, GAP)
+    const retimed = time(rewritten)
+
+    retimed.forEach((word, i) => expect(word.startTime).toBeCloseTo(starts[i], 2))
+    if (mode === 'entry') {
+      expect(retimed[index].startTime + getTimingSegments(retimed[index]).entry)
+        .toBeCloseTo(words[index].startTime + getTimingSegments(words[index]).entry, 2)
+    }
+    if (mode === 'exit') {
+      expect(retimed[index].duration).toBeCloseTo(words[index].duration + delta, 2)
+    }
+  })
+})
+
+describe('moveWordGroup', () => {
+  it.each([
+    ['moves a group later', 'One <0.3F1R0.3> two <0.5L1R0.4> three <0.4U1D0.4>', 0, 2, 'two <0.5L1R0.4> three <0.4U1D0.4> One <0.3F1R0.3>'],
+    ['moves a group earlier', 'One <0.3F1R0.3> two <0.5L1R0.4> three <0.4U1D0.4>', 2, 0, 'three <0.4U1D0.4> One <0.3F1R0.3> two <0.5L1R0.4>'],
+    ['keeps line breaks in place', 'One <0.3F1R0.3>\ntwo <0.5L1R0.4> three <0.4U1D0.4>', 0, 1, 'two <0.5L1R0.4>\nOne <0.3F1R0.3> three <0.4U1D0.4>'],
+    ['keeps untagged text last', 'One <0.3F1R0.3> two <0.5L1R0.4> tail', 0, 5, 'two <0.5L1R0.4> One <0.3F1R0.3> tail']
+  ])('%s', (_, text, index, newIndex, expected) => {
+    const words = time(text)
+    const moved = moveWordGroup(text, words, index, newIndex)
+    expect(moved).toBe(expected)
+
+    // The groups play in their new order, each with its own timing
+    const retimed = time(moved)
+    const durations = new Map(words.map(word => [word.text, word.duration]))
+    let start = 0
+    retimed.forEach(word => {
+      expect(word.startTime).toBeCloseTo(start, 2)
+      expect(word.duration).toBeCloseTo(durations.get(word.text) ?? 0, 2)
+      start += word.duration + GAP
+    })
+  })
+})
@@ -0,0 +1,135 @@
+import { MotionConfig, TimeAnchor, WordData } from '@/types/typographer'
+import { rewriteMotionTags } from './motion-parser'
+
+/**
+ * What a drag on a timeline bar changes: the whole bar, its left edge (entry speed),
+ * the end of its display segment, its right edge (exit speed), or its place in the text
+ */
+export type TimelineDragMode = 'move' | 'entry' | 'display' | 'exit' | 'reorder'
+
+export interface TimingSegments {
+  entry: number
+  display: number // Includes the stagger span of character and line animations
+  exit: number
+}
+
+const MIN_SPEED = 0.05 // Shortest entry or exit a drag leaves
+const MAX_SPEED = 10 // Longest entry or exit a tag accepts
+const MIN_DISPLAY = 0.1 // Shortest display duration a tag accepts
+const MAX_DISPLAY = 30 // Longest display duration a tag accepts
+const TOLERANCE = 0.005 // Tags keep hundredths, so closer than this is the same time
+
+/**
+ * Seconds of a timed word spent entering, on display and exiting
+ */
+export function getTimingSegments(word: WordData): TimingSegments {
+  if (!word.motionConfig) {
+    return { entry: 0, display: word.duration, exit: 0 }
+  }
+  const entry = word.motionConfig.entrySpeed || 0.8
+  const exit = word.motionConfig.exitSpeed || 0.8
+  return { entry, display: Math.max(0, word.duration - entry - exit), exit }
+}
+
+/**
+ * The word's tag after a drag of `delta` seconds, or null for words without a tag.
+ * Moving changes only the start; the left edge keeps the entry's end in place and the
+ * display and right-edge drags keep the start. Starts become anchors relative to the
+ * previous group, unless the word already has an absolute one; a start where the word
+ * would follow on anyway drops the anchor.
+ * `words` must be timed by calculateMotionTiming with the same gap.
+ */
+export function getDraggedConfig(
+  words: WordData[],
+  index: number,
+  mode: Exclude<TimelineDragMode, 'reorder'>,
+  delta: number,
+  gapBetweenWords: number
+): MotionConfig | null {
+  const word = words[index]
+  if (!word?.motionConfig) return null
+  const { entry, exit } = getTimingSegments(word)
+  const config = { ...word.motionConfig }
+
+  switch (mode) {
+    case 'move':
+      config.anchor = getAnchorForStart(words, index, word.startTime + delta, gapBetweenWords)
+      break
+    case 'entry': {
+      const entrySpeed = clamp(roundTime(entry - delta), MIN_SPEED, MAX_SPEED)
+      config.entrySpeed = entrySpeed
+      config.anchor = getAnchorForStart(words, index, word.startTime + entry - entrySpeed, gapBetweenWords)
+      break
+    }
+    case 'display':
+      config.displayDuration = clamp(roundTime(word.motionConfig.displayDuration + delta), MIN_DISPLAY, MAX_DISPLAY)
+      break
+    case 'exit':
+      config.exitSpeed = clamp(roundTime(exit + delta), MIN_SPEED, MAX_SPEED)
+      break
+  }
+
+  return config
+}
+
+/**
+ * Rewrite the word's tag in the text for a drag of `delta` seconds
+ */
+export function applyTimelineDrag(
+  text: string,
+  words: WordData[],
+  index: number,
+  mode: Exclude<TimelineDragMode, 'reorder'>,
+  delta: number,
+  gapBetweenWords: number
+): string {
+  const tagRange = words[index]?.tagRange
+  const config = getDraggedConfig(words, index, mode, delta, gapBetweenWords)
+  return tagRange && config ? rewriteMotionTags(text, [{ tagRange, config }]) : text
+}
+
+/**
+ * Move a tagged group, tag and all, so it comes `newIndex`th among the other groups.
+ * Groups swap places while the spaces and line breaks between them stay where they are, and
+ * untagged text at the end stays last, since moving a group after it would pull it into the group.
+ */
+export function moveWordGroup(text: string, words: WordData[], index: number, newIndex: number): string {
+  const ranges = words.flatMap(({ textRange, tagRange }) => textRange && tagRange ? [{ start: textRange.start, end: tagRange.end }] : [])
+  const position = words.slice(0, index).filter(word => word.textRange && word.tagRange).length
+  const target = Math.min(Math.max(0, newIndex), ranges.length - 1)
+  if (!words[index]?.tagRange || target === position) return text
+
+  const groups = ranges.map(range => text.slice(range.start, range.end))
+  const separators = ranges.slice(1).map((range, i) => text.slice(ranges[i].end, range.start))
+  const [group] = groups.splice(position, 1)
+  groups.splice(target, 0, group)
+
+  const before = text.slice(0, ranges[0].start)
+  const after = text.slice(ranges[ranges.length - 1].end)
+  return before + groups.map((group, i) => group + (separators[i] ?? '')).join('') + after
+}
+
+/**
+ * The anchor that starts a word at `start`, or none when it follows on there anyway
+ */
+function getAnchorForStart(words: WordData[], index: number, start: number, gapBetweenWords: number): TimeAnchor | undefined {
+  const word = words[index]
+  const previous = index > 0 ? words[index - 1] : undefined
+  const previousEnd = previous ? previous.startTime + previous.duration : 0
+  const followOn = previous ? previousEnd + gapBetweenWords : 0
+  const time = Math.max(0, roundTime(start))
+
+  if (Math.abs(time - followOn) < TOLERANCE) return undefined
+  if (!previous || word.motionConfig?.anchor?.type === 'absolute') {
+    return { type: 'absolute', time }
+  }
+  return { type: 'offset', offset: roundTime(time - previousEnd) }
+}
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 100) / 100
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
@@ -0,0 +1,10 @@
+// The quantizer gif.js builds its palettes with, which ships without typings
+
+declare module 'gif.js/src/TypedNeuQuant' {
+  class NeuQuant {
+    constructor(pixels: ArrayLike<number>, samplefac: number) // pixels as r, g, b values; samplefac 1 is best, 30 fastest
+    buildColormap(): void
+    getColormap(): number[] // r, g, b values of 256 colours
+  }
+  export = NeuQuant
+}
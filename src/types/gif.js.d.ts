@@ -0,0 +1,11 @@
+// Parts of gif.js that its typings leave out
+
+export {}
+
+declare global {
+  namespace GIF {
+    interface Options {
+      globalPalette?: boolean | number[] // true reuses the first frame's palette; an array of r, g, b values is used as is
+    }
+  }
+}
@@ -1,15 +1,22 @@
 // Motion settings and easing curve type definitions
 
+import { AnimationUnit } from './typographer'
+
 export interface MotionSettings {
   globalInitialPosition: {
     left: number    // pixels from center for L direction (-500 to +500)
     right: number   // pixels from center for R direction (-500 to +500)
+    up: number      // pixels from center for U direction (-500 to +500, negative is above)
+    down: number    // pixels from center for D direction (-500 to +500)
     front: number   // scale factor for F direction (0.1 to 3.0)
     back: number    // scale factor for B direction (0.1 to 3.0)
+    rotation: number // degrees for the r rotation modifier (-720 to +720)
   }
   speedMultiplier: number // global speed multiplier (0.1 - 5.0)
   defaultEasing: string   // default easing curve ID
   gapBetweenWords: number // default gap in seconds (-2.0 to +5.0)
+  animationUnit: AnimationUnit // what a motion tag animates by default: the word group, each character or each line
+  stagger: number // seconds between consecutive characters or lines (0 to 1.0)
 }
 
 export interface EasingCurve {
@@ -50,6 +57,7 @@ export interface MotionStore {
   applyMotionPreset: (presetId: string) => void
   saveAsMotionPreset: (name: string, description?: string) => void
   deleteMotionPreset: (presetId: string) => void
+  restoreMotion: (settings: MotionSettings, curves?: EasingCurve[]) => void
   
   // Actions - Easing Curves
   createEasingCurve: (curve: Omit<EasingCurve, 'id'>) => void
@@ -72,12 +80,17 @@ export const MOTION_PRESETS: MotionPreset[] = [
       globalInitialPosition: {
         left: -50,
         right: 50,
+        up: -50,
+        down: 50,
         front: 0.8,
-        back: 1.2
+        back: 1.2,
+        rotation: -45
       },
       speedMultiplier: 0.8,
       defaultEasing: 'easeInOutCubic',
-      gapBetweenWords: 0.2
+      gapBetweenWords: 0.2,
+      animationUnit: 'word',
+      stagger: 0.06
     }
   },
   {
@@ -88,12 +101,17 @@ export const MOTION_PRESETS: MotionPreset[] = [
       globalInitialPosition: {
         left: -100,
         right: 100,
+        up: -100,
+        down: 100,
         front: 0.5,
-        back: 1.5
+        back: 1.5,
+        rotation: -90
       },
       speedMultiplier: 1.0,
       defaultEasing: 'easeOutCubic',
-      gapBetweenWords: 0.1
+      gapBetweenWords: 0.1,
+      animationUnit: 'word',
+      stagger: 0.04
     }
   },
   {
@@ -104,12 +122,17 @@ export const MOTION_PRESETS: MotionPreset[] = [
       globalInitialPosition: {
         left: -200,
         right: 200,
+        up: -200,
+        down: 200,
         front: 0.3,
-        back: 2.0
+        back: 2.0,
+        rotation: -180
       },
       speedMultiplier: 1.3,
       defaultEasing: 'easeOutQuart',
-      gapBetweenWords: -0.1
+      gapBetweenWords: -0.1,
+      animationUnit: 'word',
+      stagger: 0.03
     }
   }
 ]
@@ -119,12 +142,17 @@ export const DEFAULT_MOTION_SETTINGS: MotionSettings = {
   globalInitialPosition: {
     left: -100,
     right: 100,
+    up: -100,
+    down: 100,
     front: 0.6,
-    back: 1.4
+    back: 1.4,
+    rotation: -90
   },
   speedMultiplier: 1.0,
   defaultEasing: 'easeOutCubic',
-  gapBetweenWords: 0.0
+  gapBetweenWords: 0.0,
+  animationUnit: 'word',
+  stagger: 0.05
 }
 
 // Built-in easing curves from animation presets
@@ -1,5 +1,7 @@
 // Project management type definitions
 
+import { MotionSettings, EasingCurve } from './motion'
+
 export interface ProjectData {
   id: string
   name: string
@@ -7,9 +9,32 @@ export interface ProjectData {
   textContent: string
   typography: TypographySettings
   wordGap: number
+  motionSettings: MotionSettings // Snapshot of the motion settings used by this project
+  easingCurves: EasingCurve[] // Custom easing curves referenced by the motion settings
   createdAt: Date
   updatedAt: Date
   thumbnail?: string // Base64 or URL to preview image
+  thumbnailTime?: number // Seconds into the animation to capture for the thumbnail (defaults to peak visibility)
+  audio: ProjectAudio | null // Soundtrack; the file itself is stored apart from the record
+  schemaVersion?: number // Stamped by ProjectStorage when the project is written
+}
+
+export interface ProjectAudio {
+  name: string // File name shown in the controls bar
+  type: string // MIME type
+}
+
+export interface QuarantinedProject {
+  id?: string
+  name?: string
+  reason: string
+  quarantinedAt: Date
+  record: unknown // The raw stored record, kept so it can be recovered manually
+}
+
+export interface ProjectLoadResult {
+  projects: ProjectData[]
+  quarantined: QuarantinedProject[]
 }
 
 export interface TypographySettings {
@@ -55,6 +80,7 @@ export interface ProjectStore {
   templates: ProjectTemplate[]
   isLoading: boolean
   error: string | null
+  quarantinedProjects: QuarantinedProject[]
   filter: ProjectFilter
   viewMode: ProjectViewMode
   showLeftSidebar: boolean
@@ -64,6 +90,7 @@ export interface ProjectStore {
   saveProject: (project?: ProjectData) => Promise<void>
   loadProject: (id: string) => Promise<void>
   deleteProject: (id: string) => Promise<void>
+  setProjectAudio: (file: File | null) => Promise<void>
   duplicateProject: (id: string) => Promise<ProjectData>
   
   // Project management
@@ -77,6 +104,7 @@ export interface ProjectStore {
   
   // Storage
   loadProjects: () => Promise<void>
+  clearQuarantinedProjects: () => Promise<void>
   exportProject: (id: string, format: 'json' | 'text') => Promise<string>
   importProject: (data: string) => Promise<ProjectData>
 }
@@ -17,6 +17,12 @@ export enum AnimationType {
 export enum MotionDirection {
   LEFT = 'L',
   RIGHT = 'R',
+  UP = 'U',
+  DOWN = 'D',
+  UP_LEFT = 'UL',
+  UP_RIGHT = 'UR',
+  DOWN_LEFT = 'DL',
+  DOWN_RIGHT = 'DR',
   FRONT = 'F', // toward viewer (scale up)
   BACK = 'B'   // away from viewer (scale down)
 }
@@ -34,6 +40,42 @@ export interface MotionConfig {
   exitDirection: MotionDirection
   entrySpeed?: number // Entry animation speed in seconds
   exitSpeed?: number // Exit animation speed in seconds
+  entryRotate?: boolean // Spin in from globalInitialPosition.rotation ('r' after the entry direction)
+  exitRotate?: boolean // Spin out to globalInitialPosition.rotation ('r' after the exit direction)
+  entryEasing?: string // Easing curve id for the entry ('|entry,exit' suffix); falls back to defaultEasing
+  exitEasing?: string // Easing curve id for the exit; falls back to defaultEasing
+  unit?: AnimationUnit // '/c', '/l' or '/w' suffix; falls back to the project's animationUnit
+  stagger?: number // Seconds between characters or lines (e.g. '/c0.05'); falls back to the project's stagger
+  anchor?: TimeAnchor // When the group starts ('@2.5s', '+0.3', '-0.5' or '&' suffix); defaults to after the previous group
+}
+
+/**
+ * What a motion tag animates: the whole word group, each character, or each line
+ */
+export type AnimationUnit = 'word' | 'character' | 'line'
+
+/**
+ * Where a group starts instead of the previous group's end plus the word gap:
+ * at a fixed time, at an offset from the previous group's end, or together with the previous group
+ */
+export type TimeAnchor =
+  | { type: 'absolute'; time: number } // '@2.5s'
+  | { type: 'offset'; offset: number } // '+0.3' or '-0.5', replacing the word gap
+  | { type: 'with-previous' } // '&'
+
+export interface SourceRange {
+  start: number // Offset into the source text (inclusive)
+  end: number // Offset into the source text (exclusive)
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info'
+
+/**
+ * A problem found while parsing motion language, located in the source text
+ */
+export interface MotionDiagnostic extends SourceRange {
+  severity: DiagnosticSeverity
+  message: string
 }
 
 export interface WordData {
@@ -44,8 +86,11 @@ export interface WordData {
   startTime: number
   duration: number
   easing: string
-  position: { x: number; y: number }
+  position: { x: number; y: number } // Offset of the word centre from the stage centre (px on the 800px stage)
   index: number // Position in the original text
+  textRange?: SourceRange // Where the word group appears in textContent
+  tagRange?: SourceRange // Where its motion tag appears in textContent
+  lines?: string[] // Source lines of a group that spans line breaks, for line-level animation
 }
 
 export interface AnimationConfig {